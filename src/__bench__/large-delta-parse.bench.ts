@@ -0,0 +1,107 @@
+/**
+ * Performance benchmarks: parsing very large, newline-heavy deltas
+ *
+ * Run with:
+ *   npx vitest bench large-delta
+ *
+ * Covers documents in the tens of thousands of lines (audit logs, exported
+ * chats) to check that parsing scales linearly with document size. Compare
+ * the 50k and 100k line results: a linear parser takes ~2x longer on the
+ * larger document, not ~4x. The 5k line results are faster per line, as
+ * small documents are garbage-collected while still in V8's young
+ * generation, so 5k against 50k is not a fair measure of growth.
+ */
+
+import { QuillDeltaToHtmlConverter } from 'quill-delta-to-html';
+import { bench, describe } from 'vitest';
+import { DEFAULT_BLOCK_ATTRIBUTES } from '../common/default-block-attributes';
+import type { Delta, DeltaOp } from '../core/ast-types';
+import { parseDelta } from '../core/parser';
+import { parseQuillDelta } from '../parse-quill-delta';
+import { SemanticHtmlRenderer } from '../renderers/html/semantic/semantic-html-renderer';
+
+const QUILL_CONFIG = { blockAttributes: DEFAULT_BLOCK_ATTRIBUTES };
+
+const semanticRenderer = new SemanticHtmlRenderer();
+
+// ─── Fixture Helpers ────────────────────────────────────────────────────────
+
+/** One op per line, each with a formatted timestamp — audit log shape. */
+function makeLogLines(count: number): Delta {
+  const ops: DeltaOp[] = [];
+  for (let i = 0; i < count; i++) {
+    ops.push({ insert: `2025-01-01T00:00:${i % 60}Z`, attributes: { bold: true } });
+    ops.push({ insert: ` user-${i % 97} updated record ${i}\n` });
+  }
+  return { ops };
+}
+
+/** The whole document in a single op — one newline per line. */
+function makeSingleOpLines(count: number): Delta {
+  const lines: string[] = [];
+  for (let i = 0; i < count; i++) {
+    lines.push(`Line ${i + 1} of a plain text export`);
+  }
+  return { ops: [{ insert: `${lines.join('\n')}\n` }] };
+}
+
+/** Alternating bullet items and level 3 headers, one newline op per line. */
+function makeBlockLines(count: number): Delta {
+  const ops: DeltaOp[] = [];
+  for (let i = 0; i < count; i++) {
+    ops.push({ insert: `Entry ${i + 1}` });
+    ops.push({ insert: '\n', attributes: i % 2 === 0 ? { list: 'bullet' } : { header: 3 } });
+  }
+  return { ops };
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const LOG_5K = makeLogLines(5_000);
+const LOG_50K = makeLogLines(50_000);
+const LOG_100K = makeLogLines(100_000);
+const SINGLE_OP_5K = makeSingleOpLines(5_000);
+const SINGLE_OP_50K = makeSingleOpLines(50_000);
+const SINGLE_OP_100K = makeSingleOpLines(100_000);
+const BLOCKS_50K = makeBlockLines(50_000);
+
+// ─── Benchmarks ─────────────────────────────────────────────────────────────
+
+describe('parseDelta — one op per line', () => {
+  bench('5,000 lines', () => {
+    parseDelta(LOG_5K, QUILL_CONFIG);
+  });
+  bench('50,000 lines', () => {
+    parseDelta(LOG_50K, QUILL_CONFIG);
+  });
+  bench('100,000 lines', () => {
+    parseDelta(LOG_100K, QUILL_CONFIG);
+  });
+});
+
+describe('parseDelta — single op', () => {
+  bench('5,000 lines', () => {
+    parseDelta(SINGLE_OP_5K, QUILL_CONFIG);
+  });
+  bench('50,000 lines', () => {
+    parseDelta(SINGLE_OP_50K, QUILL_CONFIG);
+  });
+  bench('100,000 lines', () => {
+    parseDelta(SINGLE_OP_100K, QUILL_CONFIG);
+  });
+});
+
+describe('parseDelta — block attributes on every line', () => {
+  bench('50,000 lines', () => {
+    parseDelta(BLOCKS_50K, QUILL_CONFIG);
+  });
+});
+
+describe('Full pipeline — 50,000 log lines', () => {
+  bench('SemanticHtmlRenderer', () => {
+    semanticRenderer.render(parseQuillDelta(LOG_50K));
+  });
+  bench('quill-delta-to-html', () => {
+    new QuillDeltaToHtmlConverter(LOG_50K.ops).convert();
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../core/ast-types';
+import { DeltaParser } from '../core/parser';
+import { parseQuillDelta } from '../parse-quill-delta';
+import { astToDelta } from './ast-to-delta';
+import { DEFAULT_BLOCK_ATTRIBUTES } from './default-block-attributes';
+import { blockMerger } from './transformers/block-merger';
+import { flatListGrouper } from './transformers/flat-list-grouper';
+import { headingAnchors } from './transformers/heading-anchors';
+import { sectionGrouper } from './transformers/section-grouper';
+
+/** Parse with the full default pipeline and serialize back. */
+function roundTrip(delta: Delta): Delta {
+  return astToDelta(parseQuillDelta(delta));
+}
+
+describe('astToDelta', () => {
+  it('should serialize an empty root as an empty delta', () => {
+    expect(roundTrip({ ops: [] })).toEqual({ ops: [] });
+  });
+
+  it('should round-trip inline formats and embeds', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'Hello ' },
+        { insert: 'world', attributes: { bold: true, link: 'https://x.y' } },
+        { insert: { image: 'a.png' }, attributes: { alt: 'A' } },
+        { insert: { formula: 'x^2' } },
+        { insert: '\n' },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+  });
+
+  it('should undo blockMerger for paragraphs, headers and blockquotes', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'a\n\nb' },
+        { insert: '\n', attributes: { align: 'center' } },
+        { insert: 'h1' },
+        { insert: '\n', attributes: { header: 1 } },
+        { insert: 'h2' },
+        { insert: '\n', attributes: { header: 1 } },
+        { insert: 'q1' },
+        { insert: '\n\n', attributes: { blockquote: true } },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+  });
+
+  it('should undo codeBlockGrouper and merged code lines', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'const a = 1;' },
+        { insert: '\n\n', attributes: { 'code-block': 'js' } },
+        { insert: 'return a;' },
+        { insert: '\n', attributes: { 'code-block': 'js' } },
+        { insert: 'plain' },
+        { insert: '\n', attributes: { 'code-block': true } },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+
+    // Without codeBlockGrouper, blockMerger joins code lines with `\n` text nodes
+    const ast = parseQuillDelta(delta, { transformers: [blockMerger()] });
+    expect(ast.children[0]!.children.some((c) => c.data === '\n')).toBe(true);
+    expect(astToDelta(ast)).toEqual(delta);
+  });
+
+  it('should undo listGrouper nesting', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'one' },
+        { insert: '\n', attributes: { list: 'ordered' } },
+        { insert: 'child' },
+        { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+        { insert: 'grandchild' },
+        { insert: '\n', attributes: { list: 'checked', indent: 2 } },
+        { insert: 'sibling' },
+        { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+        { insert: 'two' },
+        { insert: '\n', attributes: { list: 'ordered' } },
+        { insert: 'after\n' },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+  });
+
+  it('should undo flatListGrouper', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'a' },
+        { insert: '\n', attributes: { list: 'bullet' } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { list: 'ordered', indent: 1 } },
+      ],
+    };
+    const ast = new DeltaParser(delta, { blockAttributes: DEFAULT_BLOCK_ATTRIBUTES })
+      .use(flatListGrouper)
+      .toAST();
+    expect(astToDelta(ast)).toEqual(delta);
+  });
+
+  it('should undo tableGrouper', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'a' },
+        { insert: '\n\n', attributes: { table: 'row-1' } },
+        { insert: 'c', attributes: { italic: true } },
+        { insert: '\n', attributes: { table: 'row-2' } },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+  });
+
+  it('should undo header sections and merged cell lines', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'Name' },
+        { insert: '\n', attributes: { table: 'row-1', 'table-header': true } },
+        { insert: 'line 1' },
+        { insert: '\n', attributes: { table: 'row-2', cell: 'c1', colspan: 2 } },
+        { insert: 'line 2' },
+        { insert: '\n', attributes: { table: 'row-2', cell: 'c1', colspan: 2 } },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+  });
+
+  it('should undo cells holding blocks', () => {
+    const cellLine = { rowspan: '1', colspan: '1', row: 'row-1', cell: 'cell-1' };
+    const delta: Delta = {
+      ops: [
+        { insert: 'Title' },
+        { insert: '\n', attributes: { header: 2, 'table-cell-line': cellLine } },
+        { insert: 'item' },
+        { insert: '\n', attributes: { list: { list: 'bullet', ...cellLine } } },
+        { insert: 'after\n' },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+  });
+
+  it('should undo sectionGrouper', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'A' },
+        { insert: '\n', attributes: { header: 1 } },
+        { insert: 'a\nB' },
+        { insert: '\n', attributes: { header: 2 } },
+        { insert: 'b\n' },
+      ],
+    };
+    const ast = parseQuillDelta(delta, { extraTransformers: [sectionGrouper] });
+    expect(astToDelta(ast)).toEqual(delta);
+  });
+
+  it('should drop the ids set by headingAnchors', () => {
+    const delta: Delta = {
+      ops: [{ insert: 'Getting started' }, { insert: '\n', attributes: { header: 1 } }],
+    };
+    const ast = parseQuillDelta(delta, { extraTransformers: [headingAnchors()] });
+    expect(ast.children[0]!.attributes.id).toBe('getting-started');
+    expect(astToDelta(ast)).toEqual(delta);
+  });
+
+  it('should emit block embeds without a trailing newline', () => {
+    const delta: Delta = {
+      ops: [{ insert: 'before\n' }, { insert: { video: 'v.mp4' } }, { insert: 'after\n' }],
+    };
+    expect(roundTrip(delta)).toEqual(delta);
+  });
+
+  it('should canonicalize non-canonical input', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'a', attributes: {} },
+        { insert: 'b' },
+        { insert: 'c', attributes: { bold: true } },
+        { insert: 'd', attributes: { bold: true } },
+        { insert: '\n' },
+        { insert: 'trailing' },
+      ],
+    };
+    expect(roundTrip(delta)).toEqual({
+      ops: [
+        { insert: 'ab' },
+        { insert: 'cd', attributes: { bold: true } },
+        { insert: '\ntrailing\n' },
+      ],
+    });
+  });
+
+  it('should serialize the result of a custom transformer', () => {
+    const redact = (children: TNode[]): TNode[] =>
+      children.map((block) => ({
+        ...block,
+        children: block.children.map((child) =>
+          child.type === 'text' && child.attributes.bold
+            ? { ...child, data: '█'.repeat(String(child.data).length), attributes: {} }
+            : child,
+        ),
+      }));
+
+    const ast = parseQuillDelta(
+      {
+        ops: [
+          { insert: 'my ' },
+          { insert: 'secret', attributes: { bold: true } },
+          { insert: '\n' },
+        ],
+      },
+      { extraTransformers: [redact] },
+    );
+    expect(astToDelta(ast)).toEqual({ ops: [{ insert: 'my ██████\n' }] });
+  });
+
+  it('should flatten custom containers and apply custom type attributes', () => {
+    const root: TNode = {
+      type: 'root',
+      attributes: {},
+      isInline: false,
+      children: [
+        {
+          type: 'aside',
+          attributes: {},
+          isInline: false,
+          children: [
+            {
+              type: 'callout',
+              attributes: {},
+              isInline: false,
+              children: [
+                { type: 'text', attributes: {}, children: [], data: 'Note', isInline: true },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(
+      astToDelta(root, {
+        containerTypes: ['aside'],
+        typeAttributes: { callout: { callout: true } },
+      }),
+    ).toEqual({
+      ops: [{ insert: 'Note' }, { insert: '\n', attributes: { callout: true } }],
+    });
+  });
+});
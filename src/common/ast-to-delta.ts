@@ -0,0 +1,169 @@
+import type { Attributes, Delta, DeltaOp, TNode } from '../core/ast-types';
+import { pushInsert } from '../core/delta-ops';
+
+/**
+ * Container node types created by the standard transformers. Their
+ * children are serialized in place; the container itself emits nothing.
+ */
+const CONTAINER_TYPES = [
+  'list',
+  'table',
+  'table-head',
+  'table-body',
+  'table-row',
+  'code-block-container',
+  'section',
+];
+
+/**
+ * Node types the standard transformers derive from the content, with no
+ * lines of their own. `footnoteCollector` appends the `footnotes` list.
+ */
+const DERIVED_TYPES = ['footnotes'];
+
+/**
+ * Block attributes implied by a node type but not stored on the node.
+ * `DEFAULT_BLOCK_ATTRIBUTES` maps `blockquote` to a bare `blockquote` node.
+ */
+const TYPE_ATTRIBUTES: Record<string, Attributes> = {
+  blockquote: { blockquote: true },
+};
+
+/**
+ * Attributes the standard transformers add to a node type, which are not
+ * part of the Delta. `tableGrouper` sets the `scope` of header cells, and
+ * `headingAnchors` the `id` of headers.
+ */
+const DERIVED_ATTRIBUTES: Record<string, string[]> = {
+  'table-cell': ['scope'],
+  header: ['id'],
+};
+
+/**
+ * Options for {@link astToDelta}.
+ */
+export interface AstToDeltaOptions {
+  /**
+   * Extra container node types produced by custom transformers. Their
+   * children are serialized in place of the container.
+   */
+  containerTypes?: string[];
+
+  /**
+   * Extra block attributes implied by a node type, for custom block
+   * attribute handlers whose `blockAttrs` do not round-trip on their own.
+   * Merged over the defaults (`{ blockquote: { blockquote: true } }`).
+   */
+  typeAttributes?: Record<string, Attributes>;
+}
+
+interface SerializeState {
+  ops: DeltaOp[];
+  containers: Set<string>;
+  typeAttributes: Record<string, Attributes>;
+}
+
+/**
+ * Serialize an AST back into a Quill Delta — the inverse of parsing.
+ *
+ * Undoes the standard transformers: list, table, code-block and section containers
+ * are flattened back into their lines (cells merged from several lines are
+ * split again, and cells holding blocks emit those blocks' lines), nested
+ * list items keep the `indent`
+ * stored on their nodes, and `line-break` nodes (and `\n` text inserted by
+ * `blockMerger` into code blocks) end a line carrying the block's
+ * attributes. Block embeds are emitted without a trailing newline, and the
+ * `footnotes` list appended by `footnoteCollector` is dropped.
+ *
+ * The result is canonical: adjacent inserts with equal attributes are
+ * merged and empty attribute bags are omitted, so parsing a canonical
+ * Delta and serializing it again yields an equal Delta.
+ *
+ * @example
+ * ```ts
+ * import { parseQuillDelta } from 'quill-delta-renderer';
+ * import { astToDelta } from 'quill-delta-renderer/common';
+ *
+ * const ast = parseQuillDelta(delta, { extraTransformers: [redactEmails] });
+ * const redacted = astToDelta(ast);
+ * ```
+ */
+export function astToDelta(root: TNode, options?: AstToDeltaOptions): Delta {
+  const state: SerializeState = {
+    ops: [],
+    containers: new Set([...CONTAINER_TYPES, ...(options?.containerTypes ?? [])]),
+    typeAttributes: { ...TYPE_ATTRIBUTES, ...options?.typeAttributes },
+  };
+
+  serializeBlocks(state, root.type === 'root' ? root.children : [root]);
+
+  return { ops: state.ops };
+}
+
+// ─── Blocks ─────────────────────────────────────────────────────────────────
+
+function serializeBlocks(state: SerializeState, nodes: TNode[]): void {
+  for (const node of nodes) {
+    if (DERIVED_TYPES.includes(node.type)) continue;
+    if (state.containers.has(node.type) || isBlockCell(node)) {
+      serializeBlocks(state, node.children);
+    } else if (isEmbed(node)) {
+      pushInsert(state.ops, { [node.type]: node.data }, node.attributes);
+    } else {
+      serializeLine(state, node);
+    }
+  }
+}
+
+/**
+ * Serialize a block holding one or more lines. Nested containers (sub-lists
+ * appended by `listGrouper`) follow the block's own lines.
+ */
+function serializeLine(state: SerializeState, node: TNode): void {
+  const blockAttrs = { ...state.typeAttributes[node.type], ...node.attributes };
+  for (const name of DERIVED_ATTRIBUTES[node.type] ?? []) {
+    delete blockAttrs[name];
+  }
+  const nested: TNode[] = [];
+
+  for (const child of node.children) {
+    if (state.containers.has(child.type)) {
+      nested.push(child);
+    } else {
+      serializeInline(state, child, blockAttrs);
+    }
+  }
+
+  pushInsert(state.ops, '\n', blockAttrs);
+  serializeBlocks(state, nested);
+}
+
+// ─── Inline ─────────────────────────────────────────────────────────────────
+
+function serializeInline(state: SerializeState, node: TNode, blockAttrs: Attributes): void {
+  if (node.type === 'line-break') {
+    pushInsert(state.ops, '\n', blockAttrs);
+  } else if (node.type === 'text') {
+    const lines = String(node.data ?? '').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (i > 0) pushInsert(state.ops, '\n', blockAttrs);
+      pushInsert(state.ops, lines[i]!, node.attributes);
+    }
+  } else if (isEmbed(node)) {
+    pushInsert(state.ops, { [node.type]: node.data }, node.attributes);
+  } else {
+    // Inline wrapper from a custom transformer — keep its content only
+    for (const child of node.children) {
+      serializeInline(state, child, blockAttrs);
+    }
+  }
+}
+
+/** A table cell holding blocks; its lines carry the cell's attributes themselves. */
+function isBlockCell(node: TNode): boolean {
+  return node.type === 'table-cell' && node.children.some((child) => !child.isInline);
+}
+
+function isEmbed(node: TNode): boolean {
+  return node.type !== 'text' && node.data !== undefined && node.children.length === 0;
+}
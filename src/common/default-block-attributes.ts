@@ -47,4 +47,37 @@ export const DEFAULT_BLOCK_ATTRIBUTES: Record<string, BlockAttributeHandler> = {
     blockType: '',
     blockAttrs: { indent: value },
   }),
+
+  // Table cell metadata from table modules — kept on the `table-cell` node
+  'table-header': (value) => ({
+    blockType: '',
+    blockAttrs: { 'table-header': value },
+  }),
+
+  cell: (value) => ({
+    blockType: '',
+    blockAttrs: { cell: value },
+  }),
+
+  colspan: (value) => ({
+    blockType: '',
+    blockAttrs: { colspan: value },
+  }),
+
+  rowspan: (value) => ({
+    blockType: '',
+    blockAttrs: { rowspan: value },
+  }),
+
+  'col-width': (value) => ({
+    blockType: '',
+    blockAttrs: { 'col-width': value },
+  }),
+
+  // quill-better-table cell identity (`{ row, cell, rowspan, colspan }`) — the
+  // line keeps its own block type, `tableGrouper` merges it into its cell
+  'table-cell-line': (value) => ({
+    blockType: '',
+    blockAttrs: { 'table-cell-line': value },
+  }),
 };
@@ -1,11 +1,27 @@
+export type { AstToDeltaOptions } from './ast-to-delta';
+export { astToDelta } from './ast-to-delta';
 export { DEFAULT_BLOCK_ATTRIBUTES } from './default-block-attributes';
 export { DEFAULT_MARK_PRIORITIES } from './default-mark-priorities';
+export type { TableOfContentsOptions, TocEntry } from './table-of-contents';
+export { buildTableOfContents } from './table-of-contents';
+export type { AutoLinkerConfig } from './transformers/auto-linker';
+export { autoLinker } from './transformers/auto-linker';
 export type { BlockMergerConfig } from './transformers/block-merger';
 export { blockMerger } from './transformers/block-merger';
 export { codeBlockGrouper } from './transformers/code-block-grouper';
 export { flatListGrouper } from './transformers/flat-list-grouper';
+export type { FootnoteCollectorConfig } from './transformers/footnote-collector';
+export { footnoteCollector } from './transformers/footnote-collector';
+export type { HeadingAnchorsConfig } from './transformers/heading-anchors';
+export { headingAnchors, slugifyHeading } from './transformers/heading-anchors';
 export { listGrouper } from './transformers/list-grouper';
+export { sectionGrouper } from './transformers/section-grouper';
+export type { SmartTypographyConfig, TypographyLocale } from './transformers/smart-typography';
+export { smartTypography } from './transformers/smart-typography';
 export { tableGrouper } from './transformers/table-grouper';
+export { textCoalescer } from './transformers/text-coalescer';
+export type { TruncateOptions } from './truncate';
+export { isTruncated, truncate } from './truncate';
 export {
   isValidColor,
   isValidColorLiteral,
@@ -16,5 +32,18 @@ export {
 export { groupConsecutiveElementsWhile } from './utils/group-consecutive';
 export type { SanitizedMention } from './utils/mention-sanitizer';
 export { sanitizeMention } from './utils/mention-sanitizer';
+export { querySelector, querySelectorAll } from './utils/query-selector';
 export type { UrlSanitizerConfig } from './utils/url-sanitizer';
 export { createUrlSanitizer } from './utils/url-sanitizer';
+export type {
+  AttributeValidator,
+  DeltaDiagnostic,
+  DeltaSchema,
+  DiagnosticCode,
+  DiagnosticSeverity,
+} from './validate-delta';
+export {
+  DEFAULT_BLOCK_VALUE_VALIDATORS,
+  DEFAULT_INLINE_FORMATS,
+  validateDelta,
+} from './validate-delta';
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta } from '../core/ast-types';
+import { parseQuillDelta } from '../parse-quill-delta';
+import { buildTableOfContents } from './table-of-contents';
+import { headingAnchors } from './transformers/heading-anchors';
+
+function h(text: string, level: number): Delta['ops'] {
+  return [{ insert: text }, { insert: '\n', attributes: { header: level } }];
+}
+
+function parseWithAnchors(ops: Delta['ops']) {
+  return parseQuillDelta({ ops }, { extraTransformers: [headingAnchors()] });
+}
+
+describe('buildTableOfContents', () => {
+  it('should nest headings under the preceding lower level', () => {
+    const ast = parseWithAnchors([
+      ...h('Intro', 1),
+      { insert: 'Body\n' },
+      ...h('Setup', 2),
+      ...h('Install', 3),
+      ...h('Usage', 2),
+      ...h('API', 1),
+    ]);
+
+    expect(buildTableOfContents(ast)).toEqual([
+      {
+        id: 'intro',
+        text: 'Intro',
+        level: 1,
+        children: [
+          {
+            id: 'setup',
+            text: 'Setup',
+            level: 2,
+            children: [{ id: 'install', text: 'Install', level: 3, children: [] }],
+          },
+          { id: 'usage', text: 'Usage', level: 2, children: [] },
+        ],
+      },
+      { id: 'api', text: 'API', level: 1, children: [] },
+    ]);
+  });
+
+  it('should nest skipped levels directly', () => {
+    const toc = buildTableOfContents(parseWithAnchors([...h('Top', 1), ...h('Deep', 4)]));
+    expect(toc[0]!.children.map((entry) => entry.text)).toEqual(['Deep']);
+  });
+
+  it('should keep headings that start below the first level at the top', () => {
+    const toc = buildTableOfContents(parseWithAnchors([...h('Sub', 2), ...h('Main', 1)]));
+    expect(toc.map((entry) => entry.text)).toEqual(['Sub', 'Main']);
+  });
+
+  it('should respect maxLevel', () => {
+    const ast = parseWithAnchors([...h('A', 1), ...h('B', 2), ...h('C', 3)]);
+    const toc = buildTableOfContents(ast, { maxLevel: 2 });
+    expect(toc[0]!.children[0]!.children).toEqual([]);
+  });
+
+  it('should join merged header lines with spaces', () => {
+    const ast = parseWithAnchors([...h('First line', 2), ...h('second line', 2)]);
+    expect(buildTableOfContents(ast)[0]).toMatchObject({
+      id: 'first-line-second-line',
+      text: 'First line second line',
+    });
+  });
+
+  it('should omit ids for headers without anchors', () => {
+    const toc = buildTableOfContents(parseQuillDelta({ ops: h('Plain', 1) }));
+    expect(toc).toEqual([{ text: 'Plain', level: 1, children: [] }]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { TNode } from '../core/ast-types';
+import { findAll } from '../core/traversal';
+import { getAnchorId, getHeaderLevel } from '../renderers/common/node-attributes';
+import { getTextContent } from './utils/node-queries';
+
+/**
+ * One heading in a table of contents, with the headings nested under it.
+ */
+export interface TocEntry {
+  /** The heading's anchor id; missing when the header has no `id` attribute */
+  id?: string;
+  /** The heading's plain text, whitespace collapsed */
+  text: string;
+  /** Header level, 1–6 */
+  level: number;
+  /** Lower-level headings up to the next heading of this level or higher */
+  children: TocEntry[];
+}
+
+/**
+ * Options for {@link buildTableOfContents}.
+ */
+export interface TableOfContentsOptions {
+  /**
+   * Deepest header level to include; `3` keeps `h1`–`h3`.
+   * @default 6
+   */
+  maxLevel?: number;
+}
+
+/**
+ * Build a nested outline of the document's headers. Each heading nests
+ * under the closest preceding heading of a lower level; skipped levels
+ * (`h1` followed by `h3`) nest directly.
+ *
+ * Run the {@link headingAnchors} transformer first so every entry has an
+ * `id` to link to.
+ *
+ * @example
+ * ```ts
+ * import { buildTableOfContents, headingAnchors } from 'quill-delta-renderer/common';
+ *
+ * const ast = parseQuillDelta(delta, { extraTransformers: [headingAnchors()] });
+ * const toc = buildTableOfContents(ast, { maxLevel: 3 });
+ * // => [{ id: 'intro', text: 'Intro', level: 1, children: [{ id: 'setup', … }] }]
+ * ```
+ */
+export function buildTableOfContents(root: TNode, options?: TableOfContentsOptions): TocEntry[] {
+  const maxLevel = options?.maxLevel ?? 6;
+  const entries: TocEntry[] = [];
+  const open: TocEntry[] = [];
+
+  for (const header of findAll(root, (node) => node.type === 'header')) {
+    const level = getHeaderLevel(header);
+    if (level < 1 || level > maxLevel) continue;
+
+    const entry: TocEntry = {
+      text: getTextContent(header).replace(/\s+/g, ' ').trim(),
+      level,
+      children: [],
+    };
+    const id = getAnchorId(header);
+    if (id) entry.id = id;
+
+    while (open.length > 0 && open[open.length - 1]!.level >= level) {
+      open.pop();
+    }
+    (open[open.length - 1]?.children ?? entries).push(entry);
+    open.push(entry);
+  }
+
+  return entries;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../../core/ast-types';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import { createUrlSanitizer } from '../utils/url-sanitizer';
+import type { AutoLinkerConfig } from './auto-linker';
+import { autoLinker } from './auto-linker';
+
+function parseWithLinks(delta: Delta, config?: AutoLinkerConfig): TNode {
+  return parseQuillDelta(delta, { extraTransformers: [autoLinker(config)] });
+}
+
+/** `[text, link]` pairs of the first block's text nodes. */
+function runs(ast: TNode): Array<[unknown, unknown]> {
+  return ast.children[0]!.children.map((node) => [node.data, node.attributes.link]);
+}
+
+function text(insert: string, config?: AutoLinkerConfig) {
+  return runs(parseWithLinks({ ops: [{ insert: `${insert}\n` }] }, config));
+}
+
+describe('autoLinker', () => {
+  it('should link bare URLs and www hosts', () => {
+    expect(text('Go to https://example.com/a?b=1 or www.example.org now')).toEqual([
+      ['Go to ', undefined],
+      ['https://example.com/a?b=1', 'https://example.com/a?b=1'],
+      [' or ', undefined],
+      ['www.example.org', 'https://www.example.org'],
+      [' now', undefined],
+    ]);
+  });
+
+  it('should leave trailing punctuation and unbalanced brackets out of the link', () => {
+    expect(text('(see https://example.com/wiki/A_(b)).')).toEqual([
+      ['(see ', undefined],
+      ['https://example.com/wiki/A_(b)', 'https://example.com/wiki/A_(b)'],
+      [').', undefined],
+    ]);
+    expect(text('Visit http://example.com, then "ftp://files.example.com/x!"')).toEqual([
+      ['Visit ', undefined],
+      ['http://example.com', 'http://example.com'],
+      [', then "', undefined],
+      ['ftp://files.example.com/x', 'ftp://files.example.com/x'],
+      ['!"', undefined],
+    ]);
+  });
+
+  it('should link email addresses unless disabled', () => {
+    expect(text('Mail jane.doe+news@mail.example.com.')).toEqual([
+      ['Mail ', undefined],
+      ['jane.doe+news@mail.example.com', 'mailto:jane.doe+news@mail.example.com'],
+      ['.', undefined],
+    ]);
+    expect(text('Mail jane@example.com', { email: false })).toEqual([
+      ['Mail jane@example.com', undefined],
+    ]);
+  });
+
+  it('should link phone numbers when enabled', () => {
+    expect(text('Call +1 (555) 123-4567 today', { phone: true })).toEqual([
+      ['Call ', undefined],
+      ['+1 (555) 123-4567', 'tel:+15551234567'],
+      [' today', undefined],
+    ]);
+    expect(text('Call 555-1234 or 2024', { phone: true })).toEqual([
+      ['Call ', undefined],
+      ['555-1234', 'tel:5551234'],
+      [' or 2024', undefined],
+    ]);
+    expect(text('Call +1 555 123 4567')).toEqual([['Call +1 555 123 4567', undefined]]);
+  });
+
+  it('should keep the formatting of the split text', () => {
+    const ast = parseWithLinks({
+      ops: [{ insert: 'bold www.example.com', attributes: { bold: true } }, { insert: '\n' }],
+    });
+    expect(ast.children[0]!.children.map((node) => node.attributes)).toEqual([
+      { bold: true },
+      { bold: true, link: 'https://www.example.com' },
+    ]);
+  });
+
+  it('should skip code, existing links and code blocks', () => {
+    const ast = parseWithLinks({
+      ops: [
+        { insert: 'https://a.example', attributes: { code: true } },
+        { insert: ' ' },
+        { insert: 'https://b.example', attributes: { link: 'https://other.example' } },
+        { insert: '\nhttps://c.example' },
+        { insert: '\n', attributes: { 'code-block': true } },
+      ],
+    });
+    expect(runs(ast)).toEqual([
+      ['https://a.example', undefined],
+      [' ', undefined],
+      ['https://b.example', 'https://other.example'],
+    ]);
+    expect(ast.children[1]!.type).toBe('code-block-container');
+    expect(ast.children[1]!.children[0]!.children[0]!.attributes).toEqual({});
+  });
+
+  it('should link text inside nested blocks', () => {
+    const ast = parseWithLinks({
+      ops: [{ insert: 'www.example.com' }, { insert: '\n', attributes: { list: 'bullet' } }],
+    });
+    const item = ast.children[0]!.children[0]!;
+    expect(item.children[0]!.attributes.link).toBe('https://www.example.com');
+  });
+
+  it('should drop links the sanitizer rejects', () => {
+    const sanitizer = createUrlSanitizer({ protocols: ['https:'] });
+    expect(text('http://a.example https://b.example', { urlSanitizer: sanitizer })).toEqual([
+      ['http://a.example ', undefined],
+      ['https://b.example', 'https://b.example'],
+    ]);
+  });
+
+  it('should split source ranges', () => {
+    const ast = parseQuillDelta(
+      { ops: [{ insert: 'See www.example.com\n' }] },
+      { sourceRanges: true, extraTransformers: [autoLinker()] },
+    );
+    expect(ast.children[0]!.children.map((node) => node.source)).toEqual([
+      { opIndex: 0, offset: 0, length: 4 },
+      { opIndex: 0, offset: 4, length: 15 },
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+import type { TNode, Transformer } from '../../core/ast-types';
+
+/**
+ * Configuration for the autoLinker transformer.
+ */
+export interface AutoLinkerConfig {
+  /**
+   * Link email addresses, as `mailto:` links.
+   * @default true
+   */
+  email?: boolean;
+  /**
+   * Link phone numbers, as `tel:` links: 7 to 15 digits in groups separated
+   * by single spaces, dots or dashes, with an optional leading `+` and
+   * parenthesized area code. Off by default, as dates and other digit runs
+   * can look like phone numbers.
+   * @default false
+   */
+  phone?: boolean;
+  /**
+   * Check every link target, e.g. with `createUrlSanitizer()`. Matches whose
+   * target it rejects stay plain text.
+   */
+  urlSanitizer?: (url: string) => string | undefined;
+}
+
+/** A match of a bare URL, email or phone number in a text node. */
+interface LinkMatch {
+  start: number;
+  end: number;
+  href: string;
+}
+
+const URL_SOURCE = String.raw`(?<url>(?<![\w@.-])(?:https?:\/\/|ftp:\/\/|www\.)[^\s<>"]+)`;
+const EMAIL_SOURCE = String.raw`(?<email>(?<![\w.+-])[\w.+-]+@[a-z\d](?:[a-z\d-]*[a-z\d])?(?:\.[a-z\d](?:[a-z\d-]*[a-z\d])?)*\.[a-z]{2,}(?![\w-]))`;
+const PHONE_SOURCE = String.raw`(?<phone>(?<![\w+])\+?(?:\(\d{1,4}\)|\d{1,4})(?:[ .-]?(?:\(\d{1,4}\)|\d{1,4})){2,}(?![\w]))`;
+
+/** Punctuation that ends a sentence rather than a URL. */
+const TRAILING_PUNCTUATION = /[.,:;!?'"*_~]/;
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/** Block types whose text is never linked. */
+const SKIPPED_TYPES = new Set(['code-block', 'code-block-container']);
+
+/**
+ * Creates a transformer that turns bare URLs, email addresses and
+ * (optionally) phone numbers in text into links, at every depth of the
+ * tree.
+ *
+ * Text nodes are split at each match, and the matched part gets a `link`
+ * attribute: `http://`, `https://` and `ftp://` URLs as they are, `www.`
+ * hosts with `https://`, emails with `mailto:` and phone numbers with
+ * `tel:`. Sentence punctuation and unbalanced closing brackets after a
+ * URL are left out of the link. Text with a `code` mark or an existing
+ * `link`, and code blocks, are left alone.
+ *
+ * Run it after the standard transformers.
+ *
+ * @example
+ * ```ts
+ * const ast = parseQuillDelta(delta, {
+ *   extraTransformers: [autoLinker({ urlSanitizer: createUrlSanitizer() })],
+ * });
+ * // 'See example.com/docs or www.example.com.' links 'www.example.com'
+ * ```
+ */
+export function autoLinker(config?: AutoLinkerConfig): Transformer {
+  const sources = [URL_SOURCE];
+  if (config?.email ?? true) sources.push(EMAIL_SOURCE);
+  if (config?.phone ?? false) sources.push(PHONE_SOURCE);
+  const pattern = new RegExp(sources.join('|'), 'giu');
+  const sanitize = config?.urlSanitizer;
+
+  const findLinks = (text: string): LinkMatch[] => {
+    const matches: LinkMatch[] = [];
+    for (const match of text.matchAll(pattern)) {
+      const resolved = resolveMatch(match);
+      if (!resolved) continue;
+
+      const href = sanitize ? sanitize(resolved.href) : resolved.href;
+      if (href === undefined) continue;
+
+      const start = match.index ?? 0;
+      matches.push({ start, end: start + resolved.text.length, href });
+    }
+    return matches;
+  };
+
+  const link = (nodes: TNode[]): TNode[] =>
+    nodes.flatMap((node): TNode[] => {
+      if (SKIPPED_TYPES.has(node.type)) return [node];
+      if (isLinkableText(node)) return splitText(node, findLinks(node.data as string));
+      if (node.children.length === 0) return [node];
+      return [{ ...node, children: link(node.children) }];
+    });
+
+  return link;
+}
+
+function isLinkableText(node: TNode): boolean {
+  return (
+    node.type === 'text' &&
+    typeof node.data === 'string' &&
+    !node.attributes.code &&
+    node.attributes.link === undefined
+  );
+}
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+/** The linked text and target of a match, or `undefined` if nothing is left to link. */
+function resolveMatch(match: RegExpMatchArray): { text: string; href: string } | undefined {
+  const { url, email, phone } = match.groups ?? {};
+
+  if (url) {
+    const text = trimUrl(url);
+    if (!/^(?:https?:\/\/|ftp:\/\/|www\.)[^./]/i.test(text)) return undefined;
+    return { text, href: /^www\./i.test(text) ? `https://${text}` : text };
+  }
+
+  if (email) {
+    return { text: email, href: `mailto:${email}` };
+  }
+
+  if (phone) {
+    const digits = phone.replace(/\D/g, '');
+    if (digits.length < 7 || digits.length > 15) return undefined;
+    return { text: phone, href: `tel:${phone.startsWith('+') ? '+' : ''}${digits}` };
+  }
+
+  return undefined;
+}
+
+/**
+ * Drop trailing sentence punctuation, and closing brackets without an
+ * opening bracket in the URL: `(see https://example.com/a_(b))` keeps the
+ * `(b)` but not the final `)`.
+ */
+function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const char = url[end - 1]!;
+    const opening = CLOSING_BRACKETS[char];
+    if (TRAILING_PUNCTUATION.test(char)) {
+      end--;
+    } else if (opening && count(url, opening, end) < count(url, char, end)) {
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+function count(text: string, char: string, end: number): number {
+  let n = 0;
+  for (let i = 0; i < end; i++) {
+    if (text[i] === char) n++;
+  }
+  return n;
+}
+
+// ─── Splitting ──────────────────────────────────────────────────────────────
+
+function splitText(node: TNode, matches: LinkMatch[]): TNode[] {
+  if (matches.length === 0) return [node];
+
+  const text = node.data as string;
+  const parts: TNode[] = [];
+  let pos = 0;
+
+  for (const match of matches) {
+    if (match.start > pos) parts.push(sliceText(node, text, pos, match.start));
+    parts.push(sliceText(node, text, match.start, match.end, match.href));
+    pos = match.end;
+  }
+  if (pos < text.length) parts.push(sliceText(node, text, pos, text.length));
+
+  return parts;
+}
+
+function sliceText(node: TNode, text: string, start: number, end: number, href?: string): TNode {
+  const part: TNode = {
+    ...node,
+    attributes: href === undefined ? node.attributes : { ...node.attributes, link: href },
+    data: text.slice(start, end),
+  };
+  if (node.source) {
+    part.source = { ...node.source, offset: node.source.offset + start, length: end - start };
+  }
+  return part;
+}
@@ -206,4 +206,25 @@ describe('blockMerger', () => {
       expect(html).toBe('<blockquote>q1<br/>q2</blockquote><p>para</p><blockquote>q3</blockquote>');
     });
   });
+
+  describe('source ranges', () => {
+    it('should span all merged blocks', () => {
+      const ast = new DeltaParser(
+        {
+          ops: [
+            { insert: 'q1' },
+            { insert: '\n', attributes: { blockquote: true } },
+            { insert: 'q2' },
+            { insert: '\n', attributes: { blockquote: true } },
+          ],
+        },
+        { ...QUILL_CONFIG, sourceRanges: true },
+      )
+        .use(blockMerger())
+        .toAST();
+
+      expect(ast.children[0]!.source).toEqual({ opIndex: 0, offset: 0, length: 6 });
+      expect(ast.children[0]!.children[1]!.source).toBeUndefined();
+    });
+  });
 });
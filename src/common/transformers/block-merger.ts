@@ -1,4 +1,5 @@
-import type { TNode, Transformer } from '../../core/ast-types';
+import type { RunPredicate, TNode, Transformer } from '../../core/ast-types';
+import { withSourceSpan } from '../../core/source-range';
 import { groupConsecutiveElementsWhile } from '../utils/group-consecutive';
 
 // ─── Config ─────────────────────────────────────────────────────────────────
@@ -115,10 +116,13 @@ function mergeBlocks(blocks: TNode[]): TNode {
     mergedChildren.push(...blocks[i]!.children);
   }
 
-  return {
-    ...first,
-    children: mergedChildren,
-  };
+  return withSourceSpan(
+    {
+      ...first,
+      children: mergedChildren,
+    },
+    blocks,
+  );
 }
 
 // ─── Transformer ────────────────────────────────────────────────────────────
@@ -143,16 +147,10 @@ function mergeBlocks(blocks: TNode[]): TNode {
  * ```
  */
 export function blockMerger(config?: BlockMergerConfig): Transformer {
-  const cfg: Required<BlockMergerConfig> = { ...DEFAULT_CONFIG, ...config };
+  const canMerge = blockMergePredicate(config);
 
   return (children: TNode[]): TNode[] => {
-    const grouped = groupConsecutiveElementsWhile(children, (curr, prev) => {
-      return (
-        isMergeableType(curr.type, cfg) &&
-        isMergeableType(prev.type, cfg) &&
-        haveSameBlockStyle(curr, prev)
-      );
-    });
+    const grouped = groupConsecutiveElementsWhile(children, canMerge);
 
     return grouped.map((item) => {
       if (Array.isArray(item)) {
@@ -162,3 +160,23 @@ export function blockMerger(config?: BlockMergerConfig): Transformer {
     });
   };
 }
+
+/**
+ * The adjacency test used by {@link blockMerger}: whether two consecutive
+ * blocks would be merged under `config`. Used by streaming to hold back a
+ * run of mergeable blocks until it ends.
+ *
+ * @example
+ * ```ts
+ * const canMerge = blockMergePredicate({ multiLineParagraph: false });
+ * canMerge(secondQuote, firstQuote); // => true
+ * ```
+ */
+export function blockMergePredicate(config?: BlockMergerConfig): RunPredicate {
+  const cfg: Required<BlockMergerConfig> = { ...DEFAULT_CONFIG, ...config };
+
+  return (curr, prev) =>
+    isMergeableType(curr.type, cfg) &&
+    isMergeableType(prev.type, cfg) &&
+    haveSameBlockStyle(curr, prev);
+}
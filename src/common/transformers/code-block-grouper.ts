@@ -1,4 +1,5 @@
 import type { TNode, Transformer } from '../../core/ast-types';
+import { withSourceSpan } from '../../core/source-range';
 import { groupConsecutiveElementsWhile } from '../utils/group-consecutive';
 
 /**
@@ -45,10 +46,10 @@ function groupCodeBlocks(children: TNode[]): TNode[] {
 }
 
 function createContainer(codeBlocks: TNode[]): TNode {
-  return {
+  return withSourceSpan({
     type: 'code-block-container',
     attributes: {},
     children: codeBlocks,
     isInline: false,
-  };
+  });
 }
@@ -1,5 +1,7 @@
 import type { TNode, Transformer } from '../../core/ast-types';
+import { withSourceSpan } from '../../core/source-range';
 import { groupConsecutiveElementsWhile } from '../utils/group-consecutive';
+import { isTableCellLine } from '../utils/node-queries';
 
 /**
  * Groups adjacent `list-item` nodes into a flat `list` container,
@@ -18,6 +20,8 @@ import { groupConsecutiveElementsWhile } from '../utils/group-consecutive';
  * </ol>
  * ```
  *
+ * List items inside table cells are left in place for `tableGrouper`.
+ *
  * @example
  * ```ts
  * const ast = new DeltaParser(delta).use(flatListGrouper).toAST();
@@ -28,7 +32,7 @@ export const flatListGrouper: Transformer = (children: TNode[]): TNode[] => {
 };
 
 function isListItem(node: TNode): boolean {
-  return node.type === 'list-item';
+  return node.type === 'list-item' && !isTableCellLine(node);
 }
 
 function groupFlatLists(children: TNode[]): TNode[] {
@@ -48,10 +52,10 @@ function groupFlatLists(children: TNode[]): TNode[] {
 }
 
 function createList(items: TNode[]): TNode {
-  return {
+  return withSourceSpan({
     type: 'list',
     attributes: {},
     children: items,
     isInline: false,
-  };
+  });
 }
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../../core/ast-types';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import { astToDelta } from '../ast-to-delta';
+import type { FootnoteCollectorConfig } from './footnote-collector';
+import { footnoteCollector } from './footnote-collector';
+
+function parseWithFootnotes(delta: Delta, config?: FootnoteCollectorConfig): TNode {
+  return parseQuillDelta(delta, { extraTransformers: [footnoteCollector(config)] });
+}
+
+function footnotes(ast: TNode): Array<[unknown, unknown]> {
+  const container = ast.children[ast.children.length - 1]!;
+  expect(container.type).toBe('footnotes');
+  return container.children.map((note) => [note.attributes.footnote, note.children[0]!.data]);
+}
+
+describe('footnoteCollector', () => {
+  it('should wrap footnoted runs in numbered references', () => {
+    const ast = parseWithFootnotes({
+      ops: [
+        { insert: 'First', attributes: { footnote: 'Note A' } },
+        { insert: ' and ' },
+        { insert: 'second', attributes: { footnote: 'Note B' } },
+        { insert: '\n' },
+      ],
+    });
+
+    const [paragraph] = ast.children;
+    expect(paragraph!.children.map((c) => [c.type, c.attributes.footnote])).toEqual([
+      ['footnote-ref', 1],
+      ['text', undefined],
+      ['footnote-ref', 2],
+    ]);
+    expect(paragraph!.children[0]!.attributes).toEqual({
+      footnote: 1,
+      id: 'fnref1',
+      noteId: 'fn1',
+    });
+    expect(footnotes(ast)).toEqual([
+      [1, 'Note A'],
+      [2, 'Note B'],
+    ]);
+  });
+
+  it('should keep a run split by formatting as one reference', () => {
+    const ast = parseWithFootnotes({
+      ops: [
+        { insert: 'plain ', attributes: { footnote: 'Note' } },
+        { insert: 'bold', attributes: { footnote: 'Note', bold: true } },
+        { insert: '\n' },
+      ],
+    });
+
+    const ref = ast.children[0]!.children[0]!;
+    expect(ref.type).toBe('footnote-ref');
+    expect(ref.children).toHaveLength(2);
+  });
+
+  it('should share one number between references to the same note', () => {
+    const ast = parseWithFootnotes({
+      ops: [
+        { insert: 'a', attributes: { footnote: 'Same' } },
+        { insert: ' b ' },
+        { insert: 'c', attributes: { footnote: 'Same' } },
+        { insert: '\n' },
+      ],
+    });
+
+    const refs = ast.children[0]!.children.filter((c) => c.type === 'footnote-ref');
+    expect(refs.map((ref) => ref.attributes.id)).toEqual(['fnref1', 'fnref1-2']);
+    expect(ast.children[1]!.children[0]!.attributes.refIds).toEqual(['fnref1', 'fnref1-2']);
+  });
+
+  it('should number notes in document order, inside nested blocks', () => {
+    const ast = parseWithFootnotes({
+      ops: [
+        { insert: 'item', attributes: { footnote: 'In list' } },
+        { insert: '\n', attributes: { list: 'bullet' } },
+        { insert: 'cell', attributes: { footnote: 'In table' } },
+        { insert: '\n', attributes: { table: 'row-1' } },
+      ],
+    });
+
+    expect(footnotes(ast)).toEqual([
+      [1, 'In list'],
+      [2, 'In table'],
+    ]);
+  });
+
+  it('should look up notes with resolveNote and apply the prefix', () => {
+    const notes: Record<string, string> = { src: 'Source text' };
+    const ast = parseWithFootnotes(
+      {
+        ops: [
+          { insert: 'known', attributes: { footnote: 'src' } },
+          { insert: 'unknown', attributes: { footnote: 'missing' } },
+          { insert: '\n' },
+        ],
+      },
+      { resolveNote: (id) => notes[id], prefix: 'post-' },
+    );
+
+    expect(ast.children[0]!.children.map((c) => c.type)).toEqual(['footnote-ref', 'text']);
+    expect(ast.children[0]!.children[0]!.attributes.noteId).toBe('post-fn1');
+    expect(footnotes(ast)).toEqual([[1, 'Source text']]);
+  });
+
+  it('should return the children unchanged without footnotes', () => {
+    const children: TNode[] = parseQuillDelta({ ops: [{ insert: 'plain\n' }] }).children;
+    expect(footnoteCollector()(children)).toBe(children);
+  });
+
+  it('should be undone by astToDelta', () => {
+    const delta: Delta = {
+      ops: [{ insert: 'Claim', attributes: { footnote: 'Source' } }, { insert: ' text\n' }],
+    };
+    expect(astToDelta(parseWithFootnotes(delta))).toEqual(delta);
+  });
+});
@@ -0,0 +1,137 @@
+import type { TNode, Transformer } from '../../core/ast-types';
+import { withSourceSpan } from '../../core/source-range';
+import { asString } from '../../renderers/common/node-attributes';
+import { groupConsecutiveElementsWhile } from '../utils/group-consecutive';
+
+/**
+ * Configuration for the footnoteCollector transformer.
+ */
+export interface FootnoteCollectorConfig {
+  /**
+   * Turn a `footnote` attribute value into the text of the note, e.g. to
+   * look up notes stored by id. Return `undefined` to leave the run without
+   * a footnote.
+   * @default the value itself
+   */
+  resolveNote?: (value: string) => string | undefined;
+  /**
+   * Prepended to the generated ids (`fn1`, `fnref1`), to keep them apart
+   * from other ids on the page.
+   * @default ''
+   */
+  prefix?: string;
+}
+
+interface Note {
+  number: number;
+  id: string;
+  text: string;
+  refIds: string[];
+}
+
+/**
+ * Creates a transformer that turns runs of text carrying an inline
+ * `footnote` attribute (the note text, or an id for `resolveNote`) into
+ * numbered footnotes.
+ *
+ * Each run becomes a `footnote-ref` inline node wrapping the run, with the
+ * note's `footnote` number, its own `id` and the `noteId` it links to. The
+ * notes are appended to the document as a `footnotes` container of
+ * `footnote` nodes, numbered in order of first reference, each with an
+ * `id` and the `refIds` linking back to its references. Runs with the same
+ * note share one number.
+ *
+ * The wrapped runs keep their `footnote` attribute, so `astToDelta`
+ * restores the original Delta.
+ *
+ * @example
+ * ```ts
+ * const ast = parseQuillDelta(delta, { extraTransformers: [footnoteCollector()] });
+ * new SemanticHtmlRenderer().render(ast);
+ * // => '<p>Claim<sup><a href="#fn1" id="fnref1">1</a></sup></p>
+ * //     <section class="ql-footnotes"><ol><li id="fn1">Source …</li></ol></section>'
+ * ```
+ */
+export function footnoteCollector(config?: FootnoteCollectorConfig): Transformer {
+  const resolveNote = config?.resolveNote ?? ((value: string) => value);
+  const prefix = config?.prefix ?? '';
+
+  return (children: TNode[]): TNode[] => {
+    const notes = new Map<string, Note>();
+
+    const collect = (nodes: TNode[]): TNode[] => {
+      const grouped = groupConsecutiveElementsWhile(nodes, (curr, prev) => {
+        const value = getFootnoteValue(curr);
+        return value !== undefined && value === getFootnoteValue(prev);
+      });
+
+      const result = grouped.flatMap((item): TNode[] => {
+        const run = Array.isArray(item) ? item : [item];
+        const [first] = run as [TNode, ...TNode[]];
+        const value = getFootnoteValue(first);
+
+        if (value === undefined) {
+          const nested = collect(first.children);
+          return [nested === first.children ? first : { ...first, children: nested }];
+        }
+
+        const text = resolveNote(value);
+        if (text === undefined) return run;
+
+        let note = notes.get(value);
+        if (!note) {
+          const number = notes.size + 1;
+          note = { number, id: `${prefix}fn${number}`, text, refIds: [] };
+          notes.set(value, note);
+        }
+        // Later references to the same note: fnref1-2, fnref1-3, …
+        const suffix = note.refIds.length > 0 ? `-${note.refIds.length + 1}` : '';
+        const refId = `${prefix}fnref${note.number}${suffix}`;
+        note.refIds.push(refId);
+
+        return [createRef(run, note, refId)];
+      });
+
+      return result.length === nodes.length && result.every((node, i) => node === nodes[i])
+        ? nodes
+        : result;
+    };
+
+    const collected = collect(children);
+    if (notes.size === 0) return children;
+
+    return [...collected, createFootnotes([...notes.values()])];
+  };
+}
+
+/** The `footnote` value of an inline node, if any. */
+function getFootnoteValue(node: TNode): string | undefined {
+  return node.isInline ? asString(node.attributes.footnote) || undefined : undefined;
+}
+
+// ─── TNode factories ────────────────────────────────────────────────────────
+
+function createRef(run: TNode[], note: Note, refId: string): TNode {
+  return withSourceSpan({
+    type: 'footnote-ref',
+    attributes: { footnote: note.number, id: refId, noteId: note.id },
+    children: run,
+    isInline: true,
+  });
+}
+
+function createFootnotes(notes: Note[]): TNode {
+  return {
+    type: 'footnotes',
+    attributes: {},
+    children: notes.map(
+      (note): TNode => ({
+        type: 'footnote',
+        attributes: { footnote: note.number, id: note.id, refIds: note.refIds },
+        children: [{ type: 'text', attributes: {}, children: [], data: note.text, isInline: true }],
+        isInline: false,
+      }),
+    ),
+    isInline: false,
+  };
+}
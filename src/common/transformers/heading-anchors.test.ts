@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../../core/ast-types';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import type { HeadingAnchorsConfig } from './heading-anchors';
+import { headingAnchors, slugifyHeading } from './heading-anchors';
+
+function parseWithAnchors(delta: Delta, config?: HeadingAnchorsConfig): TNode {
+  return parseQuillDelta(delta, { extraTransformers: [headingAnchors(config)] });
+}
+
+function headerIds(ast: TNode): unknown[] {
+  return ast.children.filter((n) => n.type === 'header').map((n) => n.attributes.id);
+}
+
+function h(text: string, level = 1): Delta['ops'] {
+  return [{ insert: text }, { insert: '\n', attributes: { header: level } }];
+}
+
+describe('slugifyHeading', () => {
+  it('should lowercase and hyphenate', () => {
+    expect(slugifyHeading('Getting Started')).toBe('getting-started');
+  });
+
+  it('should drop punctuation but keep letters of any script', () => {
+    expect(slugifyHeading('What’s new in 2.0?')).toBe('whats-new-in-20');
+    expect(slugifyHeading('Über Café — 日本語')).toBe('über-café--日本語');
+  });
+
+  it('should keep hyphens and underscores', () => {
+    expect(slugifyHeading('  snake_case and kebab-case  ')).toBe('snake_case-and-kebab-case');
+  });
+});
+
+describe('headingAnchors', () => {
+  it('should assign slug ids to headers', () => {
+    const ast = parseWithAnchors({
+      ops: [...h('Intro'), { insert: 'Body\n' }, ...h('Getting Started', 2)],
+    });
+    expect(headerIds(ast)).toEqual(['intro', 'getting-started']);
+  });
+
+  it('should leave other blocks untouched', () => {
+    const ast = parseWithAnchors({ ops: [{ insert: 'Body\n' }] });
+    expect(ast.children[0]!.attributes).toEqual({});
+  });
+
+  it('should deduplicate repeated slugs in document order', () => {
+    const ast = parseWithAnchors({
+      ops: [...h('Notes'), ...h('Notes', 2), ...h('Notes', 3), ...h('Notes-1', 2)],
+    });
+    expect(headerIds(ast)).toEqual(['notes', 'notes-1', 'notes-2', 'notes-1-1']);
+  });
+
+  it('should use the full text of formatted headers', () => {
+    const ast = parseWithAnchors({
+      ops: [
+        { insert: 'Hello ' },
+        { insert: 'bold', attributes: { bold: true } },
+        { insert: ' world' },
+        { insert: '\n', attributes: { header: 1 } },
+      ],
+    });
+    expect(headerIds(ast)).toEqual(['hello-bold-world']);
+  });
+
+  it('should fall back to "heading" for headers without text', () => {
+    const ast = parseWithAnchors({
+      ops: [{ insert: '\n', attributes: { header: 1 } }, { insert: '?' }, ...h('', 2)],
+    });
+    expect(headerIds(ast)).toEqual(['heading', 'heading-1']);
+  });
+
+  it('should keep existing ids and never reuse them', () => {
+    const header = (text: string, attributes: Record<string, unknown>): TNode => ({
+      type: 'header',
+      attributes,
+      children: [{ type: 'text', attributes: {}, children: [], data: text, isInline: true }],
+      isInline: false,
+    });
+    const result = headingAnchors()([
+      header('Intro', { header: 1 }),
+      header('Other', { header: 2, id: 'intro' }),
+    ]);
+    expect(result.map((node) => node.attributes.id)).toEqual(['intro-1', 'intro']);
+  });
+
+  it('should apply the prefix and a custom slugify', () => {
+    const ast = parseWithAnchors(
+      { ops: [...h('Intro'), ...h('Intro', 2)] },
+      { prefix: 'doc-', slugify: (text) => text.toUpperCase() },
+    );
+    expect(headerIds(ast)).toEqual(['doc-INTRO', 'doc-INTRO-1']);
+  });
+
+  it('should produce the same ids for the same document', () => {
+    const delta: Delta = { ops: [...h('A'), ...h('A'), ...h('B')] };
+    const transformer = headingAnchors();
+    const first = parseQuillDelta(delta, { extraTransformers: [transformer] });
+    const second = parseQuillDelta(delta, { extraTransformers: [transformer] });
+    expect(headerIds(second)).toEqual(headerIds(first));
+  });
+});
@@ -0,0 +1,94 @@
+import type { TNode, Transformer } from '../../core/ast-types';
+import { deepTransformer, findAll } from '../../core/traversal';
+import { getAnchorId } from '../../renderers/common/node-attributes';
+import { getTextContent } from '../utils/node-queries';
+
+/**
+ * Configuration for the headingAnchors transformer.
+ */
+export interface HeadingAnchorsConfig {
+  /**
+   * Turn a heading's text into an id.
+   * @default slugifyHeading
+   */
+  slugify?: (text: string) => string;
+  /**
+   * Prepended to every generated id, to keep them apart from other ids on
+   * the page.
+   * @default ''
+   */
+  prefix?: string;
+}
+
+/**
+ * GitHub-style heading slug: lowercased, punctuation removed, each
+ * whitespace character replaced with `-`. Letters and digits of any
+ * script are kept.
+ *
+ * @example
+ * ```ts
+ * slugifyHeading('What’s new in 2.0?'); // => 'whats-new-in-20'
+ * ```
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Creates a transformer that gives every `header` node an `id` attribute
+ * slugged from its text, for anchor links and tables of contents. The
+ * renderers emit it as the heading's `id`.
+ *
+ * Ids are unique within the document: repeated slugs get a `-1`, `-2`, …
+ * suffix in document order, and headings with no text fall back to
+ * `heading`. Headers that already carry an `id` keep it, and their ids
+ * are never reused. The same document always gets the same ids.
+ *
+ * Deduplication needs the whole document, so use it with
+ * `parseQuillDelta` rather than `streamQuillDelta`.
+ *
+ * @example
+ * ```ts
+ * const ast = parseQuillDelta(delta, { extraTransformers: [headingAnchors()] });
+ * const toc = buildTableOfContents(ast);
+ * ```
+ */
+export function headingAnchors(config?: HeadingAnchorsConfig): Transformer {
+  const slugify = config?.slugify ?? slugifyHeading;
+  const prefix = config?.prefix ?? '';
+
+  return (children: TNode[]): TNode[] => {
+    const used = new Set<string>();
+    for (const header of children.flatMap((child) => findAll(child, isHeader))) {
+      const id = getAnchorId(header);
+      if (id) used.add(id);
+    }
+
+    const assignIds = deepTransformer((node) => {
+      if (!isHeader(node) || getAnchorId(node)) return node;
+
+      const slug = slugify(getTextContent(node)) || 'heading';
+      const id = uniqueId(`${prefix}${slug}`, used);
+      return { ...node, attributes: { ...node.attributes, id } };
+    });
+
+    return assignIds(children);
+  };
+}
+
+function isHeader(node: TNode): boolean {
+  return node.type === 'header';
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+  let id = base;
+  for (let n = 1; used.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  used.add(id);
+  return id;
+}
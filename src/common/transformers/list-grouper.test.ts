@@ -192,4 +192,42 @@ describe('listGrouper', () => {
       expect(list.children[0]!.children).toHaveLength(0);
     });
   });
+
+  describe('source ranges', () => {
+    it('should span a list and its nested sub-lists', () => {
+      const ast = new DeltaParser(
+        {
+          ops: [
+            { insert: 'intro\nA' },
+            { insert: '\n', attributes: { list: 'bullet' } },
+            { insert: 'A1' },
+            { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+          ],
+        },
+        { ...QUILL_CONFIG, sourceRanges: true },
+      )
+        .use(listGrouper)
+        .toAST();
+
+      const list = ast.children[1]!;
+      expect(list.source).toEqual({ opIndex: 0, offset: 6, length: 5 });
+      expect(list.children[0]!.source).toEqual({ opIndex: 0, offset: 6, length: 2 });
+      expect(list.children[0]!.children[1]!.source).toEqual({ opIndex: 2, offset: 8, length: 3 });
+    });
+  });
+
+  describe('table cells', () => {
+    it('should leave list items inside table cells ungrouped', () => {
+      const ast = parseWithListGrouper({
+        ops: [
+          { insert: 'a' },
+          { insert: '\n', attributes: { list: { list: 'bullet', row: 'r1', cell: 'c1' } } },
+          { insert: 'b' },
+          { insert: '\n', attributes: { list: { list: 'bullet', row: 'r1', cell: 'c2' } } },
+        ],
+      });
+
+      expect(ast.children.map((c) => c.type)).toEqual(['list-item', 'list-item']);
+    });
+  });
 });
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../../core/ast-types';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import { headingAnchors } from './heading-anchors';
+import { sectionGrouper } from './section-grouper';
+
+function h(text: string, level: number): Delta['ops'] {
+  return [{ insert: text }, { insert: '\n', attributes: { header: level } }];
+}
+
+function p(text: string): Delta['ops'] {
+  return [{ insert: `${text}\n` }];
+}
+
+function parseWithSections(ops: Delta['ops'], sourceRanges = false): TNode {
+  return parseQuillDelta(
+    { ops },
+    { blockMerger: false, sourceRanges, extraTransformers: [sectionGrouper] },
+  );
+}
+
+/** Compact outline: sections as `§level[...]`, headers as `hN:text`, other blocks by text. */
+function outline(nodes: TNode[]): unknown[] {
+  return nodes.map((node) => {
+    if (node.type === 'section') return { [`§${node.attributes.level}`]: outline(node.children) };
+    const text = node.children.map((child) => child.data).join('');
+    return node.type === 'header' ? `h${node.attributes.header}:${text}` : text;
+  });
+}
+
+describe('sectionGrouper', () => {
+  it('should wrap a header and its following blocks', () => {
+    const ast = parseWithSections([...h('A', 1), ...p('one'), ...p('two')]);
+    expect(outline(ast.children)).toEqual([{ '§1': ['h1:A', 'one', 'two'] }]);
+  });
+
+  it('should close a section at a header of the same or higher level', () => {
+    const ast = parseWithSections([...h('A', 2), ...p('a'), ...h('B', 2), ...p('b'), ...h('C', 1)]);
+    expect(outline(ast.children)).toEqual([
+      { '§2': ['h2:A', 'a'] },
+      { '§2': ['h2:B', 'b'] },
+      { '§1': ['h1:C'] },
+    ]);
+  });
+
+  it('should nest lower-level headers', () => {
+    const ast = parseWithSections([
+      ...h('A', 1),
+      ...p('intro'),
+      ...h('B', 2),
+      ...p('b'),
+      ...h('C', 3),
+      ...h('D', 2),
+      ...p('d'),
+    ]);
+    expect(outline(ast.children)).toEqual([
+      {
+        '§1': [
+          'h1:A',
+          'intro',
+          { '§2': ['h2:B', 'b', { '§3': ['h3:C'] }] },
+          { '§2': ['h2:D', 'd'] },
+        ],
+      },
+    ]);
+  });
+
+  it('should keep blocks before the first header at the top level', () => {
+    const ast = parseWithSections([...p('preface'), ...h('A', 1), ...p('a')]);
+    expect(outline(ast.children)).toEqual(['preface', { '§1': ['h1:A', 'a'] }]);
+  });
+
+  it('should carry the heading id', () => {
+    const ast = parseQuillDelta(
+      { ops: [...h('Getting Started', 1), ...p('a')] },
+      { extraTransformers: [headingAnchors(), sectionGrouper] },
+    );
+    expect(ast.children[0]!.attributes).toEqual({ level: 1, headingId: 'getting-started' });
+  });
+
+  it('should group lists and tables with their section', () => {
+    const ast = parseWithSections([
+      ...h('A', 1),
+      { insert: 'item' },
+      { insert: '\n', attributes: { list: 'bullet' } },
+    ]);
+    expect(ast.children[0]!.children.map((node) => node.type)).toEqual(['header', 'list']);
+  });
+
+  it('should span the source ranges of its blocks', () => {
+    const ast = parseWithSections([...h('A', 1), ...p('one'), ...h('B', 2), ...p('two')], true);
+    const section = ast.children[0]!;
+    expect(section.source).toEqual({ opIndex: 0, offset: 0, length: 12 });
+    expect(section.children[2]!.source).toEqual({ opIndex: 3, offset: 6, length: 6 });
+  });
+});
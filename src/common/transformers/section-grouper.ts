@@ -0,0 +1,70 @@
+import type { TNode, Transformer } from '../../core/ast-types';
+import { withSourceSpan } from '../../core/source-range';
+import { getAnchorId, getHeaderLevel } from '../../renderers/common/node-attributes';
+
+/**
+ * Wraps each top-level header and the blocks that follow it, up to the
+ * next header of the same or a higher level, into a `section` node.
+ * Lower-level headers open sections nested inside the current one, so
+ * the result mirrors the document outline:
+ *
+ * ```
+ * h1 A, p, h2 B, p, h1 C
+ * → section(1)[h1 A, p, section(2)[h2 B, p]], section(1)[h1 C]
+ * ```
+ *
+ * A section's attributes hold its `level` and, when the header has an
+ * anchor id (see `headingAnchors`), the `headingId`. Blocks before the
+ * first header stay at the top level.
+ *
+ * Run it after the other transformers (and after `headingAnchors`).
+ * Sections span many blocks, so use it with `parseQuillDelta` rather than
+ * `streamQuillDelta`.
+ *
+ * @example
+ * ```ts
+ * const ast = parseQuillDelta(delta, {
+ *   extraTransformers: [headingAnchors(), sectionGrouper],
+ * });
+ * ```
+ */
+export const sectionGrouper: Transformer = (children: TNode[]): TNode[] => {
+  const result: TNode[] = [];
+  const sections: TNode[] = [];
+  const open: TNode[] = [];
+
+  for (const node of children) {
+    const level = node.type === 'header' ? getHeaderLevel(node) : 0;
+    if (level < 1) {
+      (open[open.length - 1]?.children ?? result).push(node);
+      continue;
+    }
+
+    while (open.length > 0 && getSectionLevel(open[open.length - 1]!) >= level) {
+      open.pop();
+    }
+
+    const section = createSection(node, level);
+    (open[open.length - 1]?.children ?? result).push(section);
+    open.push(section);
+    sections.push(section);
+  }
+
+  for (const section of sections) {
+    withSourceSpan(section);
+  }
+
+  return result;
+};
+
+function createSection(header: TNode, level: number): TNode {
+  const attributes: Record<string, unknown> = { level };
+  const headingId = getAnchorId(header);
+  if (headingId) attributes.headingId = headingId;
+
+  return { type: 'section', attributes, children: [header], isInline: false };
+}
+
+function getSectionLevel(section: TNode): number {
+  return section.attributes.level as number;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../../core/ast-types';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import type { SmartTypographyConfig } from './smart-typography';
+import { smartTypography } from './smart-typography';
+
+function parseTypographic(delta: Delta, config?: SmartTypographyConfig): TNode {
+  return parseQuillDelta(delta, { extraTransformers: [smartTypography(config)] });
+}
+
+/** The data of the first block's inline nodes. */
+function runs(ast: TNode): unknown[] {
+  return ast.children[0]!.children.map((node) => node.data);
+}
+
+function text(insert: string, config?: SmartTypographyConfig): unknown {
+  return runs(parseTypographic({ ops: [{ insert: `${insert}\n` }] }, config))[0];
+}
+
+describe('smartTypography', () => {
+  it('should curl quotes and apostrophes', () => {
+    expect(text(`She said "it's 'fine'" in the '90s`)).toBe('She said “it’s ‘fine’” in the ’90s');
+    expect(text(`The students' books ("new")`)).toBe('The students’ books (“new”)');
+  });
+
+  it('should use the quote style of the locale', () => {
+    expect(text(`"Hallo" und 'ja'`, { locale: 'de' })).toBe('„Hallo“ und ‚ja‘');
+    expect(text(`"Bonjour" l'ami`, { locale: 'fr' })).toBe('«Bonjour» l’ami');
+  });
+
+  it('should convert dashes and ellipses', () => {
+    expect(text('1990--2000 --- and then...')).toBe('1990–2000 — and then…');
+  });
+
+  it('should decide quotes across text node boundaries within a block', () => {
+    const ast = parseTypographic({
+      ops: [
+        { insert: 'He said "' },
+        { insert: 'stop', attributes: { bold: true } },
+        { insert: '" and ' },
+        { insert: 'left', attributes: { italic: true } },
+        { insert: "'s\n" },
+      ],
+    });
+    expect(runs(ast)).toEqual(['He said “', 'stop', '” and ', 'left', '’s']);
+  });
+
+  it('should start each block fresh', () => {
+    const ast = parseTypographic({
+      ops: [
+        { insert: 'Open "' },
+        { insert: '\n', attributes: { header: 1 } },
+        { insert: '"Start"\n' },
+      ],
+    });
+    expect(ast.children[1]!.children[0]!.data).toBe('“Start”');
+  });
+
+  it('should skip inline code, code blocks and formulas', () => {
+    const ast = parseTypographic({
+      ops: [
+        { insert: 'Run ' },
+        { insert: `echo "a--b"`, attributes: { code: true } },
+        { insert: ' then "' },
+        { insert: { formula: `x' = "y"` } },
+        { insert: '"\n' },
+        { insert: `print("x...")` },
+        { insert: '\n', attributes: { 'code-block': true } },
+      ],
+    });
+    expect(runs(ast)).toEqual(['Run ', `echo "a--b"`, ' then “', `x' = "y"`, '”']);
+    expect(JSON.stringify(ast.children[1])).toContain(`print(\\"x...\\")`);
+  });
+
+  it('should convert text nested in lists', () => {
+    const ast = parseTypographic({
+      ops: [{ insert: `"Item"` }, { insert: '\n', attributes: { list: 'bullet' } }],
+    });
+    expect(ast.children[0]!.children[0]!.children[0]!.data).toBe('“Item”');
+  });
+
+  it('should add French no-break spaces only when asked', () => {
+    const french = { locale: 'fr', nonBreakingSpaces: true } as const;
+    expect(text(`Il dit : "oui" ; vraiment ?`, french)).toBe(
+      'Il dit\u00A0: «\u00A0oui\u00A0»\u202F; vraiment\u202F?',
+    );
+    expect(text(`" Salut " !`, french)).toBe('«\u00A0Salut\u00A0»\u202F!');
+    expect(text('Il dit : oui !', { locale: 'fr' })).toBe('Il dit : oui !');
+    expect(text('He said : yes !', { nonBreakingSpaces: true })).toBe('He said : yes !');
+  });
+
+  it('should leave features turned off alone', () => {
+    expect(text(`"a" -- b...`, { quotes: false, dashes: false, ellipses: false })).toBe(
+      `"a" -- b...`,
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import type { TNode, Transformer } from '../../core/ast-types';
+import { groupConsecutiveElementsWhile } from '../utils/group-consecutive';
+
+/** Languages with a quote style in {@link smartTypography}. */
+export type TypographyLocale = 'en' | 'de' | 'fr';
+
+/**
+ * Configuration for the smartTypography transformer.
+ */
+export interface SmartTypographyConfig {
+  /**
+   * Quote style: `en` “…” ‘…’, `de` „…“ ‚…‘, `fr` «…» “…”.
+   * @default 'en'
+   */
+  locale?: TypographyLocale;
+  /**
+   * Convert straight quotes to curly quotes, and `'` inside and after words
+   * to the apostrophe `’`.
+   * @default true
+   */
+  quotes?: boolean;
+  /**
+   * Convert `--` to an en dash `–` and `---` to an em dash `—`.
+   * @default true
+   */
+  dashes?: boolean;
+  /**
+   * Convert `...` to an ellipsis `…`.
+   * @default true
+   */
+  ellipses?: boolean;
+  /**
+   * French spacing, with `locale: 'fr'` only: the space before `;`, `?`
+   * and `!` becomes a narrow no-break space, the space before `:` a
+   * no-break space, and guillemets get no-break spaces inside.
+   * @default false
+   */
+  nonBreakingSpaces?: boolean;
+}
+
+interface QuoteStyle {
+  open: string;
+  close: string;
+  openSingle: string;
+  closeSingle: string;
+}
+
+const QUOTE_STYLES: Record<TypographyLocale, QuoteStyle> = {
+  en: { open: '“', close: '”', openSingle: '‘', closeSingle: '’' },
+  de: { open: '„', close: '“', openSingle: '‚', closeSingle: '‘' },
+  fr: { open: '«', close: '»', openSingle: '“', closeSingle: '”' },
+};
+
+const APOSTROPHE = '’';
+const NBSP = '\u00A0';
+const NARROW_NBSP = '\u202F';
+
+/** Stands in for embeds in the text used for context. */
+const OBJECT_CHAR = '\uFFFC';
+
+/** Characters after which a quote opens rather than closes. */
+const OPENING_CONTEXT = /[\s([{\-–—/“‘«„‚]/;
+/** Characters before which a quote after a space closes an open quote. */
+const CLOSING_CONTEXT = /[\s.,;:!?)\]}]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/** Block types whose text is never changed. */
+const SKIPPED_TYPES = new Set(['code-block', 'code-block-container']);
+
+/** Conversion state carried from one text node to the next within a block. */
+interface RunState {
+  /** The full text of the block's inline content, for looking ahead */
+  context: string;
+  /** Position of the next text node in `context` */
+  offset: number;
+  /** Last character output, across text nodes */
+  prev: string | undefined;
+  /** Double quotes opened and not closed yet */
+  openDoubles: number;
+  /** Single quotes opened and not closed yet */
+  openSingles: number;
+  /** Drop a space right after an opening guillemet (French spacing) */
+  skipSpace: boolean;
+}
+
+/**
+ * Creates a transformer that applies typographic punctuation to text:
+ * curly quotes and apostrophes in the quote style of `locale`, en and em
+ * dashes for `--` and `---`, the ellipsis `…` for `...`, and optionally
+ * French no-break spacing.
+ *
+ * Quotes are decided from the text around them across the text nodes of
+ * a block, so `"` closes correctly after bold or linked text. Text with a
+ * `code` mark, code blocks and embeds such as formulas are left as they
+ * are.
+ *
+ * Run it after the standard transformers.
+ *
+ * @example
+ * ```ts
+ * const ast = parseQuillDelta(delta, { extraTransformers: [smartTypography({ locale: 'de' })] });
+ * // 'Er sagte "Hallo" -- und ging...' => 'Er sagte „Hallo“ – und ging…'
+ * ```
+ */
+export function smartTypography(config?: SmartTypographyConfig): Transformer {
+  const locale = config?.locale ?? 'en';
+  const quotes = config?.quotes ?? true;
+  const dashes = config?.dashes ?? true;
+  const ellipses = config?.ellipses ?? true;
+  const frenchSpacing = locale === 'fr' && (config?.nonBreakingSpaces ?? false);
+  const style = QUOTE_STYLES[locale];
+
+  const convertQuotes = (text: string, state: RunState): string => {
+    let out = '';
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+      const next = state.context[state.offset + i + 1];
+      const prev = out ? out[out.length - 1] : state.prev;
+
+      if (state.skipSpace) {
+        state.skipSpace = false;
+        if (char === ' ') continue;
+      }
+
+      if (char === '"') {
+        // A spaced closing quote, as in French: "« Salut »"
+        const closesSpaced = state.openDoubles > 0 && isClosingContext(next);
+        if (isOpeningContext(prev) && !closesSpaced) {
+          state.openDoubles++;
+          out += style.open;
+          if (frenchSpacing && style.open === '«') {
+            out += NBSP;
+            state.skipSpace = true;
+          }
+        } else {
+          state.openDoubles = Math.max(0, state.openDoubles - 1);
+          if (frenchSpacing && style.close === '»') {
+            out = out.endsWith(' ') ? `${out.slice(0, -1)}${NBSP}` : `${out}${NBSP}`;
+          }
+          out += style.close;
+        }
+      } else if (char === "'") {
+        out += singleQuote(prev, next, state);
+      } else {
+        out += char;
+      }
+    }
+    return out;
+  };
+
+  const singleQuote = (prev: string | undefined, next: string | undefined, state: RunState) => {
+    const afterWord = prev !== undefined && WORD_CHAR.test(prev);
+    if (afterWord && next !== undefined && WORD_CHAR.test(next)) return APOSTROPHE;
+
+    if (isOpeningContext(prev)) {
+      // '90s, or a lone quote
+      if (next === undefined || /[\s\d]/.test(next)) return APOSTROPHE;
+      state.openSingles++;
+      return style.openSingle;
+    }
+
+    if (state.openSingles > 0) {
+      state.openSingles--;
+      return style.closeSingle;
+    }
+    return APOSTROPHE;
+  };
+
+  const convertText = (text: string, state: RunState): string => {
+    let result = quotes ? convertQuotes(text, state) : text;
+    if (dashes) result = result.replace(/---/g, '—').replace(/--/g, '–');
+    if (ellipses) result = result.replace(/\.\.\./g, '…');
+    if (frenchSpacing) {
+      result = result.replace(/ ([;?!])/g, `${NARROW_NBSP}$1`).replace(/ :/g, `${NBSP}:`);
+    }
+    return result;
+  };
+
+  const convertRun = (nodes: TNode[], state: RunState): TNode[] =>
+    nodes.map((node) => {
+      if (node.type === 'text') {
+        const text = typeof node.data === 'string' ? node.data : '';
+        const converted = node.attributes.code ? text : convertText(text, state);
+        state.offset += text.length;
+        state.prev = converted ? converted[converted.length - 1] : state.prev;
+        return converted === text ? node : { ...node, data: converted };
+      }
+      if (node.children.length > 0) {
+        return { ...node, children: convertRun(node.children, state) };
+      }
+      // Line break or embed
+      state.offset += 1;
+      state.prev = node.type === 'line-break' ? '\n' : OBJECT_CHAR;
+      state.skipSpace = false;
+      return node;
+    });
+
+  const transform = (nodes: TNode[]): TNode[] => {
+    const grouped = groupConsecutiveElementsWhile(nodes, (curr, prev) => {
+      return isInlineContent(curr) && isInlineContent(prev);
+    });
+
+    return grouped.flatMap((item): TNode[] => {
+      if (Array.isArray(item) || isInlineContent(item)) {
+        const run = Array.isArray(item) ? item : [item];
+        return convertRun(run, {
+          context: contextText(run),
+          offset: 0,
+          prev: undefined,
+          openDoubles: 0,
+          openSingles: 0,
+          skipSpace: false,
+        });
+      }
+      if (SKIPPED_TYPES.has(item.type) || item.children.length === 0) return [item];
+      return [{ ...item, children: transform(item.children) }];
+    });
+  };
+
+  return transform;
+}
+
+/** Inline nodes, and embeds (which the parser marks as non-inline). */
+function isInlineContent(node: TNode): boolean {
+  return node.isInline || (node.data !== undefined && node.children.length === 0);
+}
+
+function isOpeningContext(prev: string | undefined): boolean {
+  return prev === undefined || OPENING_CONTEXT.test(prev);
+}
+
+function isClosingContext(next: string | undefined): boolean {
+  return next === undefined || CLOSING_CONTEXT.test(next);
+}
+
+/** The text of a run of inline nodes, with line breaks and embeds as one character each. */
+function contextText(nodes: TNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') return typeof node.data === 'string' ? node.data : '';
+      if (node.children.length > 0) return contextText(node.children);
+      return node.type === 'line-break' ? '\n' : OBJECT_CHAR;
+    })
+    .join('');
+}
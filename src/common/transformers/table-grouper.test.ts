@@ -126,4 +126,170 @@ describe('tableGrouper', () => {
       expect(table.children[0]!.children[0]!.type).toBe('table-cell');
     });
   });
+
+  describe('source ranges', () => {
+    it('should span rows and the table', () => {
+      const ast = new DeltaParser(
+        {
+          ops: [
+            { insert: 'a' },
+            { insert: '\n', attributes: { table: 'row-1' } },
+            { insert: 'b' },
+            { insert: '\n', attributes: { table: 'row-1' } },
+            { insert: 'c' },
+            { insert: '\n', attributes: { table: 'row-2' } },
+          ],
+        },
+        { ...QUILL_CONFIG, sourceRanges: true },
+      )
+        .use(tableGrouper)
+        .toAST();
+
+      const table = ast.children[0]!;
+      expect(table.source).toEqual({ opIndex: 0, offset: 0, length: 6 });
+      expect(table.children.map((row) => row.source)).toEqual([
+        { opIndex: 0, offset: 0, length: 4 },
+        { opIndex: 4, offset: 4, length: 2 },
+      ]);
+    });
+  });
+
+  describe('header rows, spans and widths', () => {
+    it('should keep plain tables without sections', () => {
+      const ast = parseWithTableGrouper({
+        ops: [{ insert: 'a' }, { insert: '\n', attributes: { table: 'row-1' } }],
+      });
+
+      const table = ast.children[0]!;
+      expect(table.attributes).toEqual({});
+      expect(table.children.map((c) => c.type)).toEqual(['table-row']);
+    });
+
+    it('should split leading header rows into table-head with scope col', () => {
+      const ast = parseWithTableGrouper({
+        ops: [
+          { insert: 'Name' },
+          { insert: '\n', attributes: { table: 'row-1', 'table-header': true } },
+          { insert: 'Role' },
+          { insert: '\n', attributes: { table: 'row-1', 'table-header': true } },
+          { insert: 'Alice' },
+          { insert: '\n', attributes: { table: 'row-2', 'table-header': true } },
+          { insert: 'Dev' },
+          { insert: '\n', attributes: { table: 'row-2' } },
+        ],
+      });
+
+      const table = ast.children[0]!;
+      expect(table.children.map((c) => c.type)).toEqual(['table-head', 'table-body']);
+
+      const [head, body] = table.children;
+      expect(head!.children[0]!.children.map((cell) => cell.attributes.scope)).toEqual([
+        'col',
+        'col',
+      ]);
+      expect(body!.children[0]!.children.map((cell) => cell.attributes.scope)).toEqual([
+        'row',
+        undefined,
+      ]);
+    });
+
+    it('should merge lines sharing a cell id into one cell', () => {
+      const ast = parseWithTableGrouper({
+        ops: [
+          { insert: 'line 1' },
+          { insert: '\n', attributes: { table: 'row-1', cell: 'c1' } },
+          { insert: 'line 2' },
+          { insert: '\n', attributes: { table: 'row-1', cell: 'c1' } },
+          { insert: 'other' },
+          { insert: '\n', attributes: { table: 'row-1', cell: 'c2' } },
+        ],
+      });
+
+      const row = ast.children[0]!.children[0]!;
+      expect(row.children).toHaveLength(2);
+      expect(row.children[0]!.children.map((c) => c.type)).toEqual(['text', 'line-break', 'text']);
+    });
+
+    it('should collect column widths, skipping spanned columns', () => {
+      const ast = parseWithTableGrouper({
+        ops: [
+          { insert: 'wide' },
+          { insert: '\n', attributes: { table: 'row-1', colspan: 2 } },
+          { insert: 'tall' },
+          { insert: '\n', attributes: { table: 'row-1', rowspan: 2, 'col-width': '25%' } },
+          { insert: 'a' },
+          { insert: '\n', attributes: { table: 'row-2', 'col-width': 120 } },
+          { insert: 'b' },
+          { insert: '\n', attributes: { table: 'row-2' } },
+        ],
+      });
+
+      const table = ast.children[0]!;
+      expect(table.attributes['col-widths']).toEqual(['120px', '', '25%']);
+      expect(table.children.map((c) => c.type)).toEqual(['table-body']);
+    });
+  });
+
+  describe('quill-better-table cells', () => {
+    const line = (row: string, cell: string) => ({
+      'table-cell-line': { rowspan: '1', colspan: '1', row, cell },
+    });
+
+    it('should merge block lines of a cell into one cell holding blocks', () => {
+      const ast = parseWithTableGrouper({
+        ops: [
+          { insert: 'Title' },
+          { insert: '\n', attributes: { header: 2, ...line('row-1', 'cell-1') } },
+          { insert: 'one' },
+          {
+            insert: '\n',
+            attributes: {
+              list: { list: 'bullet', rowspan: '1', colspan: '1', row: 'row-1', cell: 'cell-1' },
+            },
+          },
+          { insert: 'two' },
+          {
+            insert: '\n',
+            attributes: {
+              list: { list: 'bullet', rowspan: '1', colspan: '1', row: 'row-1', cell: 'cell-1' },
+            },
+          },
+          { insert: 'plain' },
+          { insert: '\n', attributes: line('row-1', 'cell-2') },
+        ],
+      });
+
+      const table = ast.children[0]!;
+      expect(table.children).toHaveLength(1);
+      const [blockCell, plainCell] = table.children[0]!.children;
+      expect(blockCell!.type).toBe('table-cell');
+      expect(blockCell!.attributes).toEqual({ table: 'row-1', cell: 'cell-1' });
+      expect(blockCell!.children.map((c) => c.type)).toEqual(['header', 'list']);
+      expect(blockCell!.children[1]!.children).toHaveLength(2);
+
+      expect(plainCell!.type).toBe('table-cell');
+      expect(plainCell!.children.map((c) => c.type)).toEqual(['text']);
+    });
+
+    it('should keep spans from the cell line', () => {
+      const ast = parseWithTableGrouper({
+        ops: [
+          { insert: 'a' },
+          {
+            insert: '\n',
+            attributes: {
+              header: 1,
+              'table-cell-line': { rowspan: '2', colspan: '1', row: 'r', cell: 'c' },
+            },
+          },
+        ],
+      });
+
+      expect(ast.children[0]!.children[0]!.children[0]!.attributes).toEqual({
+        table: 'r',
+        cell: 'c',
+        rowspan: 2,
+      });
+    });
+  });
 });
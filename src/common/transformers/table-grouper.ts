@@ -1,6 +1,21 @@
-import type { TNode, Transformer } from '../../core/ast-types';
+import type { Attributes, TNode, Transformer } from '../../core/ast-types';
+import { withSourceSpan } from '../../core/source-range';
+import {
+  getCellId,
+  getColSpan,
+  getRowSpan,
+  isHeaderCell,
+} from '../../renderers/common/node-attributes';
 import { groupConsecutiveElementsWhile } from '../utils/group-consecutive';
-import { isSameRow, isTableCell } from '../utils/node-queries';
+import { nestLists } from '../utils/nest-lists';
+import {
+  getRowId,
+  isListItem,
+  isSameRow,
+  isTableCell,
+  isTableCellLine,
+} from '../utils/node-queries';
+import { codeBlockGrouper } from './code-block-grouper';
 
 /**
  * Wraps adjacent table-cell nodes into proper table > row > cell structure.
@@ -11,8 +26,23 @@ import { isSameRow, isTableCell } from '../utils/node-queries';
  * whose value is the row identifier (e.g. `'row-1'`).
  * This transformer:
  * 1. Detects consecutive `table-cell` nodes in root.children
- * 2. Groups cells sharing the same row id into `table-row` containers
- * 3. Wraps all rows in a `table` container node
+ * 2. Merges consecutive lines sharing a `cell` id into one cell: plain lines
+ *    are joined by `line-break` nodes, while cells with headers, list items
+ *    or other blocks hold those blocks as children
+ * 3. Groups cells sharing the same row id into `table-row` containers
+ * 4. Wraps all rows in a `table` container node
+ *
+ * Cells may carry metadata from table modules: `table-header: true`,
+ * `colspan`, `rowspan` and `col-width`. When a table has header cells or
+ * column widths, its rows are split into a `table-head` (the leading rows
+ * made only of header cells) and a `table-body`; header cells get a
+ * `scope` of `'col'` in the head and `'row'` in the body; and the table
+ * gets a `col-widths` attribute with one entry per column (`''` where
+ * unset). Tables without metadata keep their rows as direct children.
+ *
+ * Lines of quill-better-table cells keep their own block type and carry
+ * the row and cell ids in a `table-cell-line` attribute (or, for list
+ * lines, in the object value of `list`); they are grouped the same way.
  *
  * @example
  * ```ts
@@ -27,17 +57,17 @@ export const tableGrouper: Transformer = (children: TNode[]): TNode[] => {
 
 function groupTables(children: TNode[]): TNode[] {
   const grouped = groupConsecutiveElementsWhile(children, (curr, prev) => {
-    return isTableCell(curr) && isTableCell(prev);
+    return isTableCellLine(curr) && isTableCellLine(prev);
   });
 
   return grouped.map((item): TNode => {
     if (!Array.isArray(item)) {
-      if (isTableCell(item)) {
-        return createTable([createRow([item])]);
+      if (isTableCellLine(item)) {
+        return createTable(groupCellsIntoRows(mergeCellLines([item])));
       }
       return item;
     }
-    return createTable(groupCellsIntoRows(item));
+    return createTable(groupCellsIntoRows(mergeCellLines(item)));
   });
 }
 
@@ -49,22 +79,166 @@ function groupCellsIntoRows(cells: TNode[]): TNode[] {
   });
 }
 
+/** Merge consecutive lines of the same row that share a `cell` id into `table-cell` nodes. */
+function mergeCellLines(lines: TNode[]): TNode[] {
+  const grouped = groupConsecutiveElementsWhile(lines, (curr, prev) => {
+    const id = getCellId(curr);
+    return id !== undefined && id === getCellId(prev) && isSameRow(curr, prev);
+  });
+
+  return grouped.map((item): TNode => {
+    const cellLines = Array.isArray(item) ? item : [item];
+    const [first] = cellLines as [TNode, ...TNode[]];
+    if (cellLines.length === 1 && isTableCell(first)) return first;
+
+    if (cellLines.every(isPlainLine)) {
+      const children = cellLines.flatMap((line, i) =>
+        i === 0 ? line.children : [createLineBreak(), ...line.children],
+      );
+      return withSourceSpan({ ...first, type: 'table-cell', children }, cellLines);
+    }
+
+    // Block content: each line stays a block; list items and code lines are grouped
+    const blocks = cellLines.map((line) =>
+      isTableCell(line) ? { ...line, type: 'paragraph' } : line,
+    );
+    return withSourceSpan(
+      {
+        type: 'table-cell',
+        attributes: cellAttributes(first),
+        children: codeBlockGrouper(nestLists(blocks, isListItem)),
+        isInline: false,
+      },
+      cellLines,
+    );
+  });
+}
+
+/** Lines that merge into a cell of inline content. */
+function isPlainLine(line: TNode): boolean {
+  return isTableCell(line) || line.type === 'paragraph';
+}
+
+/** Attributes of a cell holding blocks, read from its first line. */
+function cellAttributes(line: TNode): Attributes {
+  const attrs: Attributes = { table: getRowId(line) };
+  const cell = getCellId(line);
+  if (cell !== undefined) attrs.cell = cell;
+  for (const name of ['table-header', 'col-width']) {
+    if (line.attributes[name] !== undefined) attrs[name] = line.attributes[name];
+  }
+  if (getColSpan(line) > 1) attrs.colspan = getColSpan(line);
+  if (getRowSpan(line) > 1) attrs.rowspan = getRowSpan(line);
+  return attrs;
+}
+
+// ─── Head, body and columns ─────────────────────────────────────────────────
+
+/**
+ * Split rows into head and body and compute column widths, for tables
+ * with header cells or widths. Returns `null` for plain tables.
+ */
+function createSections(rows: TNode[]): { children: TNode[]; widths: string[] } | null {
+  const widths = columnWidths(rows);
+  const hasHeaders = rows.some((row) => row.children.some(isHeaderCell));
+  if (!hasHeaders && widths.every((width) => width === '')) return null;
+
+  let headCount = 0;
+  while (headCount < rows.length && isHeaderRow(rows[headCount]!)) headCount++;
+
+  const head = rows.slice(0, headCount).map((row) => withScope(row, 'col'));
+  const body = rows.slice(headCount).map((row) => withScope(row, 'row'));
+
+  const children: TNode[] = [];
+  if (head.length > 0) children.push(createSection('table-head', head));
+  if (body.length > 0) children.push(createSection('table-body', body));
+  return { children, widths: widths.some((width) => width !== '') ? widths : [] };
+}
+
+function isHeaderRow(row: TNode): boolean {
+  return row.children.length > 0 && row.children.every(isHeaderCell);
+}
+
+function withScope(row: TNode, scope: 'col' | 'row'): TNode {
+  if (!row.children.some(isHeaderCell)) return row;
+  return {
+    ...row,
+    children: row.children.map((cell) =>
+      isHeaderCell(cell) ? { ...cell, attributes: { ...cell.attributes, scope } } : cell,
+    ),
+  };
+}
+
+/**
+ * One width per grid column, taken from the first single-column cell in
+ * that column with a `col-width`. Cells spanning rows from earlier rows
+ * shift the column positions of later rows.
+ */
+function columnWidths(rows: TNode[]): string[] {
+  const widths: string[] = [];
+  /** Remaining rows each column is covered by a rowspan from above */
+  const covered: number[] = [];
+
+  for (const row of rows) {
+    let col = 0;
+    for (const cell of row.children) {
+      while ((covered[col] ?? 0) > 0) col++;
+
+      const colspan = getColSpan(cell);
+      const rowspan = getRowSpan(cell);
+      const width = formatWidth(cell.attributes['col-width']);
+      if (colspan === 1 && width && !widths[col]) widths[col] = width;
+
+      for (let i = col; i < col + colspan; i++) {
+        covered[i] = rowspan;
+        widths[i] ??= '';
+      }
+      col += colspan;
+    }
+    for (let i = 0; i < covered.length; i++) {
+      if ((covered[i] ?? 0) > 0) covered[i]!--;
+    }
+  }
+
+  return Array.from(widths, (width) => width ?? '');
+}
+
+/** Numbers are pixels; strings are kept as given (`'25%'`, `'8em'`). */
+function formatWidth(value: unknown): string {
+  if (typeof value === 'number') return `${value}px`;
+  return typeof value === 'string' ? value.trim() : '';
+}
+
 // ─── TNode factories ────────────────────────────────────────────────────────
 
+function createLineBreak(): TNode {
+  return { type: 'line-break', attributes: {}, children: [], isInline: true };
+}
+
 function createRow(cells: TNode[]): TNode {
-  return {
+  return withSourceSpan({
     type: 'table-row',
     attributes: {},
     children: cells,
     isInline: false,
-  };
+  });
 }
 
-function createTable(rows: TNode[]): TNode {
-  return {
-    type: 'table',
+function createSection(type: 'table-head' | 'table-body', rows: TNode[]): TNode {
+  return withSourceSpan({
+    type,
     attributes: {},
     children: rows,
     isInline: false,
-  };
+  });
+}
+
+function createTable(rows: TNode[]): TNode {
+  const sections = createSections(rows);
+  return withSourceSpan({
+    type: 'table',
+    attributes: sections && sections.widths.length > 0 ? { 'col-widths': sections.widths } : {},
+    children: sections ? sections.children : rows,
+    isInline: false,
+  });
 }
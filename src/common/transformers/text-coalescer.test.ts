@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../../core/ast-types';
+import { DeltaParser } from '../../core/parser';
+import { SemanticHtmlRenderer } from '../../renderers/html/semantic/semantic-html-renderer';
+import { DEFAULT_BLOCK_ATTRIBUTES } from '../default-block-attributes';
+import { blockMerger } from './block-merger';
+import { listGrouper } from './list-grouper';
+import { tableGrouper } from './table-grouper';
+import { textCoalescer } from './text-coalescer';
+
+const QUILL_CONFIG = { blockAttributes: DEFAULT_BLOCK_ATTRIBUTES };
+
+function parseWithCoalescer(delta: Delta, sourceRanges = false): TNode {
+  return new DeltaParser(delta, { ...QUILL_CONFIG, sourceRanges })
+    .use(listGrouper)
+    .use(tableGrouper)
+    .use(blockMerger())
+    .use(textCoalescer)
+    .toAST();
+}
+
+function texts(node: TNode): unknown[] {
+  return node.children.map((c) => c.data);
+}
+
+describe('textCoalescer', () => {
+  it('should merge adjacent text nodes with equal attributes', () => {
+    const ast = parseWithCoalescer({
+      ops: [
+        { insert: 'a', attributes: { bold: true } },
+        { insert: 'b', attributes: { bold: true } },
+        { insert: 'c' },
+        { insert: 'd' },
+        { insert: 'e', attributes: { italic: true } },
+        { insert: '\n' },
+      ],
+    });
+
+    expect(texts(ast.children[0]!)).toEqual(['ab', 'cd', 'e']);
+    expect(new SemanticHtmlRenderer().render(ast)).toBe('<p><strong>ab</strong>cd<em>e</em></p>');
+  });
+
+  it('should not merge across embeds or line breaks', () => {
+    const ast = parseWithCoalescer({
+      ops: [{ insert: 'a' }, { insert: { image: 'x.png' } }, { insert: 'b\nc\n' }],
+    });
+
+    const paragraph = ast.children[0]!;
+    expect(paragraph.children.map((c) => c.type)).toEqual([
+      'text',
+      'image',
+      'text',
+      'line-break',
+      'text',
+    ]);
+  });
+
+  it('should coalesce inside list items and table cells', () => {
+    const ast = parseWithCoalescer({
+      ops: [
+        { insert: 'x' },
+        { insert: 'y' },
+        { insert: '\n', attributes: { list: 'bullet' } },
+        { insert: 'p', attributes: { italic: true } },
+        { insert: 'q', attributes: { italic: true } },
+        { insert: '\n', attributes: { table: 'row-1' } },
+      ],
+    });
+
+    const [list, table] = ast.children;
+    expect(texts(list!.children[0]!)).toEqual(['xy']);
+    expect(texts(table!.children[0]!.children[0]!)).toEqual(['pq']);
+  });
+
+  it('should span the source ranges of merged nodes', () => {
+    const ast = parseWithCoalescer({ ops: [{ insert: 'ab' }, { insert: 'cd\n' }] }, true);
+    expect(ast.children[0]!.children[0]!.source).toEqual({ opIndex: 0, offset: 0, length: 4 });
+  });
+});
@@ -0,0 +1,60 @@
+import type { TNode, Transformer } from '../../core/ast-types';
+import { attributesEqual } from '../../core/delta-ops';
+import { withSourceSpan } from '../../core/source-range';
+
+/**
+ * Merges adjacent `text` siblings with equal attributes into one text node,
+ * at every depth of the tree (inside list items, table cells, merged
+ * blocks, …).
+ *
+ * The parser emits one text node per op line, so collaboratively edited
+ * documents often split a run of identically formatted text across many
+ * nodes — which renderers then output as `<strong>a</strong><strong>b</strong>`.
+ * After coalescing the run renders as a single `<strong>ab</strong>`.
+ *
+ * Run it last, after the grouping and merging transformers.
+ *
+ * @example
+ * ```ts
+ * const ast = applyTransformers(rawAst, [listGrouper, blockMerger(), textCoalescer]);
+ * ```
+ */
+export const textCoalescer: Transformer = (children: TNode[]): TNode[] => {
+  return coalesce(children);
+};
+
+function coalesce(nodes: TNode[]): TNode[] {
+  const result: TNode[] = [];
+
+  for (const node of nodes) {
+    const current =
+      node.children.length > 0 ? { ...node, children: coalesce(node.children) } : node;
+    const prev = result[result.length - 1];
+
+    if (prev && canCoalesce(prev, current)) {
+      result[result.length - 1] = mergeText(prev, current);
+    } else {
+      result.push(current);
+    }
+  }
+
+  return result;
+}
+
+function isTextLeaf(node: TNode): boolean {
+  return node.type === 'text' && typeof node.data === 'string';
+}
+
+function canCoalesce(prev: TNode, curr: TNode): boolean {
+  return isTextLeaf(prev) && isTextLeaf(curr) && attributesEqual(prev.attributes, curr.attributes);
+}
+
+function mergeText(prev: TNode, curr: TNode): TNode {
+  return withSourceSpan(
+    {
+      ...prev,
+      data: `${prev.data as string}${curr.data as string}`,
+    },
+    [prev, curr],
+  );
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, TNode } from '../core/ast-types';
+import { parseQuillDelta } from '../parse-quill-delta';
+import { SemanticHtmlRenderer } from '../renderers/html/semantic/semantic-html-renderer';
+import { MarkdownRenderer } from '../renderers/markdown/markdown-renderer';
+import { isTruncated, type TruncateOptions, truncate } from './truncate';
+import { getTextContent } from './utils/node-queries';
+
+const parse = (ops: Delta['ops']) => parseQuillDelta({ ops });
+const html = (root: TNode) => new SemanticHtmlRenderer().render(root);
+
+const LIST = parse([
+  { insert: 'Intro\n' },
+  { insert: 'first item' },
+  { insert: '\n', attributes: { list: 'bullet' } },
+  { insert: 'second item' },
+  { insert: '\n', attributes: { list: 'bullet' } },
+  { insert: 'third item' },
+  { insert: '\n', attributes: { list: 'bullet' } },
+  { insert: 'Outro\n' },
+]);
+
+describe('truncate', () => {
+  it('should return the root unchanged when it fits', () => {
+    const root = parse([{ insert: 'Short text\n' }]);
+    const result = truncate(root, { maxChars: 100, maxBlocks: 5 });
+    expect(result).toBe(root);
+    expect(isTruncated(result)).toBe(false);
+  });
+
+  it('should cut at a word boundary and add an ellipsis', () => {
+    const result = truncate(parse([{ insert: 'The quick brown fox jumps\n' }]), { maxChars: 12 });
+    expect(html(result)).toBe('<p>The quick…</p>');
+    expect(isTruncated(result)).toBe(true);
+  });
+
+  it('should cut exactly at the limit when wordBoundary is off', () => {
+    const result = truncate(parse([{ insert: 'The quick brown fox\n' }]), {
+      maxChars: 12,
+      wordBoundary: false,
+      ellipsis: '...',
+    });
+    expect(html(result)).toBe('<p>The quick br...</p>');
+  });
+
+  it('should keep marks around the cut text', () => {
+    const root = parse([
+      { insert: 'Hello ' },
+      { insert: 'bold world today', attributes: { bold: true } },
+      { insert: '\n' },
+    ]);
+    expect(html(truncate(root, { maxChars: 16 }))).toBe(
+      '<p>Hello <strong>bold world</strong>…</p>',
+    );
+  });
+
+  it('should keep the containers around the cut', () => {
+    const result = truncate(LIST, { maxChars: 22 });
+    expect(html(result)).toBe('<p>Intro</p><ul><li>first item</li><li>second…</li></ul>');
+    expect(new MarkdownRenderer().render(result)).toBe('Intro\n*   first item\n*   second…');
+  });
+
+  it('should limit the number of blocks', () => {
+    const result = truncate(LIST, { maxBlocks: 2 });
+    expect(html(result)).toBe('<p>Intro</p><ul><li>first item…</li></ul>');
+  });
+
+  it('should drop a partial first word only when text precedes it', () => {
+    const root = parse([{ insert: 'Supercalifragilistic\n' }]);
+    expect(getTextContent(truncate(root, { maxChars: 5, ellipsis: '' }))).toBe('Super');
+  });
+
+  it('should weigh embeds', () => {
+    const ops: Delta['ops'] = [
+      { insert: 'ab' },
+      { insert: { image: 'https://x.y/i.png' } },
+      { insert: 'cd\n' },
+    ];
+    const images = (options: TruncateOptions) =>
+      html(truncate(parse(ops), { ellipsis: '', wordBoundary: false, ...options }));
+
+    expect(images({ maxChars: 4 })).toBe(
+      '<p>ab<img class="ql-image" src="https://x.y/i.png" />c</p>',
+    );
+    expect(images({ maxChars: 4, embedWeight: 10 })).toBe('<p>ab</p>');
+    expect(images({ maxChars: 4, embedWeight: () => 0 })).toBe(
+      '<p>ab<img class="ql-image" src="https://x.y/i.png" />cd</p>',
+    );
+  });
+
+  it('should add a paragraph for the ellipsis after a block embed', () => {
+    const root = parseQuillDelta(
+      { ops: [{ insert: { video: 'https://x.y/v.mp4' } }, { insert: 'after\n' }] },
+      { blockEmbeds: ['video'] },
+    );
+    const result = truncate(root, { maxBlocks: 1 });
+    expect(result.children.map((node) => node.type)).toEqual(['video', 'paragraph']);
+    expect(getTextContent(result.children[1]!)).toBe('…');
+  });
+
+  it('should not modify the input tree', () => {
+    const before = JSON.stringify(LIST);
+    truncate(LIST, { maxChars: 8 });
+    expect(JSON.stringify(LIST)).toBe(before);
+  });
+});
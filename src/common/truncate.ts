@@ -0,0 +1,216 @@
+import type { TNode } from '../core/ast-types';
+
+/**
+ * Options for {@link truncate}.
+ */
+export interface TruncateOptions {
+  /**
+   * Maximum number of visible characters (code points) to keep. Text
+   * counts its characters, inline embeds count {@link embedWeight}.
+   * @default Infinity
+   */
+  maxChars?: number;
+
+  /**
+   * Maximum number of blocks to keep. Every block holding inline content
+   * counts — a paragraph, a list item, a table cell, a code line — as does
+   * a block embed such as a video.
+   * @default Infinity
+   */
+  maxBlocks?: number;
+
+  /**
+   * Text appended where the document was cut. Pass `''` for none.
+   * @default '…'
+   */
+  ellipsis?: string;
+
+  /**
+   * Cut text at the last whitespace before the limit instead of mid-word.
+   * @default true
+   */
+  wordBoundary?: boolean;
+
+  /**
+   * Characters an embed (image, formula, mention, video, …) counts for,
+   * as a number or per node.
+   * @default 1
+   */
+  embedWeight?: number | ((node: TNode) => number);
+}
+
+interface Budget {
+  maxChars: number;
+  maxBlocks: number;
+  wordBoundary: boolean;
+  embedWeight: (node: TNode) => number;
+  chars: number;
+  blocks: number;
+  /** Set once the limit is reached and the rest of the document dropped */
+  cut: boolean;
+}
+
+/**
+ * Cut a document down to an excerpt of at most `maxChars` visible
+ * characters and `maxBlocks` blocks, e.g. for feed cards and previews.
+ *
+ * Everything after the limit is dropped, but the containers around the
+ * cut (lists, tables, sections, …) and the marks on the cut text are kept,
+ * so any renderer produces well-formed output. The `ellipsis` goes at the
+ * end of the last remaining block, and the returned root has a
+ * `truncated: true` attribute (see {@link isTruncated}). A document within
+ * the limits is returned as is.
+ *
+ * Run it on the transformed AST, after `parseQuillDelta`.
+ *
+ * @example
+ * ```ts
+ * import { truncate } from 'quill-delta-renderer/common';
+ *
+ * const excerpt = truncate(parseQuillDelta(delta), { maxChars: 280, maxBlocks: 5 });
+ * const html = new SemanticHtmlRenderer().render(excerpt);
+ * // => '<p>The first 280 characters, cut after a whole word…</p>'
+ * ```
+ */
+export function truncate(root: TNode, options?: TruncateOptions): TNode {
+  const embedWeight = options?.embedWeight ?? 1;
+  const budget: Budget = {
+    maxChars: options?.maxChars ?? Number.POSITIVE_INFINITY,
+    maxBlocks: options?.maxBlocks ?? Number.POSITIVE_INFINITY,
+    wordBoundary: options?.wordBoundary ?? true,
+    embedWeight: typeof embedWeight === 'number' ? () => embedWeight : embedWeight,
+    chars: 0,
+    blocks: 0,
+    cut: false,
+  };
+
+  let children = cutChildren(root.children, budget);
+  if (!budget.cut) return root;
+
+  const ellipsis = options?.ellipsis ?? '…';
+  if (ellipsis) {
+    children = appendToLastBlock(children, textNode(ellipsis)) ?? [
+      ...children,
+      { type: 'paragraph', attributes: {}, children: [textNode(ellipsis)], isInline: false },
+    ];
+  }
+
+  return { ...root, attributes: { ...root.attributes, truncated: true }, children };
+}
+
+/**
+ * Whether `root` is an excerpt produced by {@link truncate} that had
+ * content cut off.
+ */
+export function isTruncated(root: TNode): boolean {
+  return root.attributes.truncated === true;
+}
+
+// ─── Cutting ────────────────────────────────────────────────────────────────
+
+function cutChildren(nodes: TNode[], budget: Budget): TNode[] {
+  const kept: TNode[] = [];
+  for (const node of nodes) {
+    if (budget.cut) break;
+    const result = cutNode(node, budget);
+    if (result) kept.push(result);
+  }
+  return kept;
+}
+
+/** The part of `node` within the budget, or `null` if none of it fits. */
+function cutNode(node: TNode, budget: Budget): TNode | null {
+  if (node.type === 'text') return cutTextNode(node, budget);
+  if (node.type === 'line-break') return node;
+
+  if (node.isInline) {
+    return spend(budget.embedWeight(node), budget) ? node : null;
+  }
+
+  if (holdsInlineContent(node)) {
+    if (budget.blocks >= budget.maxBlocks) {
+      budget.cut = true;
+      return null;
+    }
+    budget.blocks++;
+  }
+
+  // Block embed (video, divider, …)
+  if (node.children.length === 0) {
+    return node.data === undefined || spend(budget.embedWeight(node), budget) ? node : null;
+  }
+
+  const children = cutChildren(node.children, budget);
+  if (children.length === 0) return null;
+  if (
+    children.length === node.children.length &&
+    children.every((c, i) => c === node.children[i])
+  ) {
+    return node;
+  }
+  return { ...node, children };
+}
+
+function cutTextNode(node: TNode, budget: Budget): TNode | null {
+  const chars = [...(typeof node.data === 'string' ? node.data : '')];
+  if (budget.chars + chars.length <= budget.maxChars) {
+    budget.chars += chars.length;
+    return node;
+  }
+
+  const hasPrevious = budget.chars > 0;
+  const limit = budget.maxChars - budget.chars;
+  budget.chars = budget.maxChars;
+  budget.cut = true;
+
+  let text = chars.slice(0, limit).join('');
+  if (budget.wordBoundary && /\S/.test(chars[limit] ?? '')) {
+    // The limit falls inside a word: drop the partial word
+    const lastSpace = text.search(/\s\S*$/);
+    if (lastSpace !== -1) text = text.slice(0, lastSpace);
+    else if (hasPrevious) text = '';
+  }
+
+  text = text.trimEnd();
+  return text ? { ...node, data: text } : null;
+}
+
+/** Count `weight` characters; flags the cut and returns `false` if they don't fit. */
+function spend(weight: number, budget: Budget): boolean {
+  if (budget.chars + weight > budget.maxChars) {
+    budget.cut = true;
+    return false;
+  }
+  budget.chars += weight;
+  return true;
+}
+
+/** Blocks that count towards `maxBlocks`: those holding inline content, and leaves. */
+function holdsInlineContent(node: TNode): boolean {
+  return node.children.length === 0 || node.children.some((child) => child.isInline);
+}
+
+// ─── Ellipsis ───────────────────────────────────────────────────────────────
+
+function textNode(text: string): TNode {
+  return { type: 'text', attributes: {}, children: [], data: text, isInline: true };
+}
+
+/**
+ * Append `inline` to the deepest last block of `nodes`. Returns `undefined`
+ * when the last block can't hold text (a block embed).
+ */
+function appendToLastBlock(nodes: TNode[], inline: TNode): TNode[] | undefined {
+  const last = nodes[nodes.length - 1];
+  if (!last) return undefined;
+  if (last.isInline) return [...nodes, inline];
+
+  let children: TNode[] | undefined;
+  if (last.children.length > 0) {
+    children = appendToLastBlock(last.children, inline);
+  } else if (last.data === undefined) {
+    children = [inline];
+  }
+
+  return children && [...nodes.slice(0, -1), { ...last, children }];
+}
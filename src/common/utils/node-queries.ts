@@ -33,6 +33,15 @@ export function getRowId(node: TNode): string | undefined {
   return getTableRow(node);
 }
 
+/**
+ * Whether a block is a line of a table cell: a `table-cell`, or a block of
+ * another type (header, list item, …) carrying a row id, as the lines of
+ * quill-better-table cells do.
+ */
+export function isTableCellLine(node: TNode): boolean {
+  return isTableCell(node) || (!node.isInline && getRowId(node) !== undefined);
+}
+
 export function isSameListType(a: TNode, b: TNode): boolean {
   const aList = getListType(a);
   const bList = getListType(b);
@@ -50,5 +59,15 @@ export function hasHigherIndent(a: TNode, b: TNode): boolean {
 }
 
 export function isSameRow(a: TNode, b: TNode): boolean {
-  return isTableCell(a) && isTableCell(b) && getRowId(a) === getRowId(b);
+  return isTableCellLine(a) && isTableCellLine(b) && getRowId(a) === getRowId(b);
+}
+
+/**
+ * Concatenate the text of a node's `text` descendants, in document order.
+ * Line breaks from merged blocks become `'\n'`; embeds contribute nothing.
+ */
+export function getTextContent(node: TNode): string {
+  if (node.type === 'text') return typeof node.data === 'string' ? node.data : '';
+  if (node.type === 'line-break') return '\n';
+  return node.children.map(getTextContent).join('');
 }
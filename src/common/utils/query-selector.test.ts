@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { TNode } from '../../core/ast-types';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import { querySelector, querySelectorAll } from './query-selector';
+
+/** A document with headers, an ordered list, a bullet list and a table holding an image. */
+function makeAst(): TNode {
+  return parseQuillDelta({
+    ops: [
+      { insert: 'Title' },
+      { insert: '\n', attributes: { header: 1 } },
+      { insert: 'Intro ' },
+      { insert: 'bold', attributes: { bold: true } },
+      { insert: '\n' },
+      { insert: 'Section' },
+      { insert: '\n', attributes: { header: 2 } },
+      { insert: 'one' },
+      { insert: '\n', attributes: { list: 'ordered' } },
+      { insert: 'two' },
+      { insert: '\n', attributes: { list: 'ordered' } },
+      { insert: 'nested' },
+      { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+      { insert: 'three' },
+      { insert: '\n', attributes: { list: 'ordered' } },
+      { insert: 'cell' },
+      { insert: '\n', attributes: { table: 'row-1' } },
+      { insert: { image: 'https://example.com/a.png' } },
+      { insert: '\n', attributes: { table: 'row-1' } },
+      { insert: { image: 'https://example.com/b.png' } },
+      { insert: '\n' },
+    ],
+  });
+}
+
+const texts = (nodes: TNode[]) => nodes.map((node) => node.data);
+
+describe('querySelectorAll', () => {
+  it('should match type selectors in document order', () => {
+    const items = querySelectorAll(makeAst(), 'list-item');
+    expect(items).toHaveLength(4);
+    expect(items.every((node) => node.type === 'list-item')).toBe(true);
+  });
+
+  it('should never match the root itself', () => {
+    const ast = makeAst();
+    expect(querySelectorAll(ast, 'root')).toEqual([]);
+    expect(querySelectorAll(ast, '*')).not.toContain(ast);
+  });
+
+  it('should match attribute values', () => {
+    const ast = makeAst();
+    expect(querySelectorAll(ast, 'header[header=2]')).toHaveLength(1);
+    expect(querySelectorAll(ast, 'list[list=ordered]')).toHaveLength(1);
+    expect(querySelectorAll(ast, 'list[list="bullet"]')).toHaveLength(1);
+    expect(querySelectorAll(ast, "list[list='checked']")).toEqual([]);
+  });
+
+  it('should match attribute presence', () => {
+    expect(texts(querySelectorAll(makeAst(), 'text[bold]'))).toEqual(['bold']);
+  });
+
+  it('should not treat false or null attributes as present', () => {
+    const root: TNode = {
+      type: 'root',
+      attributes: {},
+      isInline: false,
+      children: [
+        { type: 'text', attributes: { bold: false }, children: [], data: 'a', isInline: true },
+        { type: 'text', attributes: { bold: null }, children: [], data: 'b', isInline: true },
+        { type: 'text', attributes: { bold: true }, children: [], data: 'c', isInline: true },
+      ],
+    };
+    expect(texts(querySelectorAll(root, '[bold]'))).toEqual(['c']);
+    expect(texts(querySelectorAll(root, '[bold=false]'))).toEqual(['a']);
+  });
+
+  it('should match descendants at any depth', () => {
+    const images = querySelectorAll(makeAst(), 'table image');
+    expect(images.map((node) => node.data)).toEqual(['https://example.com/a.png']);
+  });
+
+  it('should match children only with the child combinator', () => {
+    const ast = makeAst();
+    expect(querySelectorAll(ast, 'list[list=ordered] list-item')).toHaveLength(4);
+    expect(querySelectorAll(ast, 'list[list=ordered] > list-item')).toHaveLength(3);
+    expect(querySelectorAll(ast, 'root > image')).toHaveLength(0);
+    expect(querySelectorAll(ast, 'root > paragraph > image')).toHaveLength(1);
+  });
+
+  it('should match :first-child and :nth-child', () => {
+    const ast = makeAst();
+    const first = querySelectorAll(ast, 'list[list=ordered] > list-item:first-child text');
+    expect(texts(first)).toEqual(['one']);
+
+    const second = querySelectorAll(ast, 'list[list=ordered] > list-item:nth-child(2) > text');
+    expect(texts(second)).toEqual(['two']);
+
+    expect(texts(querySelectorAll(ast, 'list-item:nth-child(odd) > text'))).toEqual([
+      'one',
+      'nested',
+      'three',
+    ]);
+    expect(texts(querySelectorAll(ast, 'list-item:nth-child(2n) > text'))).toEqual(['two']);
+    expect(texts(querySelectorAll(ast, 'list-item:nth-child(-n+1) > text'))).toEqual([
+      'one',
+      'nested',
+    ]);
+  });
+
+  it('should combine selector lists in document order', () => {
+    const nodes = querySelectorAll(makeAst(), 'header[header=2], header[header=1]');
+    expect(nodes.map((node) => node.attributes.header)).toEqual([1, 2]);
+  });
+
+  it('should accept the universal selector and whitespace', () => {
+    const cells = querySelectorAll(makeAst(), '  table-row  >  *[ table = row-1 ]  ');
+    expect(cells.map((node) => node.type)).toEqual(['table-cell', 'table-cell']);
+  });
+
+  it.each([
+    '',
+    'list >',
+    'list,',
+    'header[header=2',
+    '[list="ordered]',
+    'list-item:last-child',
+    'list-item:nth-child(x)',
+    'list + list-item',
+  ])('should throw a SyntaxError for %j', (selector) => {
+    expect(() => querySelectorAll(makeAst(), selector)).toThrow(SyntaxError);
+  });
+});
+
+describe('querySelector', () => {
+  it('should return the first match', () => {
+    const header = querySelector(makeAst(), 'header');
+    expect(header?.attributes.header).toBe(1);
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(querySelector(makeAst(), 'video')).toBeNull();
+  });
+});
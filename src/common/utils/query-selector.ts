@@ -0,0 +1,300 @@
+import type { KnownNodeType, TNode } from '../../core/ast-types';
+import { asNumber, asString } from '../../renderers/common/node-attributes';
+
+/**
+ * CSS-like selector queries over a TNode tree.
+ *
+ * Supported syntax:
+ *
+ * - type selectors: `list-item`, `header`, `*`
+ * - attribute selectors on `node.attributes`: `[bold]`, `[header=2]`, `[list="ordered"]`
+ * - `:first-child`, `:nth-child(2)`, `:nth-child(odd)`, `:nth-child(2n+1)`
+ * - descendant (`table image`) and child (`list > list-item`) combinators
+ * - selector lists: `header, blockquote`
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface AttributeTest {
+  name: string;
+  /** Expected value as written in the selector; omitted for presence tests */
+  value?: string;
+}
+
+/** Matches the 1-based sibling positions `a·n + b` for some `n ≥ 0`. */
+interface PositionTest {
+  a: number;
+  b: number;
+}
+
+interface CompoundSelector {
+  /** Node type to match; omitted for `*` */
+  type?: KnownNodeType | (string & {});
+  attributes: AttributeTest[];
+  positions: PositionTest[];
+}
+
+type Combinator = 'descendant' | 'child';
+
+interface SelectorStep {
+  compound: CompoundSelector;
+  /** How this step relates to the previous one; omitted for the first step */
+  combinator?: Combinator;
+}
+
+/** A node on the path from the query root, with its index among its siblings. */
+interface PathEntry {
+  node: TNode;
+  index: number;
+}
+
+// ─── Queries ────────────────────────────────────────────────────────────────
+
+/**
+ * Collect every descendant of `root` matching `selector`, in document
+ * order. The root itself is never returned, but it can match an ancestor
+ * step (`root > paragraph`).
+ *
+ * An attribute selector without a value matches attributes that are set
+ * (not `null`, `undefined` or `false`). With a value, it matches string,
+ * number and boolean attributes whose string form equals the value.
+ *
+ * Throws a `SyntaxError` for a selector it cannot parse.
+ *
+ * @example
+ * ```ts
+ * import { querySelectorAll } from 'quill-delta-renderer/common';
+ *
+ * const tableImages = querySelectorAll(ast, 'table image');
+ * const subheadings = querySelectorAll(ast, 'header[header=2], header[header=3]');
+ * const firstItems = querySelectorAll(ast, 'list[list=ordered] > list-item:first-child');
+ * ```
+ */
+export function querySelectorAll(root: TNode, selector: string): TNode[] {
+  const found: TNode[] = [];
+  collect(root, [{ node: root, index: -1 }], parseSelectorList(selector), found, false);
+  return found;
+}
+
+/**
+ * Return the first descendant of `root` matching `selector` in document
+ * order, or `null` if none matches. See {@link querySelectorAll}.
+ *
+ * @example
+ * ```ts
+ * const title = querySelector(ast, 'header[header=1]');
+ * ```
+ */
+export function querySelector(root: TNode, selector: string): TNode | null {
+  const found: TNode[] = [];
+  collect(root, [{ node: root, index: -1 }], parseSelectorList(selector), found, true);
+  return found[0] ?? null;
+}
+
+/** Walk the children of `node` depth-first; returns `true` once `firstOnly` found a match. */
+function collect(
+  node: TNode,
+  path: PathEntry[],
+  selectors: SelectorStep[][],
+  found: TNode[],
+  firstOnly: boolean,
+): boolean {
+  for (const [index, child] of node.children.entries()) {
+    path.push({ node: child, index });
+
+    if (selectors.some((steps) => matchStep(steps, steps.length - 1, path, path.length - 1))) {
+      found.push(child);
+      if (firstOnly) return true;
+    }
+    if (collect(child, path, selectors, found, firstOnly)) return true;
+
+    path.pop();
+  }
+  return false;
+}
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+/** Whether `steps[0..k]` matches with step `k` at `path[i]`. */
+function matchStep(steps: SelectorStep[], k: number, path: PathEntry[], i: number): boolean {
+  const step = steps[k]!;
+  if (!matchesCompound(path[i]!, step.compound)) return false;
+  if (k === 0) return true;
+
+  if (step.combinator === 'child') {
+    return i > 0 && matchStep(steps, k - 1, path, i - 1);
+  }
+  for (let j = i - 1; j >= 0; j--) {
+    if (matchStep(steps, k - 1, path, j)) return true;
+  }
+  return false;
+}
+
+function matchesCompound({ node, index }: PathEntry, compound: CompoundSelector): boolean {
+  if (compound.type !== undefined && node.type !== compound.type) return false;
+
+  return (
+    compound.attributes.every((test) => matchesAttribute(node, test)) &&
+    compound.positions.every((test) => matchesPosition(index + 1, test))
+  );
+}
+
+function matchesAttribute(node: TNode, test: AttributeTest): boolean {
+  const value = node.attributes[test.name];
+  if (test.value === undefined) {
+    return value !== undefined && value !== null && value !== false;
+  }
+  return attributeText(value) === test.value;
+}
+
+/** String form of a scalar attribute value; `undefined` for objects and missing values. */
+function attributeText(value: unknown): string | undefined {
+  if (typeof value === 'boolean') return String(value);
+  return asString(value) ?? asNumber(value)?.toString();
+}
+
+function matchesPosition(position: number, { a, b }: PositionTest): boolean {
+  // The query root has no siblings
+  if (position < 1) return false;
+  if (a === 0) return position === b;
+
+  const n = (position - b) / a;
+  return Number.isInteger(n) && n >= 0;
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+const NAME_CHAR = /[\w-]/;
+const VALUE_CHAR = /[\w.-]/;
+const WHITESPACE = /\s/;
+
+function parseSelectorList(selector: string): SelectorStep[][] {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new SyntaxError(`Invalid selector "${selector}": ${reason}`);
+  };
+
+  const skipSpace = (): boolean => {
+    const start = pos;
+    while (pos < selector.length && WHITESPACE.test(selector[pos]!)) pos++;
+    return pos > start;
+  };
+
+  const readWhile = (pattern: RegExp, what: string): string => {
+    const start = pos;
+    while (pos < selector.length && pattern.test(selector[pos]!)) pos++;
+    if (pos === start) fail(`expected ${what} at position ${pos}`);
+    return selector.slice(start, pos);
+  };
+
+  const expect = (char: string): void => {
+    if (selector[pos] !== char) fail(`expected "${char}" at position ${pos}`);
+    pos++;
+  };
+
+  const readValue = (): string => {
+    const quote = selector[pos];
+    if (quote !== '"' && quote !== "'") return readWhile(VALUE_CHAR, 'a value');
+
+    const end = selector.indexOf(quote, pos + 1);
+    if (end === -1) fail(`unterminated string at position ${pos}`);
+    const value = selector.slice(pos + 1, end);
+    pos = end + 1;
+    return value;
+  };
+
+  const readPseudo = (): PositionTest => {
+    const name = readWhile(NAME_CHAR, 'a pseudo-class');
+    if (name === 'first-child') return { a: 0, b: 1 };
+    if (name !== 'nth-child') return fail(`unsupported pseudo-class ":${name}"`);
+
+    expect('(');
+    const end = selector.indexOf(')', pos);
+    if (end === -1) fail(`expected ")" after ":nth-child("`);
+    const argument = selector.slice(pos, end);
+    pos = end + 1;
+    return parseNth(argument) ?? fail(`invalid :nth-child argument "${argument}"`);
+  };
+
+  const readCompound = (): CompoundSelector => {
+    const compound: CompoundSelector = { attributes: [], positions: [] };
+    const start = pos;
+
+    if (selector[pos] === '*') {
+      pos++;
+    } else if (NAME_CHAR.test(selector[pos] ?? '')) {
+      compound.type = readWhile(NAME_CHAR, 'a node type');
+    }
+
+    for (;;) {
+      const char = selector[pos];
+      if (char === '[') {
+        pos++;
+        skipSpace();
+        const test: AttributeTest = { name: readWhile(NAME_CHAR, 'an attribute name') };
+        skipSpace();
+        if (selector[pos] === '=') {
+          pos++;
+          skipSpace();
+          test.value = readValue();
+          skipSpace();
+        }
+        expect(']');
+        compound.attributes.push(test);
+      } else if (char === ':') {
+        pos++;
+        compound.positions.push(readPseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (pos === start) fail(`expected a selector at position ${pos}`);
+    return compound;
+  };
+
+  const selectors: SelectorStep[][] = [];
+
+  for (;;) {
+    skipSpace();
+    const steps: SelectorStep[] = [{ compound: readCompound() }];
+
+    for (;;) {
+      const spaced = skipSpace();
+      const char = selector[pos];
+      if (char === undefined || char === ',') break;
+
+      let combinator: Combinator = 'descendant';
+      if (char === '>') {
+        pos++;
+        skipSpace();
+        combinator = 'child';
+      } else if (!spaced) {
+        fail(`unexpected "${char}" at position ${pos}`);
+      }
+      steps.push({ compound: readCompound(), combinator });
+    }
+
+    selectors.push(steps);
+    if (selector[pos] !== ',') return selectors;
+    pos++;
+  }
+}
+
+/** Parse an `:nth-child()` argument: `3`, `odd`, `even`, `2n+1`, `-n+3`, … */
+function parseNth(argument: string): PositionTest | undefined {
+  const text = argument.trim().toLowerCase();
+  if (text === 'odd') return { a: 2, b: 1 };
+  if (text === 'even') return { a: 2, b: 0 };
+  if (/^\+?\d+$/.test(text)) return { a: 0, b: Number(text) };
+
+  const match = /^([+-]?\d*)n\s*(?:([+-])\s*(\d+))?$/.exec(text);
+  if (!match) return undefined;
+
+  const [, coefficient = '', sign, offset] = match;
+  const a =
+    coefficient === '' || coefficient === '+' ? 1 : coefficient === '-' ? -1 : Number(coefficient);
+  const b = offset === undefined ? 0 : Number(offset) * (sign === '-' ? -1 : 1);
+  return { a, b };
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta } from '../core/ast-types';
+import { validateDelta } from './validate-delta';
+
+/** Codes reported for a delta, for compact assertions. */
+function codes(delta: Delta, schema?: Parameters<typeof validateDelta>[1]): string[] {
+  return validateDelta(delta, schema).map((d) => `${d.opIndex}:${d.code}`);
+}
+
+describe('validateDelta', () => {
+  it('should accept a well-formed document', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'Title' },
+        { insert: '\n', attributes: { header: 2 } },
+        { insert: 'bold', attributes: { bold: true, color: '#f00' } },
+        { insert: { image: 'a.png' }, attributes: { alt: 'A', width: '120' } },
+        { insert: 'link', attributes: { link: 'https://x.y' } },
+        { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+        { insert: 'cell' },
+        { insert: '\n', attributes: { table: 'row-1' } },
+      ],
+    };
+    expect(validateDelta(delta)).toEqual([]);
+  });
+
+  it('should report a missing ops array instead of throwing', () => {
+    expect(validateDelta(null as unknown as Delta)).toEqual([
+      {
+        opIndex: -1,
+        severity: 'error',
+        code: 'invalid-delta',
+        message: 'Expected a Delta object with an ops array',
+      },
+    ]);
+  });
+
+  it('should report invalid block attribute values', () => {
+    const diagnostics = validateDelta({
+      ops: [
+        { insert: 'a' },
+        { insert: '\n', attributes: { header: 7 } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { list: 'bullet', indent: '2' } },
+      ],
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        opIndex: 1,
+        severity: 'error',
+        code: 'invalid-attribute-value',
+        message: 'Invalid value 7 for attribute "header"',
+        attribute: 'header',
+      },
+      {
+        opIndex: 3,
+        severity: 'error',
+        code: 'invalid-attribute-value',
+        message: 'Invalid value "2" for attribute "indent"',
+        attribute: 'indent',
+      },
+    ]);
+  });
+
+  it('should validate table cell metadata', () => {
+    const diagnostics = validateDelta({
+      ops: [
+        { insert: 'a' },
+        { insert: '\n', attributes: { table: 'row-1', 'table-header': true, colspan: '2' } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { table: 'row-1', rowspan: 0, 'col-width': '50%' } },
+      ],
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        opIndex: 3,
+        severity: 'error',
+        code: 'invalid-attribute-value',
+        message: 'Invalid value 0 for attribute "rowspan"',
+        attribute: 'rowspan',
+      },
+    ]);
+  });
+
+  it('should accept quill-better-table cell lines', () => {
+    const cellLine = { rowspan: '1', colspan: '2', row: 'row-1', cell: 'cell-1' };
+    const diagnostics = validateDelta({
+      ops: [
+        { insert: 'a' },
+        { insert: '\n', attributes: { header: 2, 'table-cell-line': cellLine } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { list: { list: 'bullet', ...cellLine } } },
+        { insert: 'c' },
+        { insert: '\n', attributes: { 'table-cell-line': { row: 'row-1' } } },
+      ],
+    });
+
+    expect(diagnostics.map((d) => [d.opIndex, d.attribute])).toEqual([[5, 'table-cell-line']]);
+  });
+
+  it('should report invalid and unknown inline formats', () => {
+    expect(
+      codes({
+        ops: [
+          { insert: 'a', attributes: { link: 42 } },
+          { insert: 'b', attributes: { sparkle: true } },
+          { insert: 'c', attributes: { bold: null } },
+          { insert: '\n' },
+        ],
+      }),
+    ).toEqual(['0:invalid-attribute-value', '1:unknown-attribute']);
+  });
+
+  it('should report table cells without a row id', () => {
+    expect(
+      codes({
+        ops: [{ insert: 'a' }, { insert: '\n', attributes: { table: true } }],
+      }),
+    ).toEqual(['1:missing-table-row']);
+  });
+
+  it('should report block attributes on ops without a newline', () => {
+    expect(codes({ ops: [{ insert: 'a', attributes: { header: 1 } }, { insert: '\n' }] })).toEqual([
+      '0:block-attribute-on-text',
+    ]);
+  });
+
+  it('should report text after the final newline', () => {
+    expect(codes({ ops: [{ insert: 'a\nb' }] })).toEqual(['0:missing-trailing-newline']);
+    expect(codes({ ops: [{ insert: 'a\n' }, { insert: { image: 'x.png' } }] })).toEqual([
+      '1:missing-trailing-newline',
+    ]);
+  });
+
+  it('should report malformed and ignored ops', () => {
+    expect(
+      codes({
+        ops: [
+          { insert: '' },
+          { retain: 2 },
+          {},
+          { insert: {} },
+          { insert: { widget: 1 } },
+          { insert: '\n' },
+        ],
+      }),
+    ).toEqual(['0:empty-insert', '1:non-insert-op', '2:invalid-op', '3:empty-embed']);
+  });
+
+  it('should report inserts that are neither strings nor objects instead of throwing', () => {
+    const ops = [{ insert: null }, { insert: 5 }, { insert: true }, { insert: ['a'] }];
+    expect(codes({ ops } as unknown as Delta)).toEqual([
+      '0:invalid-op',
+      '1:invalid-op',
+      '2:invalid-op',
+      '3:invalid-op',
+    ]);
+  });
+
+  it('should apply custom schema entries over the defaults', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'a', attributes: { mark: 'yellow' } },
+        { insert: { widget: 1 } },
+        { insert: '\n', attributes: { header: 8 } },
+      ],
+    };
+
+    expect(codes(delta)).toEqual(['0:unknown-attribute', '2:invalid-attribute-value']);
+    expect(
+      codes(delta, {
+        inlineFormats: { mark: (value) => typeof value === 'string' },
+        blockValues: { header: (value) => typeof value === 'number' },
+        embeds: ['image'],
+      }),
+    ).toEqual(['1:unknown-embed']);
+  });
+});
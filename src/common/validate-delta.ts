@@ -0,0 +1,382 @@
+import type { BlockAttributeHandler, Delta, DeltaOp } from '../core/ast-types';
+import { DEFAULT_BLOCK_ATTRIBUTES } from './default-block-attributes';
+import { isValidColor, isValidFontFamily, isValidSize } from './utils/attribute-sanitizer';
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Checks an attribute value; returns `false` when the value is invalid. */
+export type AttributeValidator = (value: unknown) => boolean;
+
+/**
+ * Diagnostic codes reported by {@link validateDelta}.
+ *
+ * - `invalid-delta` — the input has no `ops` array
+ * - `invalid-op` — an op is not an object with `insert`, `retain` or `delete`
+ * - `non-insert-op` — a `retain` or `delete` op, which parsing skips
+ * - `empty-insert` — an insert of `''`
+ * - `empty-embed` — an embed object with no type key (parsing throws)
+ * - `unknown-embed` — an embed type missing from `schema.embeds`
+ * - `unknown-attribute` — neither a block attribute nor a declared inline format
+ * - `invalid-attribute-value` — rejected by the attribute's validator
+ * - `missing-table-row` — a `table` cell without a row id
+ * - `block-attribute-on-text` — a block attribute on an op without a newline, which parsing drops
+ * - `missing-trailing-newline` — text after the final newline
+ */
+export type DiagnosticCode =
+  | 'invalid-delta'
+  | 'invalid-op'
+  | 'non-insert-op'
+  | 'empty-insert'
+  | 'empty-embed'
+  | 'unknown-embed'
+  | 'unknown-attribute'
+  | 'invalid-attribute-value'
+  | 'missing-table-row'
+  | 'block-attribute-on-text'
+  | 'missing-trailing-newline';
+
+/**
+ * `error` — the content fails to parse or renders incorrectly.
+ * `warning` — the content is ignored or dropped, but parses.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found by {@link validateDelta}.
+ */
+export interface DeltaDiagnostic {
+  /** Index in `delta.ops` of the offending op (`-1` for `invalid-delta`) */
+  opIndex: number;
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  /** Human-readable description */
+  message: string;
+  /** The attribute concerned, for attribute diagnostics */
+  attribute?: string;
+}
+
+/**
+ * Describes the content a Delta may hold. Every field is optional;
+ * validators are merged over the defaults.
+ */
+export interface DeltaSchema {
+  /**
+   * Block attribute handlers, as passed to the parser. Attributes listed
+   * here are valid on newlines.
+   * @default DEFAULT_BLOCK_ATTRIBUTES
+   */
+  blockAttributes?: Record<string, BlockAttributeHandler>;
+
+  /**
+   * Value validators for block attributes, merged over
+   * {@link DEFAULT_BLOCK_VALUE_VALIDATORS}. Block attributes without a
+   * validator accept any value.
+   */
+  blockValues?: Record<string, AttributeValidator>;
+
+  /**
+   * Declared inline formats (including embed attributes) and their value
+   * validators, merged over {@link DEFAULT_INLINE_FORMATS}.
+   */
+  inlineFormats?: Record<string, AttributeValidator>;
+
+  /** Allowed embed types. When omitted, any embed type is accepted. */
+  embeds?: string[];
+}
+
+// ─── Defaults ───────────────────────────────────────────────────────────────
+
+const isString: AttributeValidator = (value) => typeof value === 'string';
+const isTrue: AttributeValidator = (value) => value === true;
+const isDimension: AttributeValidator = (value) =>
+  typeof value === 'number' || (typeof value === 'string' && value.trim() !== '');
+/** Table modules store spans as numbers or numeric strings. */
+const isSpan: AttributeValidator = (value) =>
+  (typeof value === 'number' || typeof value === 'string') &&
+  Number.isInteger(Number(value)) &&
+  Number(value) >= 1;
+const oneOf =
+  (...values: unknown[]): AttributeValidator =>
+  (value) =>
+    values.includes(value);
+const isListType = oneOf('bullet', 'ordered', 'checked', 'unchecked');
+/** quill-better-table cell identity: `{ row, cell, rowspan?, colspan? }`. */
+const isCellLine: AttributeValidator = (value) => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { row, cell, rowspan, colspan } = value as Record<string, unknown>;
+  return (
+    typeof row === 'string' &&
+    row !== '' &&
+    typeof cell === 'string' &&
+    cell !== '' &&
+    (rowspan === undefined || isSpan(rowspan)) &&
+    (colspan === undefined || isSpan(colspan))
+  );
+};
+
+/**
+ * Value validators for the block attributes in `DEFAULT_BLOCK_ATTRIBUTES`.
+ * `table` is checked separately and reported as `missing-table-row`.
+ */
+export const DEFAULT_BLOCK_VALUE_VALIDATORS: Record<string, AttributeValidator> = {
+  header: (value) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 6,
+  blockquote: isTrue,
+  'code-block': (value) => value === true || (typeof value === 'string' && value !== ''),
+  // quill-better-table stores list lines in cells as `{ list, row, cell, … }`
+  list: (value) =>
+    isListType(value) || (isCellLine(value) && isListType((value as Record<string, unknown>).list)),
+  align: oneOf('left', 'center', 'right', 'justify'),
+  direction: oneOf('rtl', 'ltr'),
+  indent: (value) => Number.isInteger(value) && (value as number) >= 0,
+  'table-header': isTrue,
+  cell: (value) => typeof value === 'string' && value !== '',
+  colspan: isSpan,
+  rowspan: isSpan,
+  'col-width': isDimension,
+  'table-cell-line': isCellLine,
+};
+
+/**
+ * Inline formats understood by the bundled renderers, with value validators.
+ */
+export const DEFAULT_INLINE_FORMATS: Record<string, AttributeValidator> = {
+  bold: isTrue,
+  italic: isTrue,
+  underline: isTrue,
+  strike: isTrue,
+  code: isTrue,
+  script: oneOf('sub', 'super'),
+  link: isString,
+  target: isString,
+  rel: isString,
+  color: isValidColor,
+  background: isValidColor,
+  font: isValidFontFamily,
+  size: isValidSize,
+  // Embed attributes
+  alt: isString,
+  width: isDimension,
+  height: isDimension,
+};
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+interface ResolvedSchema {
+  blockAttributes: Record<string, BlockAttributeHandler>;
+  blockValues: Record<string, AttributeValidator>;
+  inlineFormats: Record<string, AttributeValidator>;
+  embeds: Set<string> | undefined;
+}
+
+/**
+ * Check a Delta against a schema and report problems as structured
+ * diagnostics, without throwing. Use it to reject or repair content
+ * before storing it.
+ *
+ * Attributes on ops containing a newline are checked as block attributes
+ * (falling back to inline formats for the text on the same op); attributes
+ * on other ops are checked as inline formats. Values `null` are format
+ * removals and are ignored.
+ *
+ * Returns an empty array for a valid Delta.
+ *
+ * @example
+ * ```ts
+ * import { validateDelta } from 'quill-delta-renderer/common';
+ *
+ * const diagnostics = validateDelta(delta, {
+ *   inlineFormats: { mark: (value) => typeof value === 'string' },
+ *   embeds: ['image', 'video', 'formula'],
+ * });
+ * if (diagnostics.some((d) => d.severity === 'error')) reject(diagnostics);
+ * ```
+ */
+export function validateDelta(delta: Delta, schema?: DeltaSchema): DeltaDiagnostic[] {
+  if (!delta?.ops || !Array.isArray(delta.ops)) {
+    return [
+      {
+        opIndex: -1,
+        severity: 'error',
+        code: 'invalid-delta',
+        message: 'Expected a Delta object with an ops array',
+      },
+    ];
+  }
+
+  const resolved: ResolvedSchema = {
+    blockAttributes: schema?.blockAttributes ?? DEFAULT_BLOCK_ATTRIBUTES,
+    blockValues: { ...DEFAULT_BLOCK_VALUE_VALIDATORS, ...schema?.blockValues },
+    inlineFormats: { ...DEFAULT_INLINE_FORMATS, ...schema?.inlineFormats },
+    embeds: schema?.embeds ? new Set(schema.embeds) : undefined,
+  };
+
+  const diagnostics: DeltaDiagnostic[] = [];
+  let lastInsert = -1;
+
+  delta.ops.forEach((op, opIndex) => {
+    if (validateOp(op, opIndex, resolved, diagnostics)) {
+      lastInsert = opIndex;
+    }
+  });
+
+  const last = delta.ops[lastInsert];
+  if (last && !(typeof last.insert === 'string' && last.insert.endsWith('\n'))) {
+    diagnostics.push({
+      opIndex: lastInsert,
+      severity: 'warning',
+      code: 'missing-trailing-newline',
+      message: 'Content after the final newline is parsed as a trailing paragraph',
+    });
+  }
+
+  return diagnostics;
+}
+
+/** Validate a single op; returns whether it is a non-empty insert. */
+function validateOp(
+  op: DeltaOp,
+  opIndex: number,
+  schema: ResolvedSchema,
+  diagnostics: DeltaDiagnostic[],
+): boolean {
+  if (typeof op !== 'object' || op === null) {
+    diagnostics.push(opDiagnostic(opIndex, 'error', 'invalid-op', 'Op is not an object'));
+    return false;
+  }
+
+  if (op.insert === undefined) {
+    if (typeof op.retain === 'number' || typeof op.delete === 'number') {
+      diagnostics.push(
+        opDiagnostic(opIndex, 'warning', 'non-insert-op', 'Retain and delete ops are ignored'),
+      );
+    } else {
+      diagnostics.push(
+        opDiagnostic(opIndex, 'error', 'invalid-op', 'Op has no insert, retain or delete'),
+      );
+    }
+    return false;
+  }
+
+  const attrs = op.attributes ?? {};
+
+  if (typeof op.insert === 'string') {
+    if (op.insert === '') {
+      diagnostics.push(opDiagnostic(opIndex, 'warning', 'empty-insert', 'Empty string insert'));
+      return false;
+    }
+    validateAttributes(attrs, op.insert.includes('\n'), opIndex, schema, diagnostics);
+    return true;
+  }
+
+  const insert: unknown = op.insert;
+  if (typeof insert !== 'object' || insert === null || Array.isArray(insert)) {
+    diagnostics.push(
+      opDiagnostic(
+        opIndex,
+        'error',
+        'invalid-op',
+        'Insert is neither a string nor an embed object',
+      ),
+    );
+    return false;
+  }
+
+  const embedType = Object.keys(insert)[0];
+  if (embedType === undefined) {
+    diagnostics.push(opDiagnostic(opIndex, 'error', 'empty-embed', 'Embed object has no type key'));
+    return false;
+  }
+  if (schema.embeds && !schema.embeds.has(embedType)) {
+    diagnostics.push(
+      opDiagnostic(opIndex, 'warning', 'unknown-embed', `Unknown embed type "${embedType}"`),
+    );
+  }
+  validateAttributes(attrs, false, opIndex, schema, diagnostics);
+  return true;
+}
+
+function validateAttributes(
+  attrs: Record<string, unknown>,
+  hasNewline: boolean,
+  opIndex: number,
+  schema: ResolvedSchema,
+  diagnostics: DeltaDiagnostic[],
+): void {
+  for (const [name, value] of Object.entries(attrs)) {
+    if (value === null) continue;
+
+    const isBlock = schema.blockAttributes[name] !== undefined;
+    const inline = schema.inlineFormats[name];
+
+    if (isBlock && !hasNewline) {
+      if (!inline) {
+        diagnostics.push({
+          ...opDiagnostic(
+            opIndex,
+            'warning',
+            'block-attribute-on-text',
+            `Block attribute "${name}" on an op without a newline is ignored`,
+          ),
+          attribute: name,
+        });
+        continue;
+      }
+    } else if (isBlock) {
+      validateBlockValue(name, value, opIndex, schema, diagnostics);
+      continue;
+    }
+
+    if (!inline) {
+      diagnostics.push({
+        ...opDiagnostic(opIndex, 'warning', 'unknown-attribute', `Unknown attribute "${name}"`),
+        attribute: name,
+      });
+    } else if (!inline(value)) {
+      diagnostics.push(invalidValue(name, value, opIndex));
+    }
+  }
+}
+
+function validateBlockValue(
+  name: string,
+  value: unknown,
+  opIndex: number,
+  schema: ResolvedSchema,
+  diagnostics: DeltaDiagnostic[],
+): void {
+  if (name === 'table' && !schema.blockValues.table) {
+    if (typeof value !== 'string' || value === '') {
+      diagnostics.push({
+        ...opDiagnostic(opIndex, 'error', 'missing-table-row', 'Table cell has no row id'),
+        attribute: name,
+      });
+    }
+    return;
+  }
+
+  const validator = schema.blockValues[name];
+  if (validator && !validator(value)) {
+    diagnostics.push(invalidValue(name, value, opIndex));
+  }
+}
+
+function opDiagnostic(
+  opIndex: number,
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+): DeltaDiagnostic {
+  return { opIndex, severity, code, message };
+}
+
+function invalidValue(name: string, value: unknown, opIndex: number): DeltaDiagnostic {
+  return {
+    ...opDiagnostic(
+      opIndex,
+      'error',
+      'invalid-attribute-value',
+      `Invalid value ${JSON.stringify(value)} for attribute "${name}"`,
+    ),
+    attribute: name,
+  };
+}
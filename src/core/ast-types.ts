@@ -43,12 +43,31 @@ export type KnownNodeType =
   | 'list'
   | 'list-item'
   | 'table'
+  | 'table-head'
+  | 'table-body'
   | 'table-row'
   | 'table-cell'
   | 'image'
   | 'video'
   | 'formula'
-  | 'mention';
+  | 'mention'
+  | 'section'
+  | 'footnote-ref'
+  | 'footnotes'
+  | 'footnote';
+
+/**
+ * The span of the source delta a node was created from.
+ * Recorded only when {@link ParserConfig.sourceRanges} is enabled.
+ */
+export interface SourceRange {
+  /** Index in `delta.ops` of the first op the node covers */
+  opIndex: number;
+  /** Document index of the node's first character (embeds count as one character) */
+  offset: number;
+  /** Number of document characters covered, including a block's closing newline */
+  length: number;
+}
 
 /**
  * The universal AST node. Decouples Quill's flat delta format from
@@ -70,6 +89,8 @@ export interface TNode {
   data?: string | Record<string, unknown>;
   /** Whether this node represents inline content (text, inline embeds) */
   isInline: boolean;
+  /** Source delta range, present when the parser ran with `sourceRanges` */
+  source?: SourceRange;
 }
 
 // ─── Type Guards ─────────────────────────────────────────────────────────────
@@ -111,6 +132,19 @@ export function isEmbedNode(node: TNode): node is TNode & { data: Record<string,
  */
 export type Transformer = (children: TNode[]) => TNode[];
 
+/**
+ * Whether a transformer may combine `curr` with the adjacent block `prev`
+ * before it (e.g. both are list items). Streaming uses it to hold back a
+ * run of blocks until the run ends, then transforms the run as a whole.
+ *
+ * @example
+ * ```ts
+ * const continuesGallery: RunPredicate = (curr, prev) =>
+ *   curr.type === 'image' && prev.type === 'image';
+ * ```
+ */
+export type RunPredicate = (curr: TNode, prev: TNode) => boolean;
+
 // ─── Parser Types ────────────────────────────────────────────────────────────
 
 /**
@@ -137,6 +171,11 @@ export interface ParserConfig {
    * placed inside a paragraph.
    */
   blockEmbeds?: string[];
+  /**
+   * Record a {@link SourceRange} on every node (`node.source`), mapping it
+   * back to the delta it was parsed from. Off by default.
+   */
+  sourceRanges?: boolean;
 }
 
 // ─── Renderer Types ─────────────────────────────────────────────────────────
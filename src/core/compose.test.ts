@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta } from './ast-types';
+import { composeDeltas } from './compose';
+
+function d(...ops: Delta['ops']): Delta {
+  return { ops };
+}
+
+describe('composeDeltas', () => {
+  it('should return a copy of the base when there are no changes', () => {
+    const base = d({ insert: 'a\n' });
+    const result = composeDeltas(base);
+    expect(result).toEqual(base);
+    expect(result.ops).not.toBe(base.ops);
+  });
+
+  describe('insert', () => {
+    it('should insert at the start, middle and end', () => {
+      const base = d({ insert: 'bd\n' });
+      expect(composeDeltas(base, d({ insert: 'a' }))).toEqual(d({ insert: 'abd\n' }));
+      expect(composeDeltas(base, d({ retain: 1 }, { insert: 'c' }))).toEqual(
+        d({ insert: 'bcd\n' }),
+      );
+      expect(composeDeltas(base, d({ retain: 3 }, { insert: 'e' }))).toEqual(
+        d({ insert: 'bd\ne' }),
+      );
+    });
+
+    it('should insert formatted text and embeds', () => {
+      expect(
+        composeDeltas(
+          d({ insert: 'ab\n' }),
+          d(
+            { retain: 1 },
+            { insert: 'X', attributes: { bold: true } },
+            { insert: { image: 'i.png' } },
+          ),
+        ),
+      ).toEqual(
+        d(
+          { insert: 'a' },
+          { insert: 'X', attributes: { bold: true } },
+          { insert: { image: 'i.png' } },
+          { insert: 'b\n' },
+        ),
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete text across op boundaries', () => {
+      expect(
+        composeDeltas(
+          d({ insert: 'ab' }, { insert: 'cd', attributes: { bold: true } }, { insert: 'ef\n' }),
+          d({ retain: 1 }, { delete: 4 }),
+        ),
+      ).toEqual(d({ insert: 'af\n' }));
+    });
+
+    it('should count an embed as one character', () => {
+      expect(
+        composeDeltas(
+          d({ insert: 'a' }, { insert: { image: 'i.png' } }, { insert: 'b\n' }),
+          d({ retain: 1 }, { delete: 1 }),
+        ),
+      ).toEqual(d({ insert: 'ab\n' }));
+    });
+
+    it('should replace text with a delete followed by an insert', () => {
+      expect(composeDeltas(d({ insert: 'cat\n' }), d({ delete: 1 }, { insert: 'b' }))).toEqual(
+        d({ insert: 'bat\n' }),
+      );
+    });
+  });
+
+  describe('retain', () => {
+    it('should add attributes to retained text', () => {
+      expect(
+        composeDeltas(
+          d({ insert: 'Hello world\n' }),
+          d({ retain: 6 }, { retain: 5, attributes: { bold: true } }),
+        ),
+      ).toEqual(
+        d({ insert: 'Hello ' }, { insert: 'world', attributes: { bold: true } }, { insert: '\n' }),
+      );
+    });
+
+    it('should format a line through its newline', () => {
+      expect(
+        composeDeltas(
+          d({ insert: 'Title\nbody\n' }),
+          d({ retain: 5 }, { retain: 1, attributes: { header: 1 } }),
+        ),
+      ).toEqual(
+        d({ insert: 'Title' }, { insert: '\n', attributes: { header: 1 } }, { insert: 'body\n' }),
+      );
+    });
+
+    it('should overwrite and remove attributes with null', () => {
+      const base = d({ insert: 'ab', attributes: { bold: true, color: 'red' } }, { insert: '\n' });
+      expect(
+        composeDeltas(base, d({ retain: 1, attributes: { bold: null, color: 'blue' } })),
+      ).toEqual(
+        d(
+          { insert: 'a', attributes: { color: 'blue' } },
+          { insert: 'b', attributes: { bold: true, color: 'red' } },
+          { insert: '\n' },
+        ),
+      );
+    });
+
+    it('should drop attribute bags emptied by null', () => {
+      expect(
+        composeDeltas(
+          d({ insert: 'a', attributes: { bold: true } }, { insert: 'b\n' }),
+          d({ retain: 1, attributes: { bold: null } }),
+        ),
+      ).toEqual(d({ insert: 'ab\n' }));
+    });
+  });
+
+  describe('change log', () => {
+    it('should apply several changes in order', () => {
+      const base = d({ insert: 'Hello\n' });
+      const changes = [
+        d({ retain: 5 }, { insert: ' world' }),
+        d({ retain: 6 }, { retain: 5, attributes: { italic: true } }),
+        d({ delete: 6 }),
+        d({ retain: 5, attributes: { italic: null, bold: true } }),
+      ];
+
+      expect(composeDeltas(base, ...changes)).toEqual(
+        d({ insert: 'world', attributes: { bold: true } }, { insert: '\n' }),
+      );
+    });
+
+    it('should compose two changes into one equivalent change', () => {
+      const a = d({ retain: 2 }, { insert: 'X' }, { delete: 1 });
+      const b = d(
+        { retain: 3, attributes: { bold: true } },
+        { retain: 1, attributes: { color: null } },
+      );
+      const combined = composeDeltas(a, b);
+
+      expect(combined).toEqual(
+        d(
+          { retain: 2, attributes: { bold: true } },
+          { insert: 'X', attributes: { bold: true } },
+          { delete: 1 },
+          { retain: 1, attributes: { color: null } },
+        ),
+      );
+
+      const base = d({ insert: 'abcd', attributes: { color: 'red' } }, { insert: '\n' });
+      expect(composeDeltas(base, combined)).toEqual(composeDeltas(base, a, b));
+    });
+  });
+});
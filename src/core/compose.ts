@@ -0,0 +1,236 @@
+import type { Attributes, Delta, DeltaOp } from './ast-types';
+import { attributesEqual } from './delta-ops';
+
+// ─── Op Iterator ────────────────────────────────────────────────────────────
+
+/**
+ * Walks a list of ops, handing out slices of a requested length.
+ * Past the end it yields an infinite retain, so a shorter change
+ * leaves the rest of the document untouched.
+ */
+class OpIterator {
+  private readonly ops: DeltaOp[];
+  private index = 0;
+  private offset = 0;
+
+  constructor(ops: DeltaOp[]) {
+    this.ops = ops;
+  }
+
+  hasNext(): boolean {
+    return this.peekLength() < Infinity;
+  }
+
+  peek(): DeltaOp | undefined {
+    return this.ops[this.index];
+  }
+
+  peekLength(): number {
+    const op = this.ops[this.index];
+    return op ? opLength(op) - this.offset : Infinity;
+  }
+
+  peekType(): 'insert' | 'delete' | 'retain' {
+    const op = this.ops[this.index];
+    if (!op) return 'retain';
+    if (op.insert !== undefined) return 'insert';
+    if (typeof op.delete === 'number') return 'delete';
+    return 'retain';
+  }
+
+  next(length = Infinity): DeltaOp {
+    const op = this.ops[this.index];
+    if (!op) return { retain: Infinity };
+
+    const offset = this.offset;
+    const remaining = opLength(op) - offset;
+    if (length >= remaining) {
+      length = remaining;
+      this.index++;
+      this.offset = 0;
+    } else {
+      this.offset += length;
+    }
+
+    if (typeof op.delete === 'number') return { delete: length };
+
+    const slice: DeltaOp = {};
+    if (op.attributes) slice.attributes = op.attributes;
+    if (typeof op.retain === 'number') {
+      slice.retain = length;
+    } else if (typeof op.insert === 'string') {
+      slice.insert = op.insert.slice(offset, offset + length);
+    } else {
+      slice.insert = op.insert;
+    }
+    return slice;
+  }
+
+  rest(): DeltaOp[] {
+    if (!this.hasNext()) return [];
+    if (this.offset === 0) return this.ops.slice(this.index);
+    const head = this.next();
+    return [head, ...this.ops.slice(this.index)];
+  }
+}
+
+function opLength(op: DeltaOp): number {
+  if (typeof op.delete === 'number') return op.delete;
+  if (typeof op.retain === 'number') return op.retain;
+  return typeof op.insert === 'string' ? op.insert.length : 1;
+}
+
+// ─── Op Builder ─────────────────────────────────────────────────────────────
+
+/**
+ * Append an op, merging it with the previous one where Quill would:
+ * adjacent deletes, and adjacent inserts or retains with equal attributes.
+ * An insert following a delete is placed before it (canonical order).
+ */
+function pushOp(ops: DeltaOp[], op: DeltaOp): void {
+  if (opLength(op) === 0) return;
+
+  let index = ops.length;
+  let last = ops[index - 1];
+
+  if (last && typeof op.delete === 'number' && typeof last.delete === 'number') {
+    ops[index - 1] = { delete: last.delete + op.delete };
+    return;
+  }
+
+  if (last && typeof last.delete === 'number' && op.insert !== undefined) {
+    index--;
+    last = ops[index - 1];
+  }
+
+  if (last && attributesEqual(op.attributes, last.attributes)) {
+    let merged: DeltaOp | undefined;
+    if (typeof op.insert === 'string' && typeof last.insert === 'string') {
+      merged = { insert: last.insert + op.insert };
+    } else if (typeof op.retain === 'number' && typeof last.retain === 'number') {
+      merged = { retain: last.retain + op.retain };
+    }
+    if (merged) {
+      if (op.attributes && Object.keys(op.attributes).length > 0) {
+        merged.attributes = op.attributes;
+      }
+      ops[index - 1] = merged;
+      return;
+    }
+  }
+
+  ops.splice(index, 0, op);
+}
+
+/** Drop a trailing plain retain, which has no effect. */
+function chop(ops: DeltaOp[]): DeltaOp[] {
+  const last = ops[ops.length - 1];
+  if (last && typeof last.retain === 'number' && !last.attributes) {
+    ops.pop();
+  }
+  return ops;
+}
+
+/**
+ * Compose two attribute bags. `null` values in `b` remove the attribute;
+ * they are kept only when `keepNull` is set (composing onto a retain, so
+ * the removal still applies to whatever the retain lands on).
+ */
+function composeAttributes(
+  a: Attributes | undefined,
+  b: Attributes | undefined,
+  keepNull: boolean,
+): Attributes | undefined {
+  const result: Attributes = {};
+
+  for (const [key, value] of Object.entries(b ?? {})) {
+    if (value !== null || keepNull) result[key] = value;
+  }
+  for (const [key, value] of Object.entries(a ?? {})) {
+    if (value !== undefined && b?.[key] === undefined) result[key] = value;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+// ─── Compose ────────────────────────────────────────────────────────────────
+
+function compose(base: DeltaOp[], change: DeltaOp[]): DeltaOp[] {
+  const baseIter = new OpIterator(base);
+  const changeIter = new OpIterator(change);
+  const ops: DeltaOp[] = [];
+
+  // Fast path: copy the untouched prefix covered by a leading plain retain
+  const first = changeIter.peek();
+  if (first && typeof first.retain === 'number' && !first.attributes) {
+    let left = first.retain;
+    while (baseIter.peekType() === 'insert' && baseIter.peekLength() <= left) {
+      left -= baseIter.peekLength();
+      ops.push(baseIter.next());
+    }
+    if (first.retain - left > 0) changeIter.next(first.retain - left);
+  }
+
+  while (baseIter.hasNext() || changeIter.hasNext()) {
+    if (changeIter.peekType() === 'insert') {
+      pushOp(ops, changeIter.next());
+    } else if (baseIter.peekType() === 'delete') {
+      pushOp(ops, baseIter.next());
+    } else {
+      const length = Math.min(baseIter.peekLength(), changeIter.peekLength());
+      const baseOp = baseIter.next(length);
+      const changeOp = changeIter.next(length);
+
+      if (typeof changeOp.retain === 'number') {
+        const isRetain = typeof baseOp.retain === 'number';
+        const op: DeltaOp = isRetain ? { retain: length } : { insert: baseOp.insert };
+        const attributes = composeAttributes(baseOp.attributes, changeOp.attributes, isRetain);
+        if (attributes) op.attributes = attributes;
+        pushOp(ops, op);
+
+        // Nothing left to change: the rest of the base carries over as-is
+        if (!changeIter.hasNext()) {
+          for (const rest of baseIter.rest()) pushOp(ops, rest);
+          return chop(ops);
+        }
+      } else if (typeof changeOp.delete === 'number' && typeof baseOp.retain === 'number') {
+        pushOp(ops, changeOp);
+      }
+      // A delete over a base insert cancels both out
+    }
+  }
+
+  return chop(ops);
+}
+
+/**
+ * Apply change deltas to a base delta using Quill's compose semantics.
+ *
+ * Each change is a list of `retain`, `delete` and `insert` ops applied in
+ * order: `retain` skips (and, with `attributes`, formats) characters,
+ * `delete` removes them and `insert` adds new content. A `null` attribute
+ * value in a formatting retain removes that attribute. Embeds count as
+ * one character.
+ *
+ * Composing a document (insert-only delta) with changes yields a document,
+ * ready for {@link parseDelta}. Composing changes with each other yields a
+ * single equivalent change.
+ *
+ * @example
+ * ```ts
+ * import { composeDeltas } from 'quill-delta-renderer/core';
+ *
+ * const base = { ops: [{ insert: 'Hello world\n' }] };
+ * const change = { ops: [{ retain: 6 }, { retain: 5, attributes: { bold: true } }] };
+ *
+ * composeDeltas(base, change);
+ * // => { ops: [{ insert: 'Hello ' }, { insert: 'world', attributes: { bold: true } }, { insert: '\n' }] }
+ * ```
+ */
+export function composeDeltas(base: Delta, ...changes: Delta[]): Delta {
+  let ops = base.ops;
+  for (const change of changes) {
+    ops = compose(ops, change.ops);
+  }
+  return { ops: ops === base.ops ? [...ops] : ops };
+}
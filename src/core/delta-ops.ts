@@ -0,0 +1,70 @@
+import type { Attributes, DeltaOp } from './ast-types';
+
+/**
+ * Shallow-compare two attribute bags. Missing and empty bags are equal.
+ */
+export function attributesEqual(a: Attributes | undefined, b: Attributes | undefined): boolean {
+  const aKeys = a ? Object.keys(a) : [];
+  const bKeys = b ? Object.keys(b) : [];
+  if (aKeys.length !== bKeys.length) return false;
+
+  for (const key of aKeys) {
+    if (!Object.hasOwn(b!, key)) return false;
+    const av = a![key];
+    const bv = b![key];
+    if (av === bv) continue;
+    if (
+      typeof av === 'object' &&
+      typeof bv === 'object' &&
+      av !== null &&
+      bv !== null &&
+      JSON.stringify(av) === JSON.stringify(bv)
+    ) {
+      continue;
+    }
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Append an insert op to `ops`, merging it into the previous op when both
+ * are string inserts with equal attributes. Empty attribute bags are omitted
+ * so the result matches Quill's canonical op shape.
+ *
+ * Mutates and returns `ops`.
+ *
+ * @example
+ * ```ts
+ * const ops: DeltaOp[] = [];
+ * pushInsert(ops, 'Hello', { bold: true });
+ * pushInsert(ops, ' world', { bold: true });
+ * // => [{ insert: 'Hello world', attributes: { bold: true } }]
+ * ```
+ */
+export function pushInsert(
+  ops: DeltaOp[],
+  insert: string | Record<string, unknown>,
+  attributes?: Attributes,
+): DeltaOp[] {
+  if (insert === '') return ops;
+
+  const attrs = attributes && Object.keys(attributes).length > 0 ? attributes : undefined;
+  const last = ops[ops.length - 1];
+
+  if (
+    typeof insert === 'string' &&
+    last &&
+    typeof last.insert === 'string' &&
+    attributesEqual(last.attributes, attrs)
+  ) {
+    last.insert += insert;
+    return ops;
+  }
+
+  const op: DeltaOp = { insert };
+  if (attrs) op.attributes = { ...attrs };
+  ops.push(op);
+  return ops;
+}
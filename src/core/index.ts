@@ -13,14 +13,23 @@ export type {
   NodeOverrideHandler,
   ParserConfig,
   RendererConfig,
+  RunPredicate,
   SimpleTagMark,
+  SourceRange,
   TNode,
   Transformer,
 } from './ast-types';
 export { isEmbedNode, isTextNode } from './ast-types';
 
 export { BaseRenderer } from './base-renderer';
-export { DeltaParser, parseDelta } from './parser';
+export { composeDeltas } from './compose';
+export { normalizeDelta } from './normalize';
+export { DeltaParser, parseDelta, parseDeltaStream } from './parser';
+export type { ReadableStreamLike, RenderStreamOptions } from './render-stream';
+export { renderStream, toReadableStream } from './render-stream';
 export type { SimpleRendererConfig } from './simple-renderer';
 export { SimpleRenderer } from './simple-renderer';
-export { applyTransformers, composeTransformers } from './transformer';
+export { spanSourceRanges, withSourceSpan } from './source-range';
+export { applyTransformers, applyTransformersStream, composeTransformers } from './transformer';
+export type { NodeContext, NodeTransform, Visitor } from './traversal';
+export { deepTransformer, filterNodes, findAll, mapNodes, visit } from './traversal';
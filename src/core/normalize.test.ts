@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta } from './ast-types';
+import { normalizeDelta } from './normalize';
+
+describe('normalizeDelta', () => {
+  it('should merge adjacent runs with equal attributes', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'Hel' },
+        { insert: 'lo ', attributes: {} },
+        { insert: 'wor', attributes: { bold: true, italic: true } },
+        { insert: 'ld', attributes: { italic: true, bold: true } },
+        { insert: '\n' },
+      ],
+    };
+
+    expect(normalizeDelta(delta)).toEqual({
+      ops: [
+        { insert: 'Hello ' },
+        { insert: 'world', attributes: { bold: true, italic: true } },
+        { insert: '\n' },
+      ],
+    });
+  });
+
+  it('should drop empty inserts, non-insert ops and null attributes', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: '' },
+        { retain: 3 },
+        { insert: 'a', attributes: { color: null, link: undefined } },
+        { delete: 1 },
+        { insert: 'b\n' },
+      ],
+    };
+
+    expect(normalizeDelta(delta)).toEqual({ ops: [{ insert: 'ab\n' }] });
+  });
+
+  it('should sort attribute and embed keys at every depth', () => {
+    const delta: Delta = {
+      ops: [
+        {
+          insert: { mention: { value: 'Ann', id: '7' } },
+          attributes: { width: '10', alt: 'x', data: { z: 1, a: [{ d: 1, c: 2 }] } },
+        },
+        { insert: '\n' },
+      ],
+    };
+
+    const [embed] = normalizeDelta(delta).ops;
+
+    expect(JSON.stringify(embed)).toBe(
+      '{"insert":{"mention":{"id":"7","value":"Ann"}},' +
+        '"attributes":{"alt":"x","data":{"a":[{"c":2,"d":1}],"z":1},"width":"10"}}',
+    );
+  });
+
+  it('should guarantee a trailing newline', () => {
+    expect(normalizeDelta({ ops: [] })).toEqual({ ops: [{ insert: '\n' }] });
+    expect(normalizeDelta({ ops: [{ insert: 'a' }] })).toEqual({ ops: [{ insert: 'a\n' }] });
+    expect(normalizeDelta({ ops: [{ insert: { image: 'x.png' } }] })).toEqual({
+      ops: [{ insert: { image: 'x.png' } }, { insert: '\n' }],
+    });
+  });
+
+  it('should produce identical output for equivalent deltas', () => {
+    const a: Delta = { ops: [{ insert: 'x', attributes: { b: 1, a: 2 } }, { insert: 'y\n' }] };
+    const b: Delta = {
+      ops: [
+        { insert: 'x', attributes: { a: 2, b: 1, c: null } },
+        { insert: 'y' },
+        { insert: '\n' },
+      ],
+    };
+
+    expect(JSON.stringify(normalizeDelta(a))).toBe(JSON.stringify(normalizeDelta(b)));
+  });
+
+  it('should not mutate the input', () => {
+    const delta: Delta = { ops: [{ insert: 'a' }, { insert: 'b' }] };
+    normalizeDelta(delta);
+    expect(delta).toEqual({ ops: [{ insert: 'a' }, { insert: 'b' }] });
+  });
+});
@@ -0,0 +1,75 @@
+import type { Attributes, Delta, DeltaOp } from './ast-types';
+import { pushInsert } from './delta-ops';
+
+/**
+ * Bring a document Delta into canonical form, so that documents differing
+ * only in op layout compare (and hash) equal:
+ *
+ * - adjacent string inserts with equal attributes are merged
+ * - empty string inserts, `retain`/`delete` ops and empty `attributes` are dropped
+ * - `null` and `undefined` attribute values are stripped
+ * - object keys in attributes and embeds are sorted, at every depth
+ * - the document ends with a newline
+ *
+ * Rendering the result gives the same output as rendering the input.
+ *
+ * @example
+ * ```ts
+ * import { normalizeDelta } from 'quill-delta-renderer/core';
+ *
+ * normalizeDelta({
+ *   ops: [
+ *     { insert: 'a', attributes: { italic: true, bold: true } },
+ *     { insert: 'b', attributes: { bold: true, italic: true, color: null } },
+ *     { insert: '', attributes: {} },
+ *   ],
+ * });
+ * // => { ops: [{ insert: 'ab', attributes: { bold: true, italic: true } }, { insert: '\n' }] }
+ * ```
+ */
+export function normalizeDelta(delta: Delta): Delta {
+  const ops: DeltaOp[] = [];
+
+  for (const op of delta.ops) {
+    if (op.insert === undefined) continue;
+
+    const insert = typeof op.insert === 'string' ? op.insert : sortKeys(op.insert);
+    pushInsert(ops, insert, normalizeAttributes(op.attributes));
+  }
+
+  const last = ops[ops.length - 1];
+  if (!(typeof last?.insert === 'string' && last.insert.endsWith('\n'))) {
+    pushInsert(ops, '\n');
+  }
+
+  return { ops };
+}
+
+function normalizeAttributes(attributes: Attributes | undefined): Attributes | undefined {
+  if (!attributes) return undefined;
+
+  const result: Attributes = {};
+  for (const key of Object.keys(attributes).sort()) {
+    const value = attributes[key];
+    if (value !== null && value !== undefined) {
+      result[key] = sortKeys(value);
+    }
+  }
+  return result;
+}
+
+/** Deep-copy a JSON-like value with object keys in sorted order. */
+function sortKeys<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys) as T;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const sorted: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+  }
+  return sorted as T;
+}
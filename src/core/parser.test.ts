@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
-import type { Delta, ParserConfig, Transformer } from './ast-types';
-import { DeltaParser, parseDelta } from './parser';
+import type { Delta, DeltaOp, ParserConfig, TNode, Transformer } from './ast-types';
+import { DeltaParser, parseDelta, parseDeltaStream } from './parser';
 
 /** Empty config — no block attributes, tests pure generic parsing. */
 const EMPTY_CONFIG: ParserConfig = { blockAttributes: {} };
@@ -391,3 +391,147 @@ describe('DeltaParser', () => {
     });
   });
 });
+
+describe('parseDeltaStream', () => {
+  const config: ParserConfig = {
+    blockAttributes: {
+      header: (value) => ({ blockType: 'header', blockAttrs: { header: value } }),
+    },
+    blockEmbeds: ['video'],
+    sourceRanges: true,
+  };
+
+  it('should yield the same blocks as parseDelta', async () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'Title' },
+        { insert: '\n', attributes: { header: 1 } },
+        { insert: 'a\nb' },
+        { insert: { video: 'v.mp4' } },
+        { insert: { image: 'x.png' } },
+        { insert: 'tail' },
+      ],
+    };
+
+    const blocks: TNode[] = [];
+    for await (const block of parseDeltaStream(delta.ops, config)) {
+      blocks.push(block);
+    }
+
+    expect(blocks).toEqual(parseDelta(delta, config).children);
+  });
+
+  it('should yield a block as soon as its newline arrives', async () => {
+    async function* ops(): AsyncGenerator<DeltaOp> {
+      yield { insert: 'first\nsec' };
+      throw new Error('not read yet');
+    }
+
+    const stream = parseDeltaStream(ops(), config);
+    const first = await stream.next();
+
+    expect((first.value as TNode).children[0]!.data).toBe('first');
+  });
+});
+
+describe('parseDelta large documents', () => {
+  it('should parse every line of a newline-heavy op', () => {
+    const lines = Array.from({ length: 10_000 }, (_, i) => `line ${i}`);
+    const ast = parseDelta({ ops: [{ insert: `${lines.join('\n')}\n` }] }, EMPTY_CONFIG);
+
+    expect(ast.children).toHaveLength(10_000);
+    expect(ast.children[9_999]!.children[0]!.data).toBe('line 9999');
+  });
+
+  it('should give each line of a multi-line op its own attributes', () => {
+    const config: ParserConfig = {
+      blockAttributes: {
+        header: (value) => ({ blockType: 'header', blockAttrs: { header: value } }),
+      },
+    };
+    const ast = parseDelta({ ops: [{ insert: 'a\nb\n', attributes: { header: 2 } }] }, config);
+
+    const [first, second] = ast.children;
+    expect(first!.attributes).toEqual({ header: 2 });
+    expect(first!.attributes).not.toBe(second!.attributes);
+  });
+});
+
+describe('parseDelta source ranges', () => {
+  const TRACKING_CONFIG: ParserConfig = {
+    blockAttributes: {
+      header: (value) => ({ blockType: 'header', blockAttrs: { header: value } }),
+    },
+    blockEmbeds: ['video'],
+    sourceRanges: true,
+  };
+
+  it('should not record ranges by default', () => {
+    const ast = parseDelta({ ops: [{ insert: 'Hello\n' }] }, EMPTY_CONFIG);
+    expect('source' in ast.children[0]!).toBe(false);
+    expect('source' in ast.children[0]!.children[0]!).toBe(false);
+  });
+
+  it('should record op index, offset and length for text and blocks', () => {
+    const ast = parseDelta(
+      {
+        ops: [
+          { insert: 'Hello ' },
+          { insert: 'world', attributes: { bold: true } },
+          { insert: '\nTitle' },
+          { insert: '\n', attributes: { header: 1 } },
+        ],
+      },
+      TRACKING_CONFIG,
+    );
+
+    const [paragraph, header] = ast.children;
+    expect(paragraph!.source).toEqual({ opIndex: 0, offset: 0, length: 12 });
+    expect(paragraph!.children.map((c) => c.source)).toEqual([
+      { opIndex: 0, offset: 0, length: 6 },
+      { opIndex: 1, offset: 6, length: 5 },
+    ]);
+    expect(header!.source).toEqual({ opIndex: 2, offset: 12, length: 6 });
+    expect(header!.children[0]!.source).toEqual({ opIndex: 2, offset: 12, length: 5 });
+  });
+
+  it('should start an empty line at the op holding its newline', () => {
+    const ast = parseDelta({ ops: [{ insert: 'a\n' }, { insert: '\n' }] }, TRACKING_CONFIG);
+    expect(ast.children[1]!.source).toEqual({ opIndex: 1, offset: 2, length: 1 });
+  });
+
+  it('should count embeds as one character', () => {
+    const ast = parseDelta(
+      {
+        ops: [
+          { insert: 'ab' },
+          { insert: { image: 'x.png' } },
+          { insert: 'c\n' },
+          { insert: { video: 'v.mp4' } },
+          { insert: 'tail' },
+        ],
+      },
+      TRACKING_CONFIG,
+    );
+
+    const [paragraph, video, trailing] = ast.children;
+    expect(paragraph!.children[1]!.source).toEqual({ opIndex: 1, offset: 2, length: 1 });
+    expect(paragraph!.source).toEqual({ opIndex: 0, offset: 0, length: 5 });
+    expect(video!.source).toEqual({ opIndex: 3, offset: 5, length: 1 });
+    expect(trailing!.source).toEqual({ opIndex: 4, offset: 6, length: 4 });
+  });
+
+  it('should close a paragraph before a block embed without a newline', () => {
+    const ast = parseDelta(
+      { ops: [{ insert: 'ab' }, { insert: { video: 'v.mp4' } }] },
+      TRACKING_CONFIG,
+    );
+    expect(ast.children[0]!.source).toEqual({ opIndex: 0, offset: 0, length: 2 });
+    expect(ast.children[1]!.source).toEqual({ opIndex: 1, offset: 2, length: 1 });
+  });
+
+  it('should skip non-insert ops without advancing the offset', () => {
+    const ast = parseDelta({ ops: [{ retain: 3 }, { insert: 'x\n' }] }, TRACKING_CONFIG);
+    expect(ast.children[0]!.source).toEqual({ opIndex: 1, offset: 0, length: 2 });
+  });
+});
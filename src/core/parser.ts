@@ -1,17 +1,47 @@
-import type { Attributes, Delta, ParserConfig, TNode, Transformer } from './ast-types';
+import type {
+  Attributes,
+  Delta,
+  DeltaOp,
+  ParserConfig,
+  SourceRange,
+  TNode,
+  Transformer,
+} from './ast-types';
 import { applyTransformers } from './transformer';
 
 // ─── Internal Accumulator ───────────────────────────────────────────────────
 
-/** Immutable parse state threaded through each op handler. */
+/**
+ * Parse state shared by the op handlers. It is created and owned by a
+ * single parse, so the handlers append to it in place: parsing
+ * stays linear in the document size and no mutation escapes the call.
+ */
 interface ParseState {
   /** Completed block-level nodes. */
   blocks: TNode[];
   /** Inline nodes waiting for a newline to flush into a block. */
   buffer: TNode[];
+  /** Document index of the next character. */
+  index: number;
+  /** Document index where the current line starts. */
+  lineStart: number;
+  blockAttributes: ParserConfig['blockAttributes'];
+  blockEmbeds: Set<string>;
+  /** Whether to record source ranges (`ParserConfig.sourceRanges`). */
+  track: boolean;
 }
 
-const EMPTY_STATE: ParseState = { blocks: [], buffer: [] };
+function createParseState(config: ParserConfig): ParseState {
+  return {
+    blocks: [],
+    buffer: [],
+    index: 0,
+    lineStart: 0,
+    blockAttributes: config.blockAttributes,
+    blockEmbeds: new Set(config.blockEmbeds ?? []),
+    track: config.sourceRanges === true,
+  };
+}
 
 // ─── Pure Function API ──────────────────────────────────────────────────────
 
@@ -25,6 +55,9 @@ const EMPTY_STATE: ParseState = { blocks: [], buffer: [] };
  * Returns a raw AST — apply transformers separately via {@link applyTransformers}
  * or use {@link parseQuillDelta} for a batteries-included pipeline.
  *
+ * Only `insert` ops are read; `retain` and `delete` ops are skipped. Apply
+ * change deltas to their base document first with {@link composeDeltas}.
+ *
  * @example
  * ```ts
  * import { parseDelta, applyTransformers } from 'quill-delta-renderer/core';
@@ -42,27 +75,15 @@ export function parseDelta(delta: Delta, config: ParserConfig): TNode {
     );
   }
 
-  const blockAttributes = config.blockAttributes;
-  const blockEmbeds = new Set(config.blockEmbeds ?? []);
-
-  let state: ParseState = EMPTY_STATE;
-
-  for (const op of delta.ops) {
-    if (op.insert === undefined) continue;
+  const state = createParseState(config);
 
-    if (typeof op.insert === 'string') {
-      state = processTextOp(state, op.insert, op.attributes ?? {}, blockAttributes);
-    } else {
-      state = processEmbedOp(state, op.insert, op.attributes ?? {}, blockEmbeds);
-    }
+  for (let opIndex = 0; opIndex < delta.ops.length; opIndex++) {
+    processOp(state, delta.ops[opIndex]!, opIndex);
   }
 
   // Flush any remaining inline content as a trailing paragraph
   if (state.buffer.length > 0) {
-    state = {
-      blocks: [...state.blocks, createBlock('paragraph', {}, state.buffer)],
-      buffer: [],
-    };
+    flushLine(state, 'paragraph', {}, delta.ops.length - 1);
   }
 
   return {
@@ -73,6 +94,48 @@ export function parseDelta(delta: Delta, config: ParserConfig): TNode {
   };
 }
 
+/**
+ * Parse a stream of Delta ops, yielding each top-level block of the raw
+ * AST as soon as it is complete — when its terminating newline (or a
+ * block embed) arrives. Content after the last newline is yielded as a
+ * trailing paragraph once the stream ends, as in {@link parseDelta}.
+ *
+ * The yielded blocks equal `parseDelta(delta, config).children`. Only the
+ * current line is held in memory, so documents can be parsed while they
+ * are still being read. Accepts async and sync iterables.
+ *
+ * @example
+ * ```ts
+ * import { parseDeltaStream } from 'quill-delta-renderer/core';
+ *
+ * for await (const block of parseDeltaStream(readOps(file), config)) {
+ *   index(block);
+ * }
+ * ```
+ */
+export async function* parseDeltaStream(
+  ops: AsyncIterable<DeltaOp> | Iterable<DeltaOp>,
+  config: ParserConfig,
+): AsyncGenerator<TNode, void, undefined> {
+  const state = createParseState(config);
+  let opIndex = 0;
+
+  for await (const op of ops) {
+    processOp(state, op, opIndex++);
+
+    if (state.blocks.length > 0) {
+      const completed = state.blocks;
+      state.blocks = [];
+      yield* completed;
+    }
+  }
+
+  if (state.buffer.length > 0) {
+    flushLine(state, 'paragraph', {}, opIndex - 1);
+  }
+  yield* state.blocks;
+}
+
 // ─── Class API (delegates to parseDelta) ────────────────────────────────────
 
 /**
@@ -116,60 +179,102 @@ export class DeltaParser {
   }
 }
 
-// ─── Op Processors (pure — return new state) ────────────────────────────────
+// ─── Op Processors (mutate the parse state) ─────────────────────────────────
 
-function processTextOp(
-  state: ParseState,
-  text: string,
-  attrs: Attributes,
-  blockAttributes: ParserConfig['blockAttributes'],
-): ParseState {
-  const lines = text.split('\n');
-  let { blocks, buffer } = state;
+function processOp(state: ParseState, op: DeltaOp, opIndex: number): void {
+  if (op.insert === undefined) return;
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]!;
+  if (typeof op.insert === 'string') {
+    processTextOp(state, op.insert, op.attributes ?? {}, opIndex);
+  } else {
+    processEmbedOp(state, op.insert, op.attributes ?? {}, opIndex);
+  }
+}
 
-    if (line.length > 0) {
-      buffer = [...buffer, createTextNode(line, attrs, blockAttributes)];
+function processTextOp(state: ParseState, text: string, attrs: Attributes, opIndex: number): void {
+  // Every newline in one op carries the same attributes
+  let blockInfo: BlockInfo | undefined;
+  let start = 0;
+
+  while (true) {
+    const newline = text.indexOf('\n', start);
+    const end = newline === -1 ? text.length : newline;
+
+    if (end > start) {
+      const source = state.track ? rangeAt(opIndex, state.index, end - start) : undefined;
+      state.buffer.push(
+        createTextNode(text.slice(start, end), attrs, state.blockAttributes, source),
+      );
+      state.index += end - start;
     }
 
-    const isNewline = i < lines.length - 1;
-    if (isNewline) {
-      const { blockType, blockAttrs } = extractBlockInfo(attrs, blockAttributes);
-      blocks = [...blocks, createBlock(blockType, blockAttrs, buffer)];
-      buffer = [];
-    }
-  }
+    if (newline === -1) return;
 
-  return { blocks, buffer };
+    blockInfo ??= extractBlockInfo(attrs, state.blockAttributes);
+    state.index += 1;
+    flushLine(state, blockInfo.blockType, { ...blockInfo.blockAttrs }, opIndex);
+    start = newline + 1;
+  }
 }
 
 function processEmbedOp(
   state: ParseState,
   insert: Record<string, unknown>,
   attrs: Attributes,
-  blockEmbeds: Set<string>,
-): ParseState {
-  const embed = parseEmbedOp(insert, attrs);
-
-  if (blockEmbeds.has(embed.type)) {
-    const blocks =
-      state.buffer.length > 0
-        ? [...state.blocks, createBlock('paragraph', {}, state.buffer), embed]
-        : [...state.blocks, embed];
-    return { blocks, buffer: [] };
+  opIndex: number,
+): void {
+  const source = state.track ? rangeAt(opIndex, state.index, 1) : undefined;
+  const embed = parseEmbedOp(insert, attrs, source);
+
+  if (!state.blockEmbeds.has(embed.type)) {
+    state.buffer.push(embed);
+    state.index += 1;
+    return;
   }
 
-  return { blocks: state.blocks, buffer: [...state.buffer, embed] };
+  if (state.buffer.length > 0) {
+    flushLine(state, 'paragraph', {}, opIndex);
+  }
+  state.blocks.push(embed);
+  state.index += 1;
+  state.lineStart = state.index;
+}
+
+/**
+ * Close the current line: move the buffered inline nodes into a new block
+ * ending at `state.index`. The line's source starts at its first buffered
+ * node's op, or at `fallbackOpIndex` (the op closing it) when it is empty.
+ */
+function flushLine(
+  state: ParseState,
+  type: string,
+  attrs: Attributes,
+  fallbackOpIndex: number,
+): void {
+  const source = state.track
+    ? rangeAt(
+        state.buffer[0]?.source?.opIndex ?? fallbackOpIndex,
+        state.lineStart,
+        state.index - state.lineStart,
+      )
+    : undefined;
+
+  state.blocks.push(createBlock(type, attrs, state.buffer, source));
+  state.buffer = [];
+  state.lineStart = state.index;
 }
 
 // ─── Internal Helpers ───────────────────────────────────────────────────────
 
+interface BlockInfo {
+  blockType: string;
+  blockAttrs: Attributes;
+}
+
 function extractBlockInfo(
   attrs: Attributes,
   blockAttributes: ParserConfig['blockAttributes'],
-): { blockType: string; blockAttrs: Attributes } {
+): BlockInfo {
   const blockAttrs: Attributes = {};
   let blockType = 'paragraph';
 
@@ -187,10 +292,15 @@ function extractBlockInfo(
   return { blockType, blockAttrs };
 }
 
+function rangeAt(opIndex: number, offset: number, length: number): SourceRange {
+  return { opIndex, offset, length };
+}
+
 function createTextNode(
   text: string,
   attrs: Attributes,
   blockAttributes: ParserConfig['blockAttributes'],
+  source: SourceRange | undefined,
 ): TNode {
   const inlineAttrs: Attributes = {};
   for (const [key, value] of Object.entries(attrs)) {
@@ -199,16 +309,23 @@ function createTextNode(
     }
   }
 
-  return {
-    type: 'text',
-    attributes: inlineAttrs,
-    children: [],
-    data: text,
-    isInline: true,
-  };
+  return withSource(
+    {
+      type: 'text',
+      attributes: inlineAttrs,
+      children: [],
+      data: text,
+      isInline: true,
+    },
+    source,
+  );
 }
 
-function parseEmbedOp(insert: Record<string, unknown>, attrs: Attributes): TNode {
+function parseEmbedOp(
+  insert: Record<string, unknown>,
+  attrs: Attributes,
+  source: SourceRange | undefined,
+): TNode {
   const entries = Object.entries(insert);
   if (entries.length === 0) {
     throw new TypeError('parseEmbedOp: received an empty embed object with no type key');
@@ -216,20 +333,38 @@ function parseEmbedOp(insert: Record<string, unknown>, attrs: Attributes): TNode
 
   const [embedType, embedData] = entries[0]!;
 
-  return {
-    type: embedType,
-    attributes: attrs,
-    children: [],
-    data: embedData as TNode['data'],
-    isInline: false,
-  };
+  return withSource(
+    {
+      type: embedType,
+      attributes: attrs,
+      children: [],
+      data: embedData as TNode['data'],
+      isInline: false,
+    },
+    source,
+  );
 }
 
-function createBlock(type: string, attrs: Attributes, children: TNode[]): TNode {
-  return {
-    type,
-    attributes: attrs,
-    children: [...children],
-    isInline: false,
-  };
+/** Takes ownership of `children`; callers hand over a fresh array. */
+function createBlock(
+  type: string,
+  attrs: Attributes,
+  children: TNode[],
+  source: SourceRange | undefined,
+): TNode {
+  return withSource(
+    {
+      type,
+      attributes: attrs,
+      children,
+      isInline: false,
+    },
+    source,
+  );
+}
+
+/** Attach a source range only when tracking, so untracked nodes keep their shape. */
+function withSource(node: TNode, source: SourceRange | undefined): TNode {
+  if (source) node.source = source;
+  return node;
 }
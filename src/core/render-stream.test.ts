@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuillDelta } from '../parse-quill-delta';
+import { SemanticHtmlRenderer } from '../renderers/html/semantic/semantic-html-renderer';
+import { MarkdownRenderer } from '../renderers/markdown/markdown-renderer';
+import type { Delta } from './ast-types';
+import { renderStream, toReadableStream } from './render-stream';
+
+const DOCUMENT: Delta = {
+  ops: [
+    { insert: '\nTitle' },
+    { insert: '\n', attributes: { header: 2 } },
+    { insert: 'a' },
+    { insert: '\n', attributes: { list: 'bullet' } },
+    { insert: 'text\n\n\n' },
+  ],
+};
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+}
+
+describe('renderStream', () => {
+  it('should render one chunk per top-level node for HTML', async () => {
+    const renderer = new SemanticHtmlRenderer();
+    const ast = parseQuillDelta(DOCUMENT, { blockMerger: false });
+
+    const chunks = await collect(renderStream(renderer, ast.children));
+
+    expect(chunks).toHaveLength(6);
+    expect(chunks.join('')).toBe(renderer.render(ast));
+  });
+
+  it('should match a whole Markdown render with a newline separator', async () => {
+    const renderer = new MarkdownRenderer();
+    const ast = parseQuillDelta(DOCUMENT, { blockMerger: false });
+
+    const chunks = await collect(renderStream(renderer, ast.children, { separator: '\n' }));
+
+    expect(chunks.join('')).toBe(renderer.render(ast));
+    expect(chunks.every((chunk) => chunk !== '')).toBe(true);
+  });
+});
+
+describe('toReadableStream', () => {
+  it('should expose the chunks as a ReadableStream', async () => {
+    async function* chunks(): AsyncGenerator<string> {
+      yield '<p>a</p>';
+      yield '<p>b</p>';
+    }
+
+    const reader = toReadableStream(chunks()).getReader();
+
+    expect(await reader.read()).toEqual({ value: '<p>a</p>', done: false });
+    expect(await reader.read()).toEqual({ value: '<p>b</p>', done: false });
+    expect(await reader.read()).toEqual({ value: undefined, done: true });
+  });
+});
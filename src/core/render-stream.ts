@@ -0,0 +1,133 @@
+import type { TNode } from './ast-types';
+import type { BaseRenderer } from './base-renderer';
+
+/**
+ * Options for {@link renderStream}.
+ */
+export interface RenderStreamOptions {
+  /**
+   * String the renderer places between top-level blocks when rendering a
+   * whole root. `''` for the HTML renderers, `'\n'` for the Markdown
+   * renderers.
+   * @default ''
+   */
+  separator?: string;
+}
+
+/**
+ * Render a stream of top-level nodes into string chunks, one chunk per
+ * node, so output can be flushed while the document is still being parsed.
+ *
+ * Each node is rendered as the only child of a root, so root-level node
+ * overrides still apply. Empty chunks are held back until a non-empty one
+ * follows: trailing empty blocks are dropped, as the Markdown renderers
+ * do when rendering a whole root. Joined, the chunks equal
+ * `renderer.render(root)` for any string renderer whose root output is
+ * its children joined by `separator`.
+ *
+ * That excludes Markdown renderers with `linkStyle: 'reference'` or
+ * `'collapsed'`: link definitions are collected per render, so each chunk
+ * ends with its own definitions and numbered labels restart at `[1]`,
+ * giving conflicting definitions once joined. Stream with the default
+ * `'inline'` link style.
+ *
+ * @example
+ * ```ts
+ * import { renderStream } from 'quill-delta-renderer/core';
+ * import { streamQuillDelta } from 'quill-delta-renderer';
+ * import { SemanticHtmlRenderer } from 'quill-delta-renderer/html';
+ *
+ * for await (const chunk of renderStream(new SemanticHtmlRenderer(), streamQuillDelta(ops))) {
+ *   response.write(chunk);
+ * }
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Markdown renderers put a newline between blocks
+ * renderStream(new MarkdownRenderer(), nodes, { separator: '\n' });
+ * ```
+ */
+export async function* renderStream(
+  renderer: BaseRenderer<string>,
+  nodes: AsyncIterable<TNode> | Iterable<TNode>,
+  options?: RenderStreamOptions,
+): AsyncGenerator<string, void, undefined> {
+  const separator = options?.separator ?? '';
+  let pending = '';
+  let first = true;
+
+  for await (const node of nodes) {
+    const chunk = renderer.render({
+      type: 'root',
+      attributes: {},
+      children: [node],
+      isInline: false,
+    });
+
+    pending += first ? chunk : separator + chunk;
+    first = false;
+
+    if (chunk !== '') {
+      yield pending;
+      pending = '';
+    }
+  }
+}
+
+/**
+ * The part of the WHATWG `ReadableStream` API returned by
+ * {@link toReadableStream}, typed structurally so the library does not
+ * depend on the DOM types. The object is the platform's `ReadableStream`;
+ * cast it with `as ReadableStream<T>` where the DOM or Node types are
+ * loaded.
+ */
+export interface ReadableStreamLike<T> {
+  readonly locked: boolean;
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: T }>;
+    releaseLock(): void;
+  };
+  cancel(reason?: unknown): Promise<void>;
+}
+
+interface ReadableStreamSource<T> {
+  pull(controller: { enqueue(chunk: T): void; close(): void }): Promise<void>;
+  cancel(reason: unknown): Promise<void>;
+}
+
+type ReadableStreamConstructor = new <T>(source: ReadableStreamSource<T>) => ReadableStreamLike<T>;
+
+/**
+ * Wrap an async iterable (such as the generator returned by
+ * {@link renderStream}) in a WHATWG `ReadableStream`, for APIs like
+ * `new Response(stream)`. Reading is pulled on demand; cancelling the
+ * stream stops the iterable.
+ *
+ * @example
+ * ```ts
+ * const html = renderStream(new SemanticHtmlRenderer(), streamQuillDelta(ops));
+ * const stream = toReadableStream(html) as ReadableStream<string>;
+ * return new Response(stream.pipeThrough(new TextEncoderStream()), {
+ *   headers: { 'content-type': 'text/html' },
+ * });
+ * ```
+ */
+export function toReadableStream<T>(chunks: AsyncIterable<T>): ReadableStreamLike<T> {
+  const { ReadableStream } = globalThis as unknown as { ReadableStream: ReadableStreamConstructor };
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+}
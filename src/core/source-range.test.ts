@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { SourceRange, TNode } from './ast-types';
+import { spanSourceRanges, withSourceSpan } from './source-range';
+
+function block(source?: SourceRange, children: TNode[] = []): TNode {
+  const node: TNode = { type: 'paragraph', attributes: {}, children, isInline: false };
+  if (source) node.source = source;
+  return node;
+}
+
+describe('spanSourceRanges', () => {
+  it('should return undefined when no node has a range', () => {
+    expect(spanSourceRanges([block(), block()])).toBeUndefined();
+    expect(spanSourceRanges([])).toBeUndefined();
+  });
+
+  it('should span from the earliest start to the latest end', () => {
+    const span = spanSourceRanges([
+      block({ opIndex: 4, offset: 10, length: 3 }),
+      block({ opIndex: 1, offset: 2, length: 4 }),
+    ]);
+    expect(span).toEqual({ opIndex: 1, offset: 2, length: 11 });
+  });
+
+  it('should include block descendants but not inline children', () => {
+    const inline: TNode = {
+      type: 'text',
+      attributes: {},
+      children: [],
+      data: 'x',
+      isInline: true,
+      source: { opIndex: 9, offset: 100, length: 1 },
+    };
+    const nested = block({ opIndex: 2, offset: 5, length: 5 });
+    const span = spanSourceRanges([block({ opIndex: 0, offset: 0, length: 5 }, [inline, nested])]);
+    expect(span).toEqual({ opIndex: 0, offset: 0, length: 10 });
+  });
+});
+
+describe('withSourceSpan', () => {
+  it('should attach the span of the node children', () => {
+    const node = withSourceSpan(block(undefined, [block({ opIndex: 0, offset: 0, length: 2 })]));
+    expect(node.source).toEqual({ opIndex: 0, offset: 0, length: 2 });
+  });
+
+  it('should leave the node untouched without ranges', () => {
+    const node = withSourceSpan(block(undefined, [block()]));
+    expect('source' in node).toBe(false);
+  });
+});
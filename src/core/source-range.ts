@@ -0,0 +1,59 @@
+import type { SourceRange, TNode } from './ast-types';
+
+/**
+ * Compute the source range spanning a list of nodes, for container nodes
+ * created by transformers. Block-level descendants are included, so a list
+ * item's nested sub-list extends the span.
+ *
+ * Returns `undefined` when no node carries a source range (the parser ran
+ * without `sourceRanges`), so containers stay free of the field.
+ *
+ * @example
+ * ```ts
+ * const row: TNode = { type: 'table-row', attributes: {}, children: cells, isInline: false };
+ * const source = spanSourceRanges(cells);
+ * if (source) row.source = source;
+ * ```
+ */
+export function spanSourceRanges(nodes: TNode[]): SourceRange | undefined {
+  let span: SourceRange | undefined;
+
+  const visit = (node: TNode): void => {
+    const range = node.source;
+    if (range) {
+      if (!span) {
+        span = { ...range };
+      } else {
+        const end = Math.max(span.offset + span.length, range.offset + range.length);
+        if (range.offset < span.offset) {
+          span.offset = range.offset;
+          span.opIndex = range.opIndex;
+        }
+        span.length = end - span.offset;
+      }
+    }
+    for (const child of node.children) {
+      if (!child.isInline) visit(child);
+    }
+  };
+
+  for (const node of nodes) visit(node);
+  return span;
+}
+
+/**
+ * Attach the span of `nodes` (the node's own children by default) to a
+ * container node. Leaves the node untouched when nothing carries a range.
+ *
+ * @example
+ * ```ts
+ * function createRow(cells: TNode[]): TNode {
+ *   return withSourceSpan({ type: 'table-row', attributes: {}, children: cells, isInline: false });
+ * }
+ * ```
+ */
+export function withSourceSpan(node: TNode, nodes: TNode[] = node.children): TNode {
+  const source = spanSourceRanges(nodes);
+  if (source) node.source = source;
+  return node;
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import type { TNode, Transformer } from './ast-types';
-import { applyTransformers, composeTransformers } from './transformer';
+import { applyTransformers, applyTransformersStream, composeTransformers } from './transformer';
 
 function makeRoot(children: TNode[]): TNode {
   return {
@@ -74,3 +74,34 @@ describe('composeTransformers', () => {
     expect(result[1]!.children[0]!.data).toBe('B');
   });
 });
+
+describe('applyTransformersStream', () => {
+  const joinRuns: Transformer = (children) => [
+    makeTextBlock(children.map((c) => c.children[0]!.data).join('+')),
+  ];
+  const sameLetter = (curr: TNode, prev: TNode) =>
+    String(curr.children[0]!.data)[0] === String(prev.children[0]!.data)[0];
+
+  it('should transform each run as a whole', async () => {
+    const blocks = ['a1', 'a2', 'b1', 'a3'].map(makeTextBlock);
+    const result: TNode[] = [];
+    for await (const node of applyTransformersStream(blocks, [joinRuns], sameLetter)) {
+      result.push(node);
+    }
+
+    expect(result.map((n) => n.children[0]!.data)).toEqual(['a1+a2', 'b1', 'a3']);
+  });
+
+  it('should yield a run before the rest of the stream arrives', async () => {
+    async function* source(): AsyncGenerator<TNode> {
+      yield makeTextBlock('a1');
+      yield makeTextBlock('b1');
+      throw new Error('not read yet');
+    }
+
+    const stream = applyTransformersStream(source(), [joinRuns], sameLetter);
+    const first = await stream.next();
+
+    expect((first.value as TNode).children[0]!.data).toBe('a1');
+  });
+});
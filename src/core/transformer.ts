@@ -1,4 +1,4 @@
-import type { TNode, Transformer } from './ast-types';
+import type { RunPredicate, TNode, Transformer } from './ast-types';
 
 /**
  * Runs a sequence of transformers against an AST root node.
@@ -32,3 +32,44 @@ export function composeTransformers(...transformers: Transformer[]): Transformer
   return (children: TNode[]) =>
     transformers.reduce((currentChildren, transformer) => transformer(currentChildren), children);
 }
+
+/**
+ * Streaming counterpart of {@link applyTransformers}: runs the transformers
+ * over a stream of top-level blocks, yielding results as soon as they are
+ * final.
+ *
+ * Blocks are collected into runs while `continuesRun` holds for each block
+ * and the one before it; each run is transformed as a whole once the next
+ * block starts a new run (or the stream ends). The output equals
+ * `applyTransformers` over all blocks as long as `continuesRun` covers
+ * every pair of adjacent blocks the transformers may combine.
+ *
+ * @example
+ * ```ts
+ * const isItem = (node: TNode) => node.type === 'list-item';
+ * const nodes = applyTransformersStream(parseDeltaStream(ops, config), [listGrouper], (curr, prev) =>
+ *   isItem(curr) && isItem(prev),
+ * );
+ * ```
+ */
+export async function* applyTransformersStream(
+  blocks: AsyncIterable<TNode> | Iterable<TNode>,
+  transformers: Transformer[],
+  continuesRun: RunPredicate,
+): AsyncGenerator<TNode, void, undefined> {
+  const transform = composeTransformers(...transformers);
+  let run: TNode[] = [];
+
+  for await (const block of blocks) {
+    const prev = run[run.length - 1];
+    if (prev && !continuesRun(block, prev)) {
+      yield* transform(run);
+      run = [];
+    }
+    run.push(block);
+  }
+
+  if (run.length > 0) {
+    yield* transform(run);
+  }
+}
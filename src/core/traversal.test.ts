@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { TNode } from './ast-types';
+import { deepTransformer, filterNodes, findAll, mapNodes, visit } from './traversal';
+
+function text(data: string, attributes: Record<string, unknown> = {}): TNode {
+  return { type: 'text', attributes, children: [], data, isInline: true };
+}
+
+function block(type: string, children: TNode[]): TNode {
+  return { type, attributes: {}, children, isInline: false };
+}
+
+/** root > [paragraph > [a, b], list > [list-item > [c]]] */
+function makeTree(): TNode {
+  return block('root', [
+    block('paragraph', [text('a', { bold: true }), text('b')]),
+    block('list', [block('list-item', [text('c', { link: 'https://x.y' })])]),
+  ]);
+}
+
+describe('visit', () => {
+  it('should call enter and leave in document order with context', () => {
+    const events: string[] = [];
+    visit(makeTree(), {
+      enter(node, { parent, index, ancestors }) {
+        events.push(
+          `>${node.data ?? node.type}:${parent?.type ?? '-'}:${index}:${ancestors.length}`,
+        );
+      },
+      leave(node) {
+        events.push(`<${node.data ?? node.type}`);
+      },
+    });
+
+    expect(events).toEqual([
+      '>root:-:-1:0',
+      '>paragraph:root:0:1',
+      '>a:paragraph:0:2',
+      '<a',
+      '>b:paragraph:1:2',
+      '<b',
+      '<paragraph',
+      '>list:root:1:1',
+      '>list-item:list:0:2',
+      '>c:list-item:0:3',
+      '<c',
+      '<list-item',
+      '<list',
+      '<root',
+    ]);
+  });
+
+  it('should skip children when enter returns false', () => {
+    const seen: string[] = [];
+    visit(makeTree(), {
+      enter(node) {
+        seen.push(node.type);
+        return node.type !== 'list';
+      },
+    });
+    expect(seen).toEqual(['root', 'paragraph', 'text', 'text', 'list']);
+  });
+});
+
+describe('findAll', () => {
+  it('should collect matching nodes at any depth', () => {
+    const found = findAll(makeTree(), (node) => node.type === 'text' && !!node.attributes.link);
+    expect(found.map((n) => n.data)).toEqual(['c']);
+  });
+
+  it('should expose ancestors to the predicate', () => {
+    const inLists = findAll(makeTree(), (_node, { ancestors }) =>
+      ancestors.some((a) => a.type === 'list'),
+    );
+    expect(inLists.map((n) => n.data ?? n.type)).toEqual(['list-item', 'c']);
+  });
+});
+
+describe('mapNodes', () => {
+  it('should return a mapped copy without mutating the input', () => {
+    const tree = makeTree();
+    const upper = mapNodes(tree, (node) =>
+      node.type === 'text' ? { ...node, data: String(node.data).toUpperCase() } : node,
+    );
+
+    expect(findAll(upper, (n) => n.type === 'text').map((n) => n.data)).toEqual(['A', 'B', 'C']);
+    expect(findAll(tree, (n) => n.type === 'text').map((n) => n.data)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should share unchanged subtrees', () => {
+    const tree = makeTree();
+    const mapped = mapNodes(tree, (node) =>
+      node.type === 'text' && node.data === 'c' ? { ...node, data: 'C' } : node,
+    );
+
+    expect(mapped).not.toBe(tree);
+    expect(mapped.children[0]).toBe(tree.children[0]);
+    expect(mapped.children[1]).not.toBe(tree.children[1]);
+  });
+});
+
+describe('filterNodes', () => {
+  it('should drop matching nodes with their subtrees', () => {
+    const tree = makeTree();
+    const filtered = filterNodes(tree, (node) => node.type !== 'list' && node.data !== 'b');
+
+    expect(filtered.children).toHaveLength(1);
+    expect(filtered.children[0]!.children.map((n) => n.data)).toEqual(['a']);
+    expect(tree.children).toHaveLength(2);
+  });
+
+  it('should return the input when nothing is removed', () => {
+    const tree = makeTree();
+    expect(filterNodes(tree, () => true)).toBe(tree);
+  });
+});
+
+describe('deepTransformer', () => {
+  it('should replace, splice and remove nodes at every depth', () => {
+    const transformer = deepTransformer((node) => {
+      if (node.data === 'a') return null;
+      if (node.data === 'c') return [text('c1'), text('c2')];
+      if (node.type === 'paragraph') return { ...node, attributes: { align: 'center' } };
+      return node;
+    });
+
+    const [paragraph, list] = transformer(makeTree().children);
+
+    expect(paragraph!.attributes).toEqual({ align: 'center' });
+    expect(paragraph!.children.map((n) => n.data)).toEqual(['b']);
+    expect(list!.children[0]!.children.map((n) => n.data)).toEqual(['c1', 'c2']);
+  });
+
+  it('should pass top-level nodes a null parent', () => {
+    const parents: Array<string | null> = [];
+    deepTransformer((node, { parent }) => {
+      if (!node.isInline) parents.push(parent?.type ?? null);
+      return node;
+    })(makeTree().children);
+
+    expect(parents).toEqual([null, 'list', null]);
+  });
+});
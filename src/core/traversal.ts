@@ -0,0 +1,190 @@
+import type { TNode, Transformer } from './ast-types';
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Where a node sits in the tree, passed to traversal callbacks.
+ */
+export interface NodeContext {
+  /** The node's parent, or `null` for the node traversal started at (and top-level nodes in {@link deepTransformer}) */
+  parent: TNode | null;
+  /** The node's index among its siblings (`-1` for the node traversal started at) */
+  index: number;
+  /** Ancestors from the outermost down to `parent` */
+  ancestors: readonly TNode[];
+}
+
+/**
+ * Callbacks for {@link visit}. `enter` runs before a node's children,
+ * `leave` after them. Returning `false` from `enter` skips the children
+ * (and the node's `leave`).
+ */
+export interface Visitor {
+  enter?: (node: TNode, context: NodeContext) => unknown;
+  leave?: (node: TNode, context: NodeContext) => void;
+}
+
+/**
+ * A per-node replacement function for {@link deepTransformer}. Return the
+ * node (or a replacement), an array of nodes to splice in its place, or
+ * `null` to remove it.
+ */
+export type NodeTransform = (node: TNode, context: NodeContext) => TNode | TNode[] | null;
+
+const ROOT_CONTEXT: NodeContext = { parent: null, index: -1, ancestors: [] };
+
+function childContext(parent: TNode, index: number, context: NodeContext): NodeContext {
+  return { parent, index, ancestors: [...context.ancestors, parent] };
+}
+
+// ─── Visit ──────────────────────────────────────────────────────────────────
+
+/**
+ * Walk a tree depth-first in document order, calling `visitor.enter` on
+ * the way down and `visitor.leave` on the way up.
+ *
+ * @example
+ * ```ts
+ * visit(ast, {
+ *   enter(node, { ancestors }) {
+ *     if (node.type === 'table') return false; // skip tables
+ *     if (node.type === 'text') console.log(ancestors.length, node.data);
+ *   },
+ * });
+ * ```
+ */
+export function visit(root: TNode, visitor: Visitor): void {
+  walk(root, ROOT_CONTEXT, visitor);
+}
+
+function walk(node: TNode, context: NodeContext, visitor: Visitor): void {
+  if (visitor.enter?.(node, context) === false) return;
+
+  node.children.forEach((child, index) => {
+    walk(child, childContext(node, index, context), visitor);
+  });
+
+  visitor.leave?.(node, context);
+}
+
+// ─── Queries ────────────────────────────────────────────────────────────────
+
+/**
+ * Collect every node (the root included) matching `predicate`, in
+ * document order.
+ *
+ * @example
+ * ```ts
+ * const links = findAll(ast, (node) => node.type === 'text' && !!node.attributes.link);
+ * ```
+ */
+export function findAll(
+  root: TNode,
+  predicate: (node: TNode, context: NodeContext) => boolean,
+): TNode[] {
+  const found: TNode[] = [];
+  visit(root, {
+    enter(node, context) {
+      if (predicate(node, context)) found.push(node);
+    },
+  });
+  return found;
+}
+
+// ─── Immutable Rewrites ─────────────────────────────────────────────────────
+
+/**
+ * Return a copy of the tree with every node replaced by `fn(node)`.
+ * Children are mapped before their parent, so `fn` receives a node whose
+ * children are already mapped; `context` refers to the original tree.
+ * Subtrees where nothing changes are shared with the input.
+ *
+ * @example
+ * ```ts
+ * const upper = mapNodes(ast, (node) =>
+ *   node.type === 'text' ? { ...node, data: String(node.data).toUpperCase() } : node,
+ * );
+ * ```
+ */
+export function mapNodes(root: TNode, fn: (node: TNode, context: NodeContext) => TNode): TNode {
+  return rewrite(root, ROOT_CONTEXT, fn) as TNode;
+}
+
+/**
+ * Return a copy of the tree without the nodes (and their subtrees) for
+ * which `predicate` is false. The root itself is always kept.
+ *
+ * @example
+ * ```ts
+ * const withoutImages = filterNodes(ast, (node) => node.type !== 'image');
+ * ```
+ */
+export function filterNodes(
+  root: TNode,
+  predicate: (node: TNode, context: NodeContext) => boolean,
+): TNode {
+  return filterTree(root, ROOT_CONTEXT, predicate);
+}
+
+/**
+ * Turn a per-node function into a {@link Transformer} that applies it to
+ * every node at every depth, children first. The function may return a
+ * replacement node, an array of nodes to splice in, or `null` to remove
+ * the node. Top-level nodes get a `null` parent.
+ *
+ * @example
+ * ```ts
+ * const redactEmails = deepTransformer((node) =>
+ *   node.type === 'text' ? { ...node, data: String(node.data).replace(EMAIL, '[email]') } : node,
+ * );
+ * const ast = parseQuillDelta(delta, { extraTransformers: [redactEmails] });
+ * ```
+ */
+export function deepTransformer(fn: NodeTransform): Transformer {
+  return (children: TNode[]): TNode[] => {
+    const result: TNode[] = [];
+    children.forEach((child, index) => {
+      const replaced = rewrite(child, { ...ROOT_CONTEXT, index }, fn);
+      if (Array.isArray(replaced)) result.push(...replaced);
+      else if (replaced) result.push(replaced);
+    });
+    return result;
+  };
+}
+
+/** Rewrite one node, children first. */
+function rewrite(node: TNode, context: NodeContext, fn: NodeTransform): TNode | TNode[] | null {
+  let changed = false;
+  const children: TNode[] = [];
+
+  node.children.forEach((child, index) => {
+    const replaced = rewrite(child, childContext(node, index, context), fn);
+    if (replaced !== child) changed = true;
+    if (Array.isArray(replaced)) children.push(...replaced);
+    else if (replaced) children.push(replaced);
+  });
+
+  return fn(changed ? { ...node, children } : node, context);
+}
+
+function filterTree(
+  node: TNode,
+  context: NodeContext,
+  predicate: (node: TNode, context: NodeContext) => boolean,
+): TNode {
+  let changed = false;
+  const children: TNode[] = [];
+
+  node.children.forEach((child, index) => {
+    const childCtx = childContext(node, index, context);
+    if (!predicate(child, childCtx)) {
+      changed = true;
+      return;
+    }
+    const kept = filterTree(child, childCtx, predicate);
+    if (kept !== child) changed = true;
+    children.push(kept);
+  });
+
+  return changed ? { ...node, children } : node;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './parse-html';
+
+describe('parseHtml', () => {
+  it('should parse nested elements and text', () => {
+    expect(parseHtml('<p>Hi <b>there</b></p>')).toEqual([
+      {
+        kind: 'element',
+        tag: 'p',
+        attrs: {},
+        children: [
+          { kind: 'text', text: 'Hi ' },
+          {
+            kind: 'element',
+            tag: 'b',
+            attrs: {},
+            children: [{ kind: 'text', text: 'there' }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should parse quoted, unquoted and boolean attributes', () => {
+    const [el] = parseHtml(`<iframe src="a.mp4" width='10' height=20 allowfullscreen></iframe>`);
+    expect(el).toMatchObject({
+      tag: 'iframe',
+      attrs: { src: 'a.mp4', width: '10', height: '20', allowfullscreen: '' },
+    });
+  });
+
+  it('should lower-case tag and attribute names', () => {
+    const [el] = parseHtml('<P CLASS="x">a</P>');
+    expect(el).toMatchObject({ tag: 'p', attrs: { class: 'x' } });
+  });
+
+  it('should decode entities in text and attribute values', () => {
+    const [el] = parseHtml('<a href="?a=1&amp;b=2">&lt;tag&gt; &#39;q&#x27; &nbsp;</a>');
+    expect(el).toMatchObject({
+      attrs: { href: '?a=1&b=2' },
+      children: [{ kind: 'text', text: "<tag> 'q'  " }],
+    });
+  });
+
+  it('should treat void and self-closing elements as leaves', () => {
+    const [p] = parseHtml('<p>a<br>b<br/>c<img src="x"></p>');
+    expect(p).toMatchObject({ tag: 'p' });
+    expect(
+      p?.kind === 'element' && p.children.map((c) => (c.kind === 'text' ? c.text : c.tag)),
+    ).toEqual(['a', 'br', 'b', 'br', 'c', 'img']);
+  });
+
+  it('should skip comments, doctypes and script content', () => {
+    const nodes = parseHtml('<!DOCTYPE html><!-- note --><script>var a = "<p>";</script><p>x</p>');
+    expect(nodes).toHaveLength(2);
+    expect(nodes[1]).toMatchObject({ tag: 'p', children: [{ kind: 'text', text: 'x' }] });
+  });
+
+  it('should implicitly close list items and table cells', () => {
+    const [ul] = parseHtml('<ul><li>one<li>two</ul>');
+    expect(ul?.kind === 'element' && ul.children).toHaveLength(2);
+
+    const [table] = parseHtml('<table><tr><td>a<td>b<tr><td>c</table>');
+    expect(table?.kind === 'element' && table.children).toHaveLength(2);
+  });
+
+  it('should close up to the nearest matching ancestor on mismatched end tags', () => {
+    const nodes = parseHtml('<p><b>bold</p><p>after</p>');
+    expect(nodes).toHaveLength(2);
+  });
+
+  it('should keep a stray < as literal text', () => {
+    expect(parseHtml('a < b')).toEqual([{ kind: 'text', text: 'a < b' }]);
+  });
+});
@@ -0,0 +1,162 @@
+import type { HtmlElement, HtmlNode } from '../types/html-node';
+import { decodeEntities } from './decode-entities';
+
+/** Elements that never have children or a closing tag. */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/** Elements whose content is raw text and is dropped by the importer. */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'template', 'title']);
+
+/**
+ * Elements implicitly closed when a sibling of one of the listed tags opens,
+ * mirroring the most common HTML optional-end-tag rules.
+ */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ['li'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  tr: ['tr', 'td', 'th'],
+  p: ['p'],
+};
+
+const TAG_PATTERN =
+  /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s/>=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/y;
+
+const ATTR_PATTERN = /([^\s/>=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    const name = match[1]!.toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attrs[name] = decodeEntities(value);
+  }
+  return attrs;
+}
+
+function createElement(tag: string, attrs: Record<string, string>): HtmlElement {
+  return { kind: 'element', tag, attrs, children: [] };
+}
+
+/**
+ * Parse an HTML string into a lightweight element tree without a DOM.
+ *
+ * This is a forgiving tokenizer, not a spec-complete HTML5 parser: it
+ * understands tags, quoted/unquoted/boolean attributes, void elements,
+ * comments, doctypes and the common optional end tags (`li`, `td`, `tr`,
+ * `p`). Mismatched closing tags close up to the nearest matching ancestor
+ * and unmatched ones are ignored. That is enough for markup produced by
+ * rich-text editors and by this library's HTML renderers.
+ *
+ * Returns the top-level nodes of the fragment.
+ *
+ * @example
+ * ```ts
+ * parseHtml('<p>Hi <b>there</b></p>');
+ * // => [{ kind: 'element', tag: 'p', attrs: {}, children: [...] }]
+ * ```
+ */
+export function parseHtml(html: string): HtmlNode[] {
+  const root = createElement('#root', {});
+  const stack: HtmlElement[] = [root];
+  let pos = 0;
+
+  const current = () => stack[stack.length - 1]!;
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const siblings = current().children;
+    const last = siblings[siblings.length - 1];
+    const decoded = decodeEntities(text);
+    if (last?.kind === 'text') {
+      last.text += decoded;
+    } else {
+      siblings.push({ kind: 'text', text: decoded });
+    }
+  };
+
+  const closeTo = (tag: string): void => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i]!.tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(html.slice(pos));
+      break;
+    }
+    if (lt > pos) {
+      appendText(html.slice(pos, lt));
+      pos = lt;
+    }
+
+    // Comments, doctypes and processing instructions
+    if (html.startsWith('<!--', pos)) {
+      const end = html.indexOf('-->', pos + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith('<!', pos) || html.startsWith('<?', pos)) {
+      const end = html.indexOf('>', pos);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = pos;
+    const match = TAG_PATTERN.exec(html);
+    if (!match) {
+      // A stray `<` is literal text
+      appendText('<');
+      pos++;
+      continue;
+    }
+
+    pos += match[0].length;
+    const isClosing = match[1] === '/';
+    const tag = match[2]!.toLowerCase();
+
+    if (isClosing) {
+      closeTo(tag);
+      continue;
+    }
+
+    const implicit = IMPLICIT_CLOSE[tag];
+    while (implicit && stack.length > 1 && implicit.includes(current().tag)) {
+      stack.pop();
+    }
+
+    const element = createElement(tag, parseAttributes(match[3] ?? ''));
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const closing = html.slice(pos).search(new RegExp(`</${tag}\\s*>`, 'i'));
+      pos = closing === -1 ? html.length : html.indexOf('>', pos + closing) + 1;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && match[4] !== '/') {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
@@ -0,0 +1,112 @@
+import type { Attributes } from '../../../core/ast-types';
+import type { HtmlElement } from '../types/html-node';
+
+/** Element tags that map directly onto a boolean or valued inline format. */
+const TAG_FORMATS: Record<string, Attributes> = {
+  strong: { bold: true },
+  b: { bold: true },
+  em: { italic: true },
+  i: { italic: true },
+  u: { underline: true },
+  ins: { underline: true },
+  s: { strike: true },
+  strike: { strike: true },
+  del: { strike: true },
+  code: { code: true },
+  sub: { script: 'sub' },
+  sup: { script: 'super' },
+};
+
+/** Split an element's `class` attribute into individual class names. */
+export function getClassList(el: HtmlElement): string[] {
+  const value = el.attrs.class;
+  return value ? value.split(/\s+/).filter(Boolean) : [];
+}
+
+/** Parse an inline `style` attribute into a property → value map. */
+export function parseStyle(style: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!style) return result;
+
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const prop = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (prop && value) result[prop] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the inline formats an element contributes to the text inside it.
+ *
+ * Inverts the element marks (`<strong>`, `<a href>`, `<sub>`, ...) and the
+ * attributors (`style="color:..."`, `ql-font-*`, `ql-size-*`,
+ * `ql-background-*`) emitted by the HTML renderers.
+ */
+export function resolveInlineAttrs(el: HtmlElement, prefix: string): Attributes {
+  const attrs: Attributes = { ...TAG_FORMATS[el.tag] };
+
+  if (el.tag === 'a' && el.attrs.href !== undefined) {
+    attrs.link = el.attrs.href;
+  }
+
+  const style = parseStyle(el.attrs.style);
+  if (style.color) attrs.color = style.color;
+  if (style['background-color']) attrs.background = style['background-color'];
+
+  for (const cls of getClassList(el)) {
+    for (const format of ['font', 'size', 'background']) {
+      const classPrefix = `${prefix}-${format}-`;
+      if (cls.startsWith(classPrefix)) {
+        attrs[format] = cls.slice(classPrefix.length);
+      }
+    }
+  }
+
+  return attrs;
+}
+
+/**
+ * Resolve the block layout attributes (`align`, `direction`, `indent`)
+ * from `ql-align-*`, `ql-direction-*` and `ql-indent-*` classes.
+ */
+export function resolveLayoutAttrs(el: HtmlElement, prefix: string): Attributes {
+  const attrs: Attributes = {};
+
+  for (const cls of getClassList(el)) {
+    if (cls.startsWith(`${prefix}-align-`)) {
+      attrs.align = cls.slice(prefix.length + 7);
+    } else if (cls.startsWith(`${prefix}-direction-`)) {
+      attrs.direction = cls.slice(prefix.length + 11);
+    } else if (cls.startsWith(`${prefix}-indent-`)) {
+      const indent = parseInt(cls.slice(prefix.length + 8), 10);
+      if (indent > 0) attrs.indent = indent;
+    }
+  }
+
+  return attrs;
+}
+
+/**
+ * Resolve the code language of a `<pre>`, `<code>` or Quill code-block line
+ * from `data-language` or a `language-*` class. Returns `undefined` when
+ * the block has no language.
+ */
+export function resolveCodeLanguage(el: HtmlElement): string | undefined {
+  if (el.attrs['data-language']) return el.attrs['data-language'];
+
+  for (const cls of getClassList(el)) {
+    if (cls.startsWith('language-')) return cls.slice(9);
+  }
+
+  for (const child of el.children) {
+    if (child.kind === 'element' && child.tag === 'code') {
+      return resolveCodeLanguage(child);
+    }
+  }
+
+  return undefined;
+}
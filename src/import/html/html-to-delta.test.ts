@@ -0,0 +1,375 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BLOCK_ATTRIBUTES } from '../../common/default-block-attributes';
+import { codeBlockGrouper } from '../../common/transformers/code-block-grouper';
+import { flatListGrouper } from '../../common/transformers/flat-list-grouper';
+import { tableGrouper } from '../../common/transformers/table-grouper';
+import type { Delta } from '../../core/ast-types';
+import { DeltaParser } from '../../core/parser';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import { QuillHtmlRenderer } from '../../renderers/html/quill/quill-html-renderer';
+import { SemanticHtmlRenderer } from '../../renderers/html/semantic/semantic-html-renderer';
+import { htmlToDelta } from './html-to-delta';
+
+function renderSemantic(delta: Delta): string {
+  return new SemanticHtmlRenderer().render(parseQuillDelta(delta));
+}
+
+function renderQuill(delta: Delta): string {
+  const ast = new DeltaParser(delta, {
+    blockAttributes: DEFAULT_BLOCK_ATTRIBUTES,
+    blockEmbeds: ['video'],
+  })
+    .use(flatListGrouper)
+    .use(tableGrouper)
+    .use(codeBlockGrouper)
+    .toAST();
+  return new QuillHtmlRenderer().render(ast);
+}
+
+/** Render → import → render must reproduce the first rendering. */
+function expectStableRoundTrip(delta: Delta, render: (d: Delta) => string = renderSemantic) {
+  const html = render(delta);
+  expect(render(htmlToDelta(html))).toBe(html);
+}
+
+describe('htmlToDelta', () => {
+  describe('blocks', () => {
+    it('should import paragraphs', () => {
+      expect(htmlToDelta('<p>Hello</p><p>World</p>')).toEqual({
+        ops: [{ insert: 'Hello\nWorld\n' }],
+      });
+    });
+
+    it('should treat a lone <br> as an empty line', () => {
+      expect(htmlToDelta('<p><br/></p><p>a</p>')).toEqual({ ops: [{ insert: '\na\n' }] });
+    });
+
+    it('should split merged blocks at <br>', () => {
+      expect(htmlToDelta('<h2>one<br/>two</h2>')).toEqual({
+        ops: [
+          { insert: 'one' },
+          { insert: '\n', attributes: { header: 2 } },
+          { insert: 'two' },
+          { insert: '\n', attributes: { header: 2 } },
+        ],
+      });
+    });
+
+    it('should keep an empty line after a trailing <br>', () => {
+      expect(htmlToDelta('<p>a<br/></p>')).toEqual({ ops: [{ insert: 'a\n\n' }] });
+    });
+
+    it('should import headers and blockquotes', () => {
+      expect(htmlToDelta('<h3>Title</h3><blockquote>Quote</blockquote>')).toEqual({
+        ops: [
+          { insert: 'Title' },
+          { insert: '\n', attributes: { header: 3 } },
+          { insert: 'Quote' },
+          { insert: '\n', attributes: { blockquote: true } },
+        ],
+      });
+    });
+
+    it('should import layout classes', () => {
+      expect(htmlToDelta('<p class="ql-direction-rtl ql-align-right ql-indent-2">x</p>')).toEqual({
+        ops: [
+          { insert: 'x' },
+          { insert: '\n', attributes: { direction: 'rtl', align: 'right', indent: 2 } },
+        ],
+      });
+    });
+
+    it('should honour a custom class prefix', () => {
+      expect(htmlToDelta('<p class="noz-align-center">x</p>', { classPrefix: 'noz' })).toEqual({
+        ops: [{ insert: 'x' }, { insert: '\n', attributes: { align: 'center' } }],
+      });
+    });
+
+    it('should import <pre data-language> as code-block lines', () => {
+      expect(htmlToDelta('<pre data-language="js">a &lt; b\nreturn;</pre>')).toEqual({
+        ops: [
+          { insert: 'a < b' },
+          { insert: '\n', attributes: { 'code-block': 'js' } },
+          { insert: 'return;' },
+          { insert: '\n', attributes: { 'code-block': 'js' } },
+        ],
+      });
+    });
+
+    it('should import a Quill code-block container', () => {
+      const html =
+        '<div class="ql-code-block-container" spellcheck="false">' +
+        '<div class="ql-code-block">x</div><div class="ql-code-block"><br></div></div>';
+      expect(htmlToDelta(html)).toEqual({
+        ops: [{ insert: 'x' }, { insert: '\n\n', attributes: { 'code-block': true } }],
+      });
+    });
+
+    it('should wrap bare top-level text in a paragraph', () => {
+      expect(htmlToDelta('hello <b>there</b>')).toEqual({
+        ops: [
+          { insert: 'hello ' },
+          { insert: 'there', attributes: { bold: true } },
+          { insert: '\n' },
+        ],
+      });
+    });
+
+    it('should collapse source formatting whitespace', () => {
+      const html = `
+        <p>
+          Hello
+          <em>world</em>
+        </p>
+      `;
+      expect(htmlToDelta(html)).toEqual({
+        ops: [
+          { insert: 'Hello' },
+          { insert: ' world', attributes: { italic: true } },
+          { insert: '\n' },
+        ],
+      });
+    });
+  });
+
+  describe('lists', () => {
+    it('should import nested semantic lists as indented items', () => {
+      const html = '<ol><li>One<ul><li>Child</li></ul></li><li>Two</li></ol>';
+      expect(htmlToDelta(html)).toEqual({
+        ops: [
+          { insert: 'One' },
+          { insert: '\n', attributes: { list: 'ordered' } },
+          { insert: 'Child' },
+          { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+          { insert: 'Two' },
+          { insert: '\n', attributes: { list: 'ordered' } },
+        ],
+      });
+    });
+
+    it('should import data-checked items', () => {
+      expect(
+        htmlToDelta('<ul><li data-checked="true">a</li><li data-checked="false">b</li></ul>'),
+      ).toEqual({
+        ops: [
+          { insert: 'a' },
+          { insert: '\n', attributes: { list: 'checked' } },
+          { insert: 'b' },
+          { insert: '\n', attributes: { list: 'unchecked' } },
+        ],
+      });
+    });
+
+    it('should import flat Quill lists with data-list and indent classes', () => {
+      const html =
+        '<ol><li data-list="bullet">a</li><li class="ql-indent-1" data-list="ordered">b</li></ol>';
+      expect(htmlToDelta(html)).toEqual({
+        ops: [
+          { insert: 'a' },
+          { insert: '\n', attributes: { list: 'bullet' } },
+          { insert: 'b' },
+          { insert: '\n', attributes: { list: 'ordered', indent: 1 } },
+        ],
+      });
+    });
+  });
+
+  describe('tables', () => {
+    it('should import cells with their data-row ids', () => {
+      const html =
+        '<table><tbody><tr><td data-row="r1">a</td><td data-row="r1">b</td></tr>' +
+        '<tr><td data-row="r2"></td></tr></tbody></table>';
+      expect(htmlToDelta(html)).toEqual({
+        ops: [
+          { insert: 'a' },
+          { insert: '\n', attributes: { table: 'r1' } },
+          { insert: 'b' },
+          { insert: '\n', attributes: { table: 'r1' } },
+          { insert: '\n', attributes: { table: 'r2' } },
+        ],
+      });
+    });
+
+    it('should generate row ids when data-row is missing', () => {
+      const html = '<table><tr><td>a</td><td>b</td></tr><tr><td>c</td></tr></table>';
+      const ops = htmlToDelta(html).ops.filter((op) => op.insert === '\n');
+      expect(ops.map((op) => op.attributes?.table)).toEqual(['row-1', 'row-1', 'row-2']);
+    });
+  });
+
+  describe('inline', () => {
+    it('should import element marks', () => {
+      const html =
+        '<p><strong><em>a</em></strong><s><u>b</u></s><code>c</code><sub>d</sub><sup>e</sup></p>';
+      expect(htmlToDelta(html).ops).toEqual([
+        { insert: 'a', attributes: { bold: true, italic: true } },
+        { insert: 'b', attributes: { strike: true, underline: true } },
+        { insert: 'c', attributes: { code: true } },
+        { insert: 'd', attributes: { script: 'sub' } },
+        { insert: 'e', attributes: { script: 'super' } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should import links, attributors and font/size classes', () => {
+      const html =
+        '<p><a href="https://x.y" target="_blank">l</a>' +
+        '<span style="color:#e60000;background-color:#ffebcc">c</span>' +
+        '<span class="ql-font-serif"><span class="ql-size-large">f</span></span></p>';
+      expect(htmlToDelta(html).ops).toEqual([
+        { insert: 'l', attributes: { link: 'https://x.y' } },
+        { insert: 'c', attributes: { color: '#e60000', background: '#ffebcc' } },
+        { insert: 'f', attributes: { font: 'serif', size: 'large' } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should import images, formulas and block-level videos', () => {
+      const html =
+        '<p><a href="/big"><img class="ql-image" src="a.png" width="20" /></a>' +
+        '<span class="ql-formula" data-value="x^2">x^2</span></p>' +
+        '<iframe class="ql-video" src="v.mp4" frameborder="0"></iframe><p>after</p>';
+      expect(htmlToDelta(html).ops).toEqual([
+        { insert: { image: 'a.png' }, attributes: { width: '20', link: '/big' } },
+        { insert: { formula: 'x^2' } },
+        { insert: '\n' },
+        { insert: { video: 'v.mp4' } },
+        { insert: 'after\n' },
+      ]);
+    });
+  });
+
+  describe('round trip through SemanticHtmlRenderer', () => {
+    it('should be stable for mixed inline formats', () => {
+      expectStableRoundTrip({
+        ops: [
+          { insert: 'link', attributes: { link: 'http://a.com/?x=a&b=()' } },
+          { insert: ' is ', attributes: { font: 'monospace' } },
+          { insert: 'big', attributes: { size: 'large', bold: true } },
+          { insert: ' colored', attributes: { color: '#e60000', italic: true } },
+          { insert: ' hl', attributes: { background: '#ffebcc' } },
+          { insert: 'sub', attributes: { script: 'sub' } },
+          { insert: 'code', attributes: { code: true, strike: true, underline: true } },
+          { insert: { formula: 'x=data' } },
+          { insert: ' <&> "quoted"\n' },
+        ],
+      });
+    });
+
+    it('should be stable for merged paragraphs with layout and empty lines', () => {
+      expectStableRoundTrip({
+        ops: [
+          { insert: 'a\nb\n\nc' },
+          { insert: '\n', attributes: { align: 'center' } },
+          { insert: 'd\n\n' },
+        ],
+      });
+    });
+
+    it('should be stable for headers, blockquotes and code', () => {
+      expectStableRoundTrip({
+        ops: [
+          { insert: 'Title' },
+          { insert: '\n', attributes: { header: 1 } },
+          { insert: 'q1' },
+          { insert: '\n', attributes: { blockquote: true } },
+          { insert: 'q2' },
+          { insert: '\n', attributes: { blockquote: true } },
+          { insert: 'const a = 1;' },
+          { insert: '\n', attributes: { 'code-block': 'javascript' } },
+          { insert: '\n', attributes: { 'code-block': 'javascript' } },
+          { insert: 'return a;' },
+          { insert: '\n', attributes: { 'code-block': 'javascript' } },
+        ],
+      });
+    });
+
+    it('should be stable for nested and check lists', () => {
+      expectStableRoundTrip({
+        ops: [
+          { insert: 'One' },
+          { insert: '\n', attributes: { list: 'ordered' } },
+          { insert: 'Child', attributes: { bold: true } },
+          { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+          { insert: 'Grandchild' },
+          { insert: '\n', attributes: { list: 'checked', indent: 2 } },
+          { insert: 'Two' },
+          { insert: '\n', attributes: { list: 'ordered', align: 'right' } },
+          { insert: 'todo' },
+          { insert: '\n', attributes: { list: 'unchecked' } },
+        ],
+      });
+    });
+
+    it('should be stable for tables and embeds', () => {
+      expectStableRoundTrip({
+        ops: [
+          { insert: 'a' },
+          { insert: '\n', attributes: { table: 'row-1' } },
+          { insert: '\n', attributes: { table: 'row-1' } },
+          { insert: 'c' },
+          { insert: '\n', attributes: { table: 'row-2' } },
+          { insert: { image: 'https://x/img.png' }, attributes: { link: 'https://x' } },
+          { insert: '\n' },
+          { insert: { video: 'https://x/v' } },
+          { insert: 'end\n' },
+        ],
+      });
+    });
+
+    it('should recover the original delta for simple documents', () => {
+      const delta: Delta = {
+        ops: [
+          { insert: 'Hello ' },
+          { insert: 'world', attributes: { bold: true } },
+          { insert: '\nitem' },
+          { insert: '\n', attributes: { list: 'bullet' } },
+        ],
+      };
+      expect(htmlToDelta(renderSemantic(delta))).toEqual(delta);
+    });
+  });
+
+  describe('round trip through QuillHtmlRenderer', () => {
+    it('should be stable for flat lists, code containers and tables', () => {
+      expectStableRoundTrip(
+        {
+          ops: [
+            { insert: 'p', attributes: { bold: true, color: 'red' } },
+            { insert: '\n', attributes: { align: 'center' } },
+            { insert: 'a' },
+            { insert: '\n', attributes: { list: 'bullet' } },
+            { insert: 'b' },
+            { insert: '\n', attributes: { list: 'ordered', indent: 1 } },
+            { insert: 'x = 1' },
+            { insert: '\n', attributes: { 'code-block': 'python' } },
+            { insert: 'cell' },
+            { insert: '\n', attributes: { table: 'row-a' } },
+            { insert: { formula: 'e=mc^2' } },
+            { insert: '\n' },
+          ],
+        },
+        renderQuill,
+      );
+    });
+
+    it('should be stable for nested lists from the default pipeline', () => {
+      const delta: Delta = {
+        ops: [
+          { insert: 'One' },
+          { insert: '\n', attributes: { list: 'ordered' } },
+          { insert: 'Child' },
+          { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+          { insert: 'Grandchild' },
+          { insert: '\n', attributes: { list: 'bullet', indent: 2 } },
+          { insert: 'Two' },
+          { insert: '\n', attributes: { list: 'ordered' } },
+        ],
+      };
+      const render = (d: Delta) => new QuillHtmlRenderer().render(parseQuillDelta(d));
+
+      expectStableRoundTrip(delta, render);
+      expect(htmlToDelta(render(delta))).toEqual(delta);
+    });
+  });
+});
@@ -0,0 +1,489 @@
+import type { Attributes, Delta, DeltaOp } from '../../core/ast-types';
+import { pushInsert } from '../../core/delta-ops';
+import { parseHtml } from './functions/parse-html';
+import {
+  getClassList,
+  resolveCodeLanguage,
+  resolveInlineAttrs,
+  resolveLayoutAttrs,
+} from './functions/resolve-element-attrs';
+import type { HtmlImportConfig, ResolvedHtmlImportConfig } from './types/html-import-config';
+import type { HtmlElement, HtmlNode } from './types/html-node';
+
+/** Tags that start a new line (block) when encountered in the tree. */
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'ul',
+]);
+
+// ─── Import State ───────────────────────────────────────────────────────────
+
+/** Mutable state threaded through the tree walk. */
+interface ImportState {
+  cfg: ResolvedHtmlImportConfig;
+  ops: DeltaOp[];
+  /** Block attributes of the line waiting for its newline, or `null` if no line is open. */
+  line: Attributes | null;
+  /** Whether the open line has received any content. */
+  lineHasContent: boolean;
+  /** Whether collapsed source whitespace should be written before the next content. */
+  pendingSpace: boolean;
+  /** Current list nesting depth (0 = not inside a list). */
+  listDepth: number;
+  /** Counter for generating table row ids when `data-row` is missing. */
+  rowCount: number;
+}
+
+function openLine(state: ImportState, blockAttrs: Attributes): void {
+  if (state.line === null) {
+    state.line = blockAttrs;
+    state.lineHasContent = false;
+    state.pendingSpace = false;
+  }
+}
+
+function closeLine(state: ImportState): void {
+  if (state.line === null) return;
+  pushInsert(state.ops, '\n', state.line);
+  state.line = null;
+  state.lineHasContent = false;
+  state.pendingSpace = false;
+}
+
+function insertInline(
+  state: ImportState,
+  insert: string | Record<string, unknown>,
+  attrs: Attributes,
+  blockAttrs: Attributes,
+): void {
+  openLine(state, blockAttrs);
+  pushInsert(state.ops, insert, attrs);
+  state.lineHasContent = true;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Convert HTML into a Quill Delta — the inverse of the HTML renderers.
+ *
+ * Understands the markup produced by `SemanticHtmlRenderer` and
+ * `QuillHtmlRenderer`: paragraphs, headers, blockquotes, `<pre data-language>`
+ * and Quill code-block containers, nested `<ol>`/`<ul>` and flat
+ * `<li data-list>` lists, `data-checked` check lists, tables with
+ * `data-row`, `ql-indent-*`/`ql-align-*`/`ql-direction-*` layout classes,
+ * inline marks and attributors, images, videos and formulas.
+ *
+ * A `<br>` inside a block separates merged lines (as produced by
+ * `blockMerger`); a block whose only content is `<br>` is an empty line.
+ * Rendering the result with the same renderer reproduces the input markup.
+ *
+ * Runs without a DOM — the HTML is parsed by a small built-in tokenizer.
+ *
+ * @example
+ * ```ts
+ * import { htmlToDelta } from 'quill-delta-renderer/import';
+ *
+ * htmlToDelta('<h1>Title</h1><p>Hello <strong>world</strong></p>');
+ * // => { ops: [
+ * //   { insert: 'Title' }, { insert: '\n', attributes: { header: 1 } },
+ * //   { insert: 'Hello ' }, { insert: 'world', attributes: { bold: true } },
+ * //   { insert: '\n' },
+ * // ] }
+ * ```
+ */
+export function htmlToDelta(html: string, config?: HtmlImportConfig): Delta {
+  const state: ImportState = {
+    cfg: {
+      classPrefix: config?.classPrefix ?? 'ql',
+      blockEmbeds: new Set(config?.blockEmbeds ?? ['video']),
+    },
+    ops: [],
+    line: null,
+    lineHasContent: false,
+    pendingSpace: false,
+    listDepth: 0,
+    rowCount: 0,
+  };
+
+  walkNodes(state, parseHtml(html), {}, {});
+  closeLine(state);
+
+  return { ops: state.ops };
+}
+
+// ─── Tree Walk ──────────────────────────────────────────────────────────────
+
+function walkNodes(
+  state: ImportState,
+  nodes: HtmlNode[],
+  inlineAttrs: Attributes,
+  blockAttrs: Attributes,
+): void {
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      walkText(state, node.text, inlineAttrs, blockAttrs);
+    } else if (BLOCK_TAGS.has(node.tag)) {
+      // A block inside an open line ends that line. A line that only
+      // exists because its container opened it is dropped instead.
+      if (state.lineHasContent) {
+        closeLine(state);
+      } else {
+        state.line = null;
+      }
+      walkBlock(state, node, blockAttrs);
+    } else {
+      walkInlineElement(state, node, inlineAttrs, blockAttrs);
+    }
+  }
+}
+
+function walkText(
+  state: ImportState,
+  text: string,
+  inlineAttrs: Attributes,
+  blockAttrs: Attributes,
+): void {
+  // Source formatting (a newline plus indentation) collapses to one space.
+  // It is dropped at the start of a line and deferred at the end of a text
+  // run, so it only survives between two pieces of content.
+  const parts = text.split(/[ \t]*[\r\n][ \t\r\n]*/);
+
+  for (let i = 0; i < parts.length; i++) {
+    if (i > 0 && state.lineHasContent) state.pendingSpace = true;
+
+    const part = parts[i]!;
+    if (!part) continue;
+    if (state.line === null && !part.trim()) continue;
+
+    if (state.pendingSpace) {
+      state.pendingSpace = false;
+      insertInline(state, ' ', inlineAttrs, blockAttrs);
+    }
+    insertInline(state, part, inlineAttrs, blockAttrs);
+  }
+}
+
+function walkInlineElement(
+  state: ImportState,
+  el: HtmlElement,
+  inlineAttrs: Attributes,
+  blockAttrs: Attributes,
+): void {
+  const prefix = state.cfg.classPrefix;
+
+  switch (el.tag) {
+    case 'br':
+      openLine(state, blockAttrs);
+      closeLine(state);
+      openLine(state, blockAttrs);
+      return;
+
+    case 'img': {
+      const src = el.attrs.src;
+      if (!src) return;
+      const attrs: Attributes = {};
+      if (el.attrs.alt) attrs.alt = el.attrs.alt;
+      if (el.attrs.width) attrs.width = el.attrs.width;
+      if (el.attrs.height) attrs.height = el.attrs.height;
+      if (typeof inlineAttrs.link === 'string') attrs.link = inlineAttrs.link;
+      insertEmbed(state, 'image', src, attrs, blockAttrs);
+      return;
+    }
+
+    case 'iframe':
+    case 'video': {
+      const src = el.attrs.src;
+      if (!src) return;
+      const attrs: Attributes = {};
+      if (el.attrs.width) attrs.width = el.attrs.width;
+      if (el.attrs.height) attrs.height = el.attrs.height;
+      insertEmbed(state, 'video', src, attrs, blockAttrs);
+      return;
+    }
+  }
+
+  if (getClassList(el).includes(`${prefix}-formula`)) {
+    const tex = el.attrs['data-value'] ?? textContent(el);
+    insertEmbed(state, 'formula', tex, {}, blockAttrs);
+    return;
+  }
+
+  walkNodes(state, el.children, { ...inlineAttrs, ...resolveInlineAttrs(el, prefix) }, blockAttrs);
+}
+
+function insertEmbed(
+  state: ImportState,
+  type: string,
+  data: unknown,
+  attrs: Attributes,
+  blockAttrs: Attributes,
+): void {
+  if (state.cfg.blockEmbeds.has(type)) {
+    if (state.lineHasContent) closeLine(state);
+    state.line = null;
+    pushInsert(state.ops, { [type]: data }, attrs);
+    return;
+  }
+  insertInline(state, { [type]: data }, attrs, blockAttrs);
+}
+
+// ─── Blocks ─────────────────────────────────────────────────────────────────
+
+function walkBlock(state: ImportState, el: HtmlElement, inherited: Attributes): void {
+  const prefix = state.cfg.classPrefix;
+  const layout = resolveLayoutAttrs(el, prefix);
+
+  switch (el.tag) {
+    case 'ul':
+    case 'ol':
+      walkList(state, el);
+      return;
+
+    case 'li':
+      walkListItem(state, el, 'bullet', inherited);
+      return;
+
+    case 'table':
+    case 'thead':
+    case 'tbody':
+    case 'tfoot':
+      walkNodes(state, el.children, {}, {});
+      return;
+
+    case 'tr':
+      walkTableRow(state, el);
+      return;
+
+    case 'td':
+    case 'th': {
+      const row = el.attrs['data-row'] ?? `row-${++state.rowCount}`;
+      walkLeafBlock(state, el, { ...layout, table: row }, true);
+      return;
+    }
+
+    case 'pre':
+      walkCodeLines(state, [el], resolveCodeLanguage(el), layout);
+      return;
+
+    case 'blockquote':
+      walkLeafBlock(state, el, { ...inherited, ...layout, blockquote: true }, true);
+      return;
+  }
+
+  const headerMatch = /^h([1-6])$/.exec(el.tag);
+  if (headerMatch) {
+    walkLeafBlock(state, el, { ...inherited, ...layout, header: Number(headerMatch[1]) });
+    return;
+  }
+
+  const classes = getClassList(el);
+  if (classes.includes(`${prefix}-code-block-container`)) {
+    const lines = el.children.filter((c): c is HtmlElement => c.kind === 'element');
+    const first = lines[0];
+    walkCodeLines(state, lines, first ? resolveCodeLanguage(first) : undefined, layout);
+    return;
+  }
+  if (classes.includes(`${prefix}-code-block`)) {
+    walkCodeLines(state, [el], resolveCodeLanguage(el), layout);
+    return;
+  }
+
+  walkLeafBlock(state, el, { ...inherited, ...layout });
+}
+
+/**
+ * Walk a block that owns a line. Nested blocks end the line early;
+ * `inheritToChildren` passes this block's attributes to those nested
+ * blocks (e.g. `<td><p>..</p></td>` keeps the cell's `table` attribute).
+ */
+function walkLeafBlock(
+  state: ImportState,
+  el: HtmlElement,
+  blockAttrs: Attributes,
+  inheritToChildren = false,
+): void {
+  if (isEmptyLinePlaceholder(el)) {
+    openLine(state, blockAttrs);
+    closeLine(state);
+    return;
+  }
+
+  openLine(state, blockAttrs);
+
+  for (const child of el.children) {
+    if (child.kind === 'element' && BLOCK_TAGS.has(child.tag)) {
+      if (state.lineHasContent) {
+        closeLine(state);
+      } else {
+        state.line = null;
+      }
+      walkBlock(state, child, inheritToChildren ? blockAttrs : {});
+    } else {
+      walkNodes(state, [child], {}, blockAttrs);
+    }
+  }
+
+  closeLine(state);
+}
+
+/** A block whose entire content is a single `<br>` represents an empty line. */
+function isEmptyLinePlaceholder(el: HtmlElement): boolean {
+  const meaningful = el.children.filter((c) => c.kind === 'element' || c.text.trim() !== '');
+  return (
+    meaningful.length === 1 && meaningful[0]!.kind === 'element' && meaningful[0]!.tag === 'br'
+  );
+}
+
+// ─── Lists ──────────────────────────────────────────────────────────────────
+
+function walkList(state: ImportState, el: HtmlElement): void {
+  const defaultType = el.tag === 'ol' ? 'ordered' : 'bullet';
+  state.listDepth++;
+
+  for (const child of el.children) {
+    if (child.kind !== 'element') continue;
+    if (child.tag === 'li') {
+      walkListItem(state, child, defaultType, {});
+    } else if (BLOCK_TAGS.has(child.tag)) {
+      walkBlock(state, child, {});
+    }
+  }
+
+  state.listDepth--;
+}
+
+function walkListItem(
+  state: ImportState,
+  el: HtmlElement,
+  defaultType: string,
+  inherited: Attributes,
+): void {
+  const layout = resolveLayoutAttrs(el, state.cfg.classPrefix);
+  // QuillHtmlRenderer nests lists and also writes `ql-indent-N`; the class wins
+  const indent =
+    layout.indent !== undefined ? Number(layout.indent) : Math.max(state.listDepth - 1, 0);
+
+  const blockAttrs: Attributes = {
+    ...inherited,
+    ...layout,
+    list: resolveListType(el, defaultType),
+  };
+  delete blockAttrs.indent;
+  if (indent > 0) blockAttrs.indent = indent;
+
+  if (isEmptyLinePlaceholder(el)) {
+    openLine(state, blockAttrs);
+    closeLine(state);
+    return;
+  }
+
+  openLine(state, blockAttrs);
+
+  for (const child of el.children) {
+    if (child.kind === 'element' && BLOCK_TAGS.has(child.tag)) {
+      // The item's own line always exists, even when it has no text
+      closeLine(state);
+      walkBlock(state, child, {});
+    } else {
+      walkNodes(state, [child], {}, blockAttrs);
+    }
+  }
+
+  closeLine(state);
+}
+
+function resolveListType(el: HtmlElement, defaultType: string): string {
+  const dataList = el.attrs['data-list'];
+  if (dataList) return dataList;
+
+  const checked = el.attrs['data-checked'];
+  if (checked === 'true') return 'checked';
+  if (checked === 'false') return 'unchecked';
+
+  return defaultType;
+}
+
+// ─── Tables ─────────────────────────────────────────────────────────────────
+
+function walkTableRow(state: ImportState, el: HtmlElement): void {
+  const cells = el.children.filter(
+    (c): c is HtmlElement => c.kind === 'element' && (c.tag === 'td' || c.tag === 'th'),
+  );
+  const rowId = cells.find((c) => c.attrs['data-row'])?.attrs['data-row'];
+  const fallbackId = rowId ?? `row-${++state.rowCount}`;
+
+  for (const cell of cells) {
+    const layout = resolveLayoutAttrs(cell, state.cfg.classPrefix);
+    walkLeafBlock(state, cell, { ...layout, table: cell.attrs['data-row'] ?? fallbackId }, true);
+  }
+}
+
+// ─── Code Blocks ────────────────────────────────────────────────────────────
+
+/**
+ * Emit one `code-block` line per `\n`-separated line of text. Accepts either
+ * a single `<pre>` or the per-line `<div class="ql-code-block">` elements
+ * of a Quill code-block container.
+ */
+function walkCodeLines(
+  state: ImportState,
+  elements: HtmlElement[],
+  language: string | undefined,
+  layout: Attributes,
+): void {
+  const blockAttrs: Attributes = { ...layout, 'code-block': language ?? true };
+
+  for (const el of elements) {
+    const text = isEmptyLinePlaceholder(el) ? '' : textContent(el);
+    for (const line of text.split('\n')) {
+      openLine(state, blockAttrs);
+      if (line) insertInline(state, line, {}, blockAttrs);
+      closeLine(state);
+    }
+  }
+}
+
+/** Concatenated text of an element, with `<br>` converted to `\n`. */
+function textContent(el: HtmlElement): string {
+  let text = '';
+  for (const child of el.children) {
+    if (child.kind === 'text') {
+      text += child.text;
+    } else if (child.tag === 'br') {
+      text += '\n';
+    } else {
+      text += textContent(child);
+    }
+  }
+  return text;
+}
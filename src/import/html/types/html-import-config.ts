@@ -0,0 +1,30 @@
+/**
+ * Configuration for {@link htmlToDelta}.
+ *
+ * All options are optional; the defaults match the output of
+ * `SemanticHtmlRenderer` and `QuillHtmlRenderer` with default settings.
+ */
+export interface HtmlImportConfig {
+  /**
+   * CSS class prefix used by the renderer that produced the HTML
+   * (for `ql-indent-*`, `ql-align-*`, `ql-font-*`, `ql-formula`, etc.).
+   * @default 'ql'
+   */
+  classPrefix?: string;
+
+  /**
+   * Embed types that are block-level. Block embeds end the current line
+   * instead of being inserted inline.
+   * @default ['video']
+   */
+  blockEmbeds?: string[];
+}
+
+/**
+ * Fully resolved import configuration with all defaults applied.
+ * @internal
+ */
+export interface ResolvedHtmlImportConfig {
+  classPrefix: string;
+  blockEmbeds: Set<string>;
+}
@@ -0,0 +1,23 @@
+/**
+ * A parsed HTML element. Tag and attribute names are lower-cased;
+ * attribute values are entity-decoded.
+ */
+export interface HtmlElement {
+  kind: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+/**
+ * A parsed run of HTML text. `text` is entity-decoded.
+ */
+export interface HtmlText {
+  kind: 'text';
+  text: string;
+}
+
+/**
+ * A node in the lightweight DOM-free tree produced by `parseHtml()`.
+ */
+export type HtmlNode = HtmlElement | HtmlText;
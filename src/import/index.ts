@@ -0,0 +1,7 @@
+export { htmlToDelta } from './html/html-to-delta';
+export type { HtmlImportConfig } from './html/types/html-import-config';
+export { markdownToDelta } from './markdown/markdown-to-delta';
+export type {
+  MarkdownFlavor,
+  MarkdownImportConfig,
+} from './markdown/types/markdown-import-config';
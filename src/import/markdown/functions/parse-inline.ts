@@ -0,0 +1,390 @@
+import type { Attributes, DeltaOp } from '../../../core/ast-types';
+import { pushInsert } from '../../../core/delta-ops';
+import type { MarkdownFlavor } from '../types/markdown-import-config';
+import {
+  parseBracketTagAttrs,
+  parseHtmlTagAttrs,
+  resolveBracketStyleFormats,
+  resolveEmbedInsert,
+  resolveHtmlTagFormats,
+} from './resolve-tag-attrs';
+
+/** Output and dialect shared by every level of the inline parse. */
+export interface InlineContext {
+  flavor: MarkdownFlavor;
+  ops: DeltaOp[];
+}
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const WHITESPACE = /\s/;
+const ALPHANUMERIC = /[\p{L}\p{N}]/u;
+
+/** Characters that may start an inline construct. */
+const SPECIAL_CHARS = new Set(['`', '*', '_', '~', '!', '[', '<']);
+
+/** Delimiter run → format it applies. */
+const EMPHASIS_FORMATS: Record<string, Attributes> = {
+  '**': { bold: true },
+  __: { bold: true },
+  '*': { italic: true },
+  _: { italic: true },
+  '~~': { strike: true },
+};
+
+const HTML_OPEN_TAG = /<(u|sub|sup|span)((?:\s+[\w-]+="[^"]*")*)\s*>/y;
+const HTML_EMBED_TAG = /<embed((?:\s+[\w-]+="[^"]*")*)\s*\/?>/y;
+const BRACKET_STYLE_TAG = /\[STYLE((?:\s+[\w-]+=[^\s\]]*)*)\s*\]/y;
+const BRACKET_EMBED_TAG = /\[EMBED((?:\s+[\w-]+=[^\s\]]*)*)\s*\/\]/y;
+
+/**
+ * Parse one line of inline Markdown and append its ops to `ctx.ops`.
+ *
+ * Recognises code spans, `**`/`__` bold, `_`/`*` italic, `~~` strike,
+ * links, images and backslash escapes, plus the tag extensions of the
+ * configured flavor. Constructs that do not close are kept as literal text.
+ * Every op carries `attrs` merged with the formats of its enclosing
+ * constructs.
+ */
+export function parseInline(src: string, attrs: Attributes, ctx: InlineContext): void {
+  let text = '';
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i]!;
+
+    if (ch === '\\' && ASCII_PUNCTUATION.test(src[i + 1] ?? '')) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (!SPECIAL_CHARS.has(ch)) {
+      text += ch;
+      i++;
+      continue;
+    }
+
+    pushInsert(ctx.ops, text, attrs);
+    text = '';
+
+    const end = parseConstruct(src, i, attrs, ctx);
+    if (end > i) {
+      i = end;
+    } else {
+      // Keep a whole delimiter run literal so its tail is not re-read as an opener
+      const run = ch === '!' || ch === '[' || ch === '<' ? 1 : runLength(src, i, ch);
+      text += src.slice(i, i + run);
+      i += run;
+    }
+  }
+
+  pushInsert(ctx.ops, text, attrs);
+}
+
+/** Try the construct starting at `i`. Returns the index after it, or `-1`. */
+function parseConstruct(src: string, i: number, attrs: Attributes, ctx: InlineContext): number {
+  switch (src[i]) {
+    case '`':
+      return parseCodeSpan(src, i, attrs, ctx);
+    case '*':
+    case '_':
+    case '~':
+      return parseEmphasis(src, i, attrs, ctx);
+    case '!':
+      return src[i + 1] === '[' ? parseImage(src, i, attrs, ctx) : -1;
+    case '[':
+      if (ctx.flavor === 'bracket') {
+        const end = parseBracketTag(src, i, attrs, ctx);
+        if (end !== -1) return end;
+      }
+      return parseLink(src, i, attrs, ctx);
+    case '<':
+      return ctx.flavor === 'html' ? parseHtmlTag(src, i, attrs, ctx) : -1;
+    default:
+      return -1;
+  }
+}
+
+// ─── Code Spans ─────────────────────────────────────────────────────────────
+
+function parseCodeSpan(src: string, i: number, attrs: Attributes, ctx: InlineContext): number {
+  const ticks = runLength(src, i, '`');
+  const close = findCodeSpanClose(src, i, ticks);
+  if (close === -1) return -1;
+
+  pushInsert(ctx.ops, src.slice(i + ticks, close), { ...attrs, code: true });
+  return close + ticks;
+}
+
+/** Index of the backtick run closing the code span opened at `i`, or `-1`. */
+function findCodeSpanClose(src: string, i: number, ticks: number): number {
+  let k = i + ticks;
+  while (k < src.length) {
+    const next = src.indexOf('`', k);
+    if (next === -1) return -1;
+    const run = runLength(src, next, '`');
+    if (run === ticks) return next;
+    k = next + run;
+  }
+  return -1;
+}
+
+/** Index just past the code span opened at `i`, or past its opening run if unclosed. */
+function skipCodeSpan(src: string, i: number): number {
+  const ticks = runLength(src, i, '`');
+  const close = findCodeSpanClose(src, i, ticks);
+  return close === -1 ? i + ticks : close + ticks;
+}
+
+// ─── Emphasis ───────────────────────────────────────────────────────────────
+
+function parseEmphasis(src: string, i: number, attrs: Attributes, ctx: InlineContext): number {
+  const ch = src[i]!;
+  const run = runLength(src, i, ch);
+  if (!canOpen(src, i, run)) return -1;
+
+  const delimiters = ch === '~' ? (run >= 2 ? ['~~'] : []) : run >= 2 ? [ch + ch, ch] : [ch];
+
+  for (const delim of delimiters) {
+    const close = findCloser(src, i + run, delim);
+    if (close <= i + delim.length) continue;
+
+    const inner = src.slice(i + delim.length, close);
+    parseInline(inner, { ...attrs, ...EMPHASIS_FORMATS[delim] }, ctx);
+    return close + delim.length;
+  }
+
+  return -1;
+}
+
+/**
+ * Find the closing delimiter for `delim`, scanning from `from`.
+ * Nested emphasis using the same character is skipped as a unit, and
+ * delimiters inside code spans or after a backslash are ignored.
+ * Returns the index of the closer, or `-1`.
+ */
+function findCloser(src: string, from: number, delim: string): number {
+  const ch = delim[0]!;
+  let k = from;
+
+  while (k < src.length) {
+    const c = src[k]!;
+
+    if (c === '\\') {
+      k += 2;
+      continue;
+    }
+    if (c === '`') {
+      k = skipCodeSpan(src, k);
+      continue;
+    }
+    if (c !== ch) {
+      k++;
+      continue;
+    }
+
+    const run = runLength(src, k, ch);
+    const closes = canClose(src, k, run);
+    if (closes && run >= delim.length) {
+      // A closing run longer than the delimiter closes with its last chars
+      return k + run - delim.length;
+    }
+    if (!closes && canOpen(src, k, run)) {
+      const nested = findCloser(src, k + run, ch.repeat(Math.min(run, delim.length)));
+      k = nested === -1 ? k + run : nested + Math.min(run, delim.length);
+      continue;
+    }
+    k += run;
+  }
+
+  return -1;
+}
+
+function canOpen(src: string, i: number, run: number): boolean {
+  const next = src[i + run];
+  if (next === undefined || WHITESPACE.test(next)) return false;
+  // `_` does not open inside a word (snake_case)
+  return src[i] !== '_' || i === 0 || !ALPHANUMERIC.test(src[i - 1]!);
+}
+
+function canClose(src: string, i: number, run: number): boolean {
+  const prev = src[i - 1];
+  if (prev === undefined || WHITESPACE.test(prev)) return false;
+  const next = src[i + run];
+  return src[i] !== '_' || next === undefined || !ALPHANUMERIC.test(next);
+}
+
+// ─── Links and Images ───────────────────────────────────────────────────────
+
+interface LinkParts {
+  label: string;
+  url: string;
+  end: number;
+}
+
+function parseLink(src: string, i: number, attrs: Attributes, ctx: InlineContext): number {
+  const link = parseLinkParts(src, i);
+  if (!link) return -1;
+
+  parseInline(link.label, { ...attrs, link: link.url }, ctx);
+  return link.end;
+}
+
+function parseImage(src: string, i: number, attrs: Attributes, ctx: InlineContext): number {
+  const image = parseLinkParts(src, i + 1);
+  if (!image) return -1;
+
+  pushInsert(ctx.ops, { image: image.url }, image.label ? { ...attrs, alt: image.label } : attrs);
+  return image.end;
+}
+
+/** Parse `[label](url)` starting at the `[` at `i`. */
+function parseLinkParts(src: string, i: number): LinkParts | null {
+  const labelEnd = findLabelEnd(src, i);
+  if (labelEnd === -1 || src[labelEnd + 1] !== '(') return null;
+
+  const urlStart = labelEnd + 2;
+  const urlEnd = findUrlEnd(src, urlStart);
+  if (urlEnd === -1) return null;
+
+  let url = src.slice(urlStart, urlEnd).trim();
+  // Drop an optional link title: [label](url "title")
+  url = url.replace(/\s+"[^"]*"$/, '');
+  if (url.startsWith('<') && url.endsWith('>')) url = url.slice(1, -1);
+
+  return { label: src.slice(i + 1, labelEnd), url, end: urlEnd + 1 };
+}
+
+/** Index of the `]` matching the `[` at `i`, or `-1`. */
+function findLabelEnd(src: string, i: number): number {
+  let depth = 0;
+  let k = i;
+
+  while (k < src.length) {
+    const c = src[k]!;
+    if (c === '\\') {
+      k += 2;
+      continue;
+    }
+    if (c === '`') {
+      k = skipCodeSpan(src, k);
+      continue;
+    }
+    if (c === '[') depth++;
+    if (c === ']' && --depth === 0) return k;
+    k++;
+  }
+
+  return -1;
+}
+
+/** Index of the `)` ending a link destination (parentheses may nest), or `-1`. */
+function findUrlEnd(src: string, from: number): number {
+  let depth = 0;
+
+  for (let k = from; k < src.length; k++) {
+    const c = src[k];
+    if (c === '\\') {
+      k++;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')') {
+      if (depth === 0) return k;
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+// ─── Flavor Extensions ──────────────────────────────────────────────────────
+
+function parseHtmlTag(src: string, i: number, attrs: Attributes, ctx: InlineContext): number {
+  const embed = matchAt(HTML_EMBED_TAG, src, i);
+  if (embed) {
+    const { 'data-embed-type': type, ...rest } = parseHtmlTagAttrs(embed[1] ?? '');
+    const data: Record<string, string> = {};
+    for (const [key, value] of Object.entries(rest)) {
+      if (key.startsWith('data-')) data[key.slice(5)] = value;
+    }
+    return insertEmbed(resolveEmbedInsert(type, data), i + embed[0].length, attrs, ctx);
+  }
+
+  const open = matchAt(HTML_OPEN_TAG, src, i);
+  if (!open) return -1;
+
+  const tag = open[1]!;
+  const contentStart = i + open[0].length;
+  const close = findClosingTag(src, contentStart, `<${tag}`, `</${tag}>`);
+  if (close === -1) return -1;
+
+  const formats = resolveHtmlTagFormats(tag, parseHtmlTagAttrs(open[2] ?? ''));
+  parseInline(src.slice(contentStart, close), { ...attrs, ...formats }, ctx);
+  return close + tag.length + 3;
+}
+
+function parseBracketTag(src: string, i: number, attrs: Attributes, ctx: InlineContext): number {
+  const embed = matchAt(BRACKET_EMBED_TAG, src, i);
+  if (embed) {
+    const { type, ...rest } = parseBracketTagAttrs(embed[1] ?? '');
+    return insertEmbed(resolveEmbedInsert(type, rest), i + embed[0].length, attrs, ctx);
+  }
+
+  const open = matchAt(BRACKET_STYLE_TAG, src, i);
+  if (!open) return -1;
+
+  const contentStart = i + open[0].length;
+  const close = findClosingTag(src, contentStart, '[STYLE', '[/STYLE]');
+  if (close === -1) return -1;
+
+  const formats = resolveBracketStyleFormats(parseBracketTagAttrs(open[1] ?? ''));
+  parseInline(src.slice(contentStart, close), { ...attrs, ...formats }, ctx);
+  return close + '[/STYLE]'.length;
+}
+
+function insertEmbed(
+  insert: Record<string, unknown> | undefined,
+  end: number,
+  attrs: Attributes,
+  ctx: InlineContext,
+): number {
+  if (!insert) return -1;
+  pushInsert(ctx.ops, insert, attrs);
+  return end;
+}
+
+/** Index of the close tag balancing an already-consumed open tag, or `-1`. */
+function findClosingTag(src: string, from: number, open: string, close: string): number {
+  let depth = 1;
+  let k = from;
+
+  while (k < src.length) {
+    const nextClose = src.indexOf(close, k);
+    if (nextClose === -1) return -1;
+
+    const nextOpen = src.indexOf(open, k);
+    if (nextOpen !== -1 && nextOpen < nextClose) {
+      depth++;
+      k = nextOpen + open.length;
+      continue;
+    }
+
+    if (--depth === 0) return nextClose;
+    k = nextClose + close.length;
+  }
+
+  return -1;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function runLength(src: string, i: number, ch: string): number {
+  let k = i;
+  while (src[k] === ch) k++;
+  return k - i;
+}
+
+function matchAt(pattern: RegExp, src: string, i: number): RegExpExecArray | null {
+  pattern.lastIndex = i;
+  return pattern.exec(src);
+}
@@ -0,0 +1,96 @@
+import type { Attributes } from '../../../core/ast-types';
+import { decodeEntities } from '../../html/functions/decode-entities';
+
+const HTML_ATTR = /([\w-]+)="([^"]*)"/g;
+const BRACKET_ATTR = /([\w-]+)=([^\s\]]*)/g;
+
+/** Inline formats contributed by the HTML Markdown tags themselves. */
+const HTML_TAG_FORMATS: Record<string, Attributes> = {
+  u: { underline: true },
+  sub: { script: 'sub' },
+  sup: { script: 'super' },
+  span: {},
+};
+
+/** HTML Markdown span attribute → Delta attribute. */
+const HTML_ATTRIBUTORS: Record<string, string> = {
+  color: 'color',
+  'background-color': 'background',
+  font: 'font',
+  size: 'size',
+};
+
+/** Bracket `[STYLE key=value]` key → Delta attribute. */
+const BRACKET_STYLES: Record<string, string> = {
+  color: 'color',
+  bg: 'background',
+  font: 'font',
+  size: 'size',
+};
+
+/** Parse `key="value"` pairs of an HTML Markdown tag, decoding entities. */
+export function parseHtmlTagAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, key, value] of source.matchAll(HTML_ATTR)) {
+    attrs[key!.toLowerCase()] = decodeEntities(value!);
+  }
+  return attrs;
+}
+
+/** Parse `key=value` pairs of a bracket Markdown tag. */
+export function parseBracketTagAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, key, value] of source.matchAll(BRACKET_ATTR)) {
+    attrs[key!] = value!;
+  }
+  return attrs;
+}
+
+/**
+ * Resolve the inline formats of an HTML Markdown tag — the inverse of
+ * `HtmlMarkdownRenderer`'s `<u>`, `<sub>`, `<sup>` and attributor `<span>`.
+ */
+export function resolveHtmlTagFormats(tag: string, attrs: Record<string, string>): Attributes {
+  const formats: Attributes = { ...HTML_TAG_FORMATS[tag] };
+
+  for (const [key, value] of Object.entries(attrs)) {
+    const format = HTML_ATTRIBUTORS[key];
+    if (format && value) formats[format] = value;
+  }
+
+  return formats;
+}
+
+/**
+ * Resolve the inline formats of a `[STYLE ...]` tag — the inverse of
+ * `BracketMarkdownRenderer`'s style marks.
+ */
+export function resolveBracketStyleFormats(attrs: Record<string, string>): Attributes {
+  const formats: Attributes = {};
+
+  for (const [key, value] of Object.entries(attrs)) {
+    if (key === 'underline') {
+      if (value === 'true') formats.underline = true;
+    } else if (key === 'sup' || key === 'sub') {
+      if (value === 'true') formats.script = key === 'sup' ? 'super' : 'sub';
+    } else if (BRACKET_STYLES[key] && value) {
+      formats[BRACKET_STYLES[key]] = value;
+    }
+  }
+
+  return formats;
+}
+
+/**
+ * Build the insert value of a custom embed from its tag attributes.
+ *
+ * The embed payload is the remaining attributes, or `true` when the tag
+ * carries only its type. Returns `undefined` when the type is missing.
+ */
+export function resolveEmbedInsert(
+  type: string | undefined,
+  rest: Record<string, string>,
+): Record<string, unknown> | undefined {
+  if (!type) return undefined;
+  return { [type]: Object.keys(rest).length > 0 ? rest : true };
+}
@@ -0,0 +1,386 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta } from '../../core/ast-types';
+import { parseQuillDelta } from '../../parse-quill-delta';
+import { BracketMarkdownRenderer } from '../../renderers/markdown/bracket-markdown-renderer';
+import { HtmlMarkdownRenderer } from '../../renderers/markdown/html-markdown-renderer';
+import { MarkdownRenderer } from '../../renderers/markdown/markdown-renderer';
+import { markdownToDelta } from './markdown-to-delta';
+import type { MarkdownFlavor } from './types/markdown-import-config';
+
+const RENDERERS: Record<
+  MarkdownFlavor,
+  { render: (ast: ReturnType<typeof parseQuillDelta>) => string }
+> = {
+  markdown: new MarkdownRenderer(),
+  html: new HtmlMarkdownRenderer(),
+  bracket: new BracketMarkdownRenderer(),
+};
+
+function render(delta: Delta, flavor: MarkdownFlavor = 'markdown'): string {
+  return RENDERERS[flavor].render(parseQuillDelta(delta));
+}
+
+/** Markdown → import → render must reproduce the input. */
+function expectRoundTrip(markdown: string, flavor: MarkdownFlavor = 'markdown') {
+  expect(render(markdownToDelta(markdown, { flavor }), flavor)).toBe(markdown);
+}
+
+describe('markdownToDelta', () => {
+  describe('blocks', () => {
+    it('should return an empty delta for empty input', () => {
+      expect(markdownToDelta('')).toEqual({ ops: [] });
+      expect(markdownToDelta('\n\n')).toEqual({ ops: [] });
+    });
+
+    it('should import one Delta line per Markdown line', () => {
+      expect(markdownToDelta('a\n\nb\n')).toEqual({ ops: [{ insert: 'a\n\nb\n' }] });
+    });
+
+    it('should import ATX headers and blockquotes', () => {
+      expect(markdownToDelta('## Title\n> quoted\n>')).toEqual({
+        ops: [
+          { insert: 'Title' },
+          { insert: '\n', attributes: { header: 2 } },
+          { insert: 'quoted' },
+          { insert: '\n\n', attributes: { blockquote: true } },
+        ],
+      });
+    });
+
+    it('should import fenced code with its language', () => {
+      expect(markdownToDelta('```js\nconst a = 1;\n\n**not bold**\n```\nafter')).toEqual({
+        ops: [
+          { insert: 'const a = 1;' },
+          { insert: '\n\n', attributes: { 'code-block': 'js' } },
+          { insert: '**not bold**' },
+          { insert: '\n', attributes: { 'code-block': 'js' } },
+          { insert: 'after\n' },
+        ],
+      });
+    });
+
+    it('should import an unlabeled or tilde fence as a plain code block', () => {
+      expect(markdownToDelta('~~~\nx\n~~~')).toEqual({
+        ops: [{ insert: 'x' }, { insert: '\n', attributes: { 'code-block': true } }],
+      });
+    });
+
+    it('should import horizontal rules as divider embeds', () => {
+      expect(markdownToDelta('a\n* * *\n---')).toEqual({
+        ops: [
+          { insert: 'a\n' },
+          { insert: { divider: true } },
+          { insert: '\n' },
+          { insert: { divider: true } },
+          { insert: '\n' },
+        ],
+      });
+    });
+
+    it('should insert block embeds without a trailing newline', () => {
+      expect(markdownToDelta('a\n* * *\nb', { blockEmbeds: ['divider'] })).toEqual({
+        ops: [{ insert: 'a\n' }, { insert: { divider: true } }, { insert: 'b\n' }],
+      });
+    });
+
+    it('should honour custom hrString and fenceChar', () => {
+      const delta = markdownToDelta('===\n%%%py\nx\n%%%', { hrString: '===', fenceChar: '%%%' });
+      expect(delta.ops).toEqual([
+        { insert: { divider: true } },
+        { insert: '\nx' },
+        { insert: '\n', attributes: { 'code-block': 'py' } },
+      ]);
+    });
+  });
+
+  describe('lists', () => {
+    it('should import bullet, ordered and task items', () => {
+      expect(markdownToDelta('*   a\n1. b\n- [x] c\n- [ ] d')).toEqual({
+        ops: [
+          { insert: 'a' },
+          { insert: '\n', attributes: { list: 'bullet' } },
+          { insert: 'b' },
+          { insert: '\n', attributes: { list: 'ordered' } },
+          { insert: 'c' },
+          { insert: '\n', attributes: { list: 'checked' } },
+          { insert: 'd' },
+          { insert: '\n', attributes: { list: 'unchecked' } },
+        ],
+      });
+    });
+
+    it('should nest items by indentation of any width', () => {
+      const ops = (md: string) =>
+        markdownToDelta(md)
+          .ops.filter((op) => op.insert === '\n')
+          .map((op) => op.attributes?.indent ?? 0);
+
+      expect(ops('* a\n    * b\n        * c\n    * d\n* e')).toEqual([0, 1, 2, 1, 0]);
+      expect(ops('- a\n  - b\n    - c\n- d')).toEqual([0, 1, 2, 0]);
+    });
+
+    it('should not mistake emphasis for a bullet', () => {
+      expect(markdownToDelta('**bold** text').ops[0]).toEqual({
+        insert: 'bold',
+        attributes: { bold: true },
+      });
+    });
+
+    it('should honour a custom bullet character', () => {
+      expect(markdownToDelta('•  item', { bulletChar: '•' }).ops).toEqual([
+        { insert: 'item' },
+        { insert: '\n', attributes: { list: 'bullet' } },
+      ]);
+    });
+  });
+
+  describe('tables', () => {
+    it('should import pipe tables as table rows', () => {
+      expect(markdownToDelta('| a   | **b** |\n| --- | :---: |\n| c   |       |\nafter')).toEqual({
+        ops: [
+          { insert: 'a' },
+          { insert: '\n', attributes: { table: 'row-1' } },
+          { insert: 'b', attributes: { bold: true } },
+          { insert: '\n', attributes: { table: 'row-1' } },
+          { insert: 'c' },
+          { insert: '\n\n', attributes: { table: 'row-2' } },
+          { insert: 'after\n' },
+        ],
+      });
+    });
+
+    it('should unescape pipes inside cells and code spans', () => {
+      expect(markdownToDelta('| a\\|b | `x\\|y` |\n| --- | --- |').ops).toEqual([
+        { insert: 'a|b' },
+        { insert: '\n', attributes: { table: 'row-1' } },
+        { insert: 'x|y', attributes: { code: true } },
+        { insert: '\n', attributes: { table: 'row-1' } },
+      ]);
+    });
+
+    it('should number rows across tables', () => {
+      const rows = markdownToDelta('| a |\n| --- |\n\n| b |\n| --- |').ops.map(
+        (op) => op.attributes?.table,
+      );
+      expect(rows).toEqual([undefined, 'row-1', undefined, 'row-2']);
+    });
+
+    it('should keep a row without a separator as a paragraph', () => {
+      expect(markdownToDelta('| a |\n| b |')).toEqual({ ops: [{ insert: '| a |\n| b |\n' }] });
+    });
+  });
+
+  describe('inline', () => {
+    it('should import emphasis, strike and code', () => {
+      expect(markdownToDelta('**b** _i_ *i2* __b2__ ~~s~~ `c*d*`').ops).toEqual([
+        { insert: 'b', attributes: { bold: true } },
+        { insert: ' ' },
+        { insert: 'i', attributes: { italic: true } },
+        { insert: ' ' },
+        { insert: 'i2', attributes: { italic: true } },
+        { insert: ' ' },
+        { insert: 'b2', attributes: { bold: true } },
+        { insert: ' ' },
+        { insert: 's', attributes: { strike: true } },
+        { insert: ' ' },
+        { insert: 'c*d*', attributes: { code: true } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should import nested marks', () => {
+      expect(markdownToDelta('**_a_ b** ***c***').ops).toEqual([
+        { insert: 'a', attributes: { bold: true, italic: true } },
+        { insert: ' b', attributes: { bold: true } },
+        { insert: ' ' },
+        { insert: 'c', attributes: { bold: true, italic: true } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should keep unmatched and intraword delimiters literal', () => {
+      expect(markdownToDelta('2 * 3 * 4 snake_case_name **open').ops).toEqual([
+        { insert: '2 * 3 * 4 snake_case_name **open\n' },
+      ]);
+    });
+
+    it('should honour backslash escapes', () => {
+      expect(markdownToDelta('\\*not italic\\* C:\\path').ops).toEqual([
+        { insert: '*not italic* C:\\path\n' },
+      ]);
+    });
+
+    it('should import links with nested parentheses and formatted labels', () => {
+      expect(markdownToDelta('[**go** here](http://a.com/?x=(1))').ops).toEqual([
+        { insert: 'go', attributes: { link: 'http://a.com/?x=(1)', bold: true } },
+        { insert: ' here', attributes: { link: 'http://a.com/?x=(1)' } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should import images, optionally linked', () => {
+      expect(markdownToDelta('![alt](a.png) [![](b.png)](/big)').ops).toEqual([
+        { insert: { image: 'a.png' }, attributes: { alt: 'alt' } },
+        { insert: ' ' },
+        { insert: { image: 'b.png' }, attributes: { link: '/big' } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should keep flavor tags literal in standard Markdown', () => {
+      expect(markdownToDelta('<u>a</u> [STYLE bg=red]b[/STYLE]').ops).toEqual([
+        { insert: '<u>a</u> [STYLE bg=red]b[/STYLE]\n' },
+      ]);
+    });
+  });
+
+  describe('html flavor', () => {
+    it('should import <u>, <sub>, <sup> and attributor spans', () => {
+      const md =
+        '<u>u</u><sub>2</sub><sup color="red">3</sup><span background-color="#ff0" font="serif" size="large">s</span>';
+      expect(markdownToDelta(md, { flavor: 'html' }).ops).toEqual([
+        { insert: 'u', attributes: { underline: true } },
+        { insert: '2', attributes: { script: 'sub' } },
+        { insert: '3', attributes: { script: 'super', color: 'red' } },
+        { insert: 's', attributes: { background: '#ff0', font: 'serif', size: 'large' } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should import <embed> tags as custom embeds', () => {
+      const md = '<embed data-embed-type="mention" data-id="42" data-name="A &amp; B" />';
+      expect(markdownToDelta(md, { flavor: 'html' }).ops).toEqual([
+        { insert: { mention: { id: '42', name: 'A & B' } } },
+        { insert: '\n' },
+      ]);
+    });
+  });
+
+  describe('bracket flavor', () => {
+    it('should import nested [STYLE] tags', () => {
+      const md =
+        '[STYLE color=red][STYLE underline=true]a[/STYLE]b[/STYLE][STYLE sup=true]2[/STYLE]';
+      expect(markdownToDelta(md, { flavor: 'bracket' }).ops).toEqual([
+        { insert: 'a', attributes: { color: 'red', underline: true } },
+        { insert: 'b', attributes: { color: 'red' } },
+        { insert: '2', attributes: { script: 'super' } },
+        { insert: '\n' },
+      ]);
+    });
+
+    it('should import [EMBED] tags as custom embeds', () => {
+      expect(
+        markdownToDelta('[EMBED type=widget /] [EMBED type=poll id=7 /]', { flavor: 'bracket' })
+          .ops,
+      ).toEqual([
+        { insert: { widget: true } },
+        { insert: ' ' },
+        { insert: { poll: { id: '7' } } },
+        { insert: '\n' },
+      ]);
+    });
+  });
+
+  describe('round trip', () => {
+    const DOCUMENT = [
+      '# Title',
+      'Intro with **bold**, _italic_, ~~strike~~, `code` and [a link](https://x.y/?a=(b)).',
+      '',
+      '> quoted',
+      '> lines',
+      '*   one',
+      '*   **two**',
+      '    1. nested',
+      '    2. nested again',
+      '        - [x] done',
+      '        - [ ] todo',
+      '*   three',
+      '* * *',
+      '```ts',
+      'const a = 1;',
+      '',
+      'return a;',
+      '```',
+      '![alt](https://x.y/i.png)',
+      '## Closing',
+      'bye',
+    ].join('\n');
+
+    it('should reproduce MarkdownRenderer output', () => {
+      expectRoundTrip(DOCUMENT);
+    });
+
+    it('should reproduce HtmlMarkdownRenderer output', () => {
+      expectRoundTrip(
+        `${DOCUMENT}\nH<sub>2</sub>O, E=mc<sup>2</sup>, <u>under</u> and <span color="red" font="serif">styled</span>`,
+        'html',
+      );
+    });
+
+    it('should reproduce BracketMarkdownRenderer output', () => {
+      expectRoundTrip(
+        `${DOCUMENT}\nH[STYLE sub=true]2[/STYLE]O, [STYLE underline=true]under[/STYLE] and [STYLE bg=yellow][STYLE color=red]styled[/STYLE][/STYLE]`,
+        'bracket',
+      );
+    });
+
+    it('should recover a rendered delta', () => {
+      const delta: Delta = {
+        ops: [
+          { insert: 'Title' },
+          { insert: '\n', attributes: { header: 1 } },
+          { insert: 'Hello ' },
+          { insert: 'world', attributes: { bold: true, underline: true } },
+          { insert: '\nitem' },
+          { insert: '\n', attributes: { list: 'bullet' } },
+          { insert: 'sub' },
+          { insert: '\n', attributes: { list: 'ordered', indent: 1 } },
+        ],
+      };
+      expect(markdownToDelta(render(delta, 'html'), { flavor: 'html' })).toEqual(delta);
+      expect(markdownToDelta(render(delta, 'bracket'), { flavor: 'bracket' })).toEqual(delta);
+    });
+
+    it('should recover text that looks like strikethrough', () => {
+      const delta: Delta = { ops: [{ insert: '~~not strike~~ and a~b\n' }] };
+      for (const flavor of ['markdown', 'html', 'bracket'] as const) {
+        expect(markdownToDelta(render(delta, flavor), { flavor })).toEqual(delta);
+      }
+    });
+
+    it('should reproduce pipe tables', () => {
+      const table = [
+        '| Name  | Role         |',
+        '| ----- | ------------ |',
+        '| Alice | # lead \\| 1. |',
+      ];
+      for (const flavor of ['markdown', 'html', 'bracket'] as const) {
+        expectRoundTrip(['Team', ...table, 'Done'].join('\n'), flavor);
+      }
+    });
+
+    it('should recover a rendered table', () => {
+      const delta: Delta = {
+        ops: [
+          { insert: 'a|b' },
+          { insert: '\n', attributes: { table: 'row-1' } },
+          { insert: '*x*', attributes: { bold: true } },
+          { insert: '\n', attributes: { table: 'row-1' } },
+          { insert: '# c' },
+          { insert: '\n', attributes: { table: 'row-2' } },
+          { insert: '1. d' },
+          { insert: '\n', attributes: { table: 'row-2' } },
+        ],
+      };
+      for (const flavor of ['markdown', 'html', 'bracket'] as const) {
+        expect(markdownToDelta(render(delta, flavor), { flavor })).toEqual(delta);
+      }
+    });
+
+    it('should recover text that looks like an HTML tag in the html flavor', () => {
+      const delta: Delta = { ops: [{ insert: '<u>x</u> and a < b\n' }] };
+      expect(render(delta, 'html')).toBe('\\<u>x\\</u> and a \\< b');
+      expect(markdownToDelta(render(delta, 'html'), { flavor: 'html' })).toEqual(delta);
+    });
+  });
+});
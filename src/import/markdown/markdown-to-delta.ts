@@ -0,0 +1,279 @@
+import type { Attributes, Delta, DeltaOp } from '../../core/ast-types';
+import { pushInsert } from '../../core/delta-ops';
+import { parseInline } from './functions/parse-inline';
+import type {
+  MarkdownImportConfig,
+  ResolvedMarkdownImportConfig,
+} from './types/markdown-import-config';
+
+const HEADER = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const ORDERED_MARKER = /^\d{1,9}[.)](?:[ \t]+|$)/;
+const MARKER_GAP = /^(?:[ \t]+|$)/;
+const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/;
+const TABLE_ROW = /^ {0,3}\|.*\|[ \t]*$/;
+const TABLE_SEPARATOR = /^ {0,3}\|(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*$/;
+/** A `|` that is not escaped as `\|`. */
+const CELL_DELIMITER = /(?<!\\)\|/;
+
+// ─── Import State ───────────────────────────────────────────────────────────
+
+/** Mutable state threaded through the line scan. */
+interface ImportState {
+  cfg: ResolvedMarkdownImportConfig;
+  ops: DeltaOp[];
+  /** Leading whitespace widths of the open list items, outermost first. */
+  listIndents: number[];
+  /** Table rows imported so far, for numbering row ids. */
+  tableRows: number;
+}
+
+interface ListItemLine {
+  width: number;
+  listType: string;
+  content: string;
+}
+
+function resolveConfig(config?: MarkdownImportConfig): ResolvedMarkdownImportConfig {
+  const fenceChar = config?.fenceChar ?? '```';
+  return {
+    flavor: config?.flavor ?? 'markdown',
+    bulletChars: new Set(['*', '-', '+', config?.bulletChar ?? '*']),
+    hrString: config?.hrString ?? '* * *',
+    fences: [...new Set([fenceChar, '```', '~~~'])],
+    blockEmbeds: new Set(config?.blockEmbeds ?? ['video']),
+  };
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Convert Markdown into a Quill Delta — the inverse of the Markdown renderers.
+ *
+ * Understands everything `MarkdownRenderer` emits: ATX headers, `> `
+ * blockquotes, fenced code blocks with a language, `*`/`1.`/`- [x]` lists
+ * nested by indentation, horizontal rules (imported as `divider` embeds),
+ * GFM pipe tables (one `table` line per cell, with row ids `row-1`,
+ * `row-2`, …), `**`, `_`, `~~` and backtick marks, links and images. With
+ * `flavor: 'html'` or `flavor: 'bracket'` the tag extensions of
+ * `HtmlMarkdownRenderer` and `BracketMarkdownRenderer` are understood too.
+ *
+ * Each Markdown line becomes one Delta line, mirroring the renderers, which
+ * emit one line per Delta line. Rendering the result with the matching
+ * renderer reproduces the input.
+ *
+ * @example
+ * ```ts
+ * import { markdownToDelta } from 'quill-delta-renderer/import';
+ *
+ * markdownToDelta('# Title\n*   **Item**');
+ * // => { ops: [
+ * //   { insert: 'Title' }, { insert: '\n', attributes: { header: 1 } },
+ * //   { insert: 'Item', attributes: { bold: true } },
+ * //   { insert: '\n', attributes: { list: 'bullet' } },
+ * // ] }
+ * ```
+ */
+export function markdownToDelta(markdown: string, config?: MarkdownImportConfig): Delta {
+  const state: ImportState = {
+    cfg: resolveConfig(config),
+    ops: [],
+    listIndents: [],
+    tableRows: 0,
+  };
+
+  const lines = markdown.split(/\r?\n/);
+  while (lines.length > 0 && lines[lines.length - 1]!.trim() === '') {
+    lines.pop();
+  }
+
+  let i = 0;
+  while (i < lines.length) {
+    i = parseBlock(state, lines, i);
+  }
+
+  return { ops: state.ops };
+}
+
+// ─── Block Parsing ──────────────────────────────────────────────────────────
+
+/** Parse the block starting at line `i`. Returns the index of the next unread line. */
+function parseBlock(state: ImportState, lines: string[], i: number): number {
+  const line = lines[i]!;
+
+  const listItem = matchListItem(line, state.cfg);
+  if (listItem && !isThematicBreak(line, state.cfg)) {
+    insertListItem(state, listItem);
+    return i + 1;
+  }
+  state.listIndents = [];
+
+  const fence = state.cfg.fences.find((f) => line.trimStart().startsWith(f));
+  if (fence) {
+    return parseCodeBlock(state, lines, i, fence);
+  }
+
+  if (isThematicBreak(line, state.cfg)) {
+    insertLineEmbed(state, { divider: true });
+    return i + 1;
+  }
+
+  if (TABLE_ROW.test(line) && TABLE_SEPARATOR.test(lines[i + 1] ?? '')) {
+    return parseTable(state, lines, i);
+  }
+
+  const header = HEADER.exec(line);
+  if (header) {
+    insertLine(state, header[2] ?? '', { header: header[1]!.length });
+    return i + 1;
+  }
+
+  const quote = BLOCKQUOTE.exec(line);
+  if (quote) {
+    insertLine(state, quote[1]!, { blockquote: true });
+    return i + 1;
+  }
+
+  insertParagraph(state, line);
+  return i + 1;
+}
+
+function parseCodeBlock(state: ImportState, lines: string[], i: number, fence: string): number {
+  const language = lines[i]!.trimStart().slice(fence.length).trim();
+  const blockAttrs = { 'code-block': language || true };
+
+  let k = i + 1;
+  while (k < lines.length && lines[k]!.trim() !== fence) {
+    pushInsert(state.ops, lines[k]!);
+    pushInsert(state.ops, '\n', blockAttrs);
+    k++;
+  }
+
+  // Skip the closing fence (an unclosed block runs to the end of input)
+  return k + 1;
+}
+
+/** Import a pipe table: the header row, then body rows up to the first line that is not a row. */
+function parseTable(state: ImportState, lines: string[], i: number): number {
+  const insertRow = (line: string) => {
+    state.tableRows++;
+    const blockAttrs = { table: `row-${state.tableRows}` };
+    for (const cell of splitTableRow(line)) {
+      insertLine(state, cell, blockAttrs);
+    }
+  };
+
+  insertRow(lines[i]!);
+  let k = i + 2;
+  while (k < lines.length && TABLE_ROW.test(lines[k]!)) {
+    insertRow(lines[k]!);
+    k++;
+  }
+  return k;
+}
+
+function insertListItem(state: ImportState, item: ListItemLine): void {
+  // An item indented past the previous one nests under it; otherwise it
+  // closes every open item indented at least as far.
+  const { listIndents } = state;
+  while (listIndents.length > 0 && listIndents[listIndents.length - 1]! >= item.width) {
+    listIndents.pop();
+  }
+  const indent = listIndents.length;
+  listIndents.push(item.width);
+
+  const blockAttrs: Attributes = { list: item.listType };
+  if (indent > 0) blockAttrs.indent = indent;
+  insertLine(state, item.content, blockAttrs);
+}
+
+function insertParagraph(state: ImportState, line: string): void {
+  const lineOps = parseLineOps(state, line);
+
+  // A block embed on its own line is a block of its own
+  const only = lineOps.length === 1 ? lineOps[0]! : undefined;
+  if (only && isBlockEmbed(state, only)) {
+    state.ops.push(only);
+    return;
+  }
+
+  appendOps(state, lineOps);
+  pushInsert(state.ops, '\n');
+}
+
+function insertLine(state: ImportState, content: string, blockAttrs: Attributes): void {
+  appendOps(state, parseLineOps(state, content));
+  pushInsert(state.ops, '\n', blockAttrs);
+}
+
+function insertLineEmbed(state: ImportState, insert: Record<string, unknown>): void {
+  const op: DeltaOp = { insert };
+  state.ops.push(op);
+  if (!isBlockEmbed(state, op)) pushInsert(state.ops, '\n');
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function parseLineOps(state: ImportState, content: string): DeltaOp[] {
+  const lineOps: DeltaOp[] = [];
+  parseInline(content, {}, { flavor: state.cfg.flavor, ops: lineOps });
+  return lineOps;
+}
+
+function appendOps(state: ImportState, lineOps: DeltaOp[]): void {
+  for (const op of lineOps) {
+    pushInsert(state.ops, op.insert!, op.attributes);
+  }
+}
+
+function isBlockEmbed(state: ImportState, op: DeltaOp): boolean {
+  if (typeof op.insert !== 'object') return false;
+  const type = Object.keys(op.insert)[0];
+  return type !== undefined && state.cfg.blockEmbeds.has(type);
+}
+
+function isThematicBreak(line: string, cfg: ResolvedMarkdownImportConfig): boolean {
+  return line.trim() === cfg.hrString || THEMATIC_BREAK.test(line);
+}
+
+/**
+ * Split a pipe table row into the content of its cells. `\|` is unescaped
+ * before inline parsing, inside code spans too, as in GFM.
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .slice(1, -1)
+    .split(CELL_DELIMITER)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function matchListItem(line: string, cfg: ResolvedMarkdownImportConfig): ListItemLine | null {
+  const lead = /^[ \t]*/.exec(line)![0];
+  const rest = line.slice(lead.length);
+  let width = 0;
+  for (const c of lead) width += c === '\t' ? 4 : 1;
+
+  const ordered = ORDERED_MARKER.exec(rest);
+  if (ordered) {
+    return { width, listType: 'ordered', content: rest.slice(ordered[0].length) };
+  }
+
+  for (const bullet of cfg.bulletChars) {
+    if (!rest.startsWith(bullet)) continue;
+    const after = rest.slice(bullet.length);
+    const gap = MARKER_GAP.exec(after);
+    if (!gap) continue;
+
+    const content = after.slice(gap[0].length);
+    const task = TASK_MARKER.exec(content);
+    if (task) {
+      const listType = task[1] === ' ' ? 'unchecked' : 'checked';
+      return { width, listType, content: content.slice(task[0].length) };
+    }
+    return { width, listType: 'bullet', content };
+  }
+
+  return null;
+}
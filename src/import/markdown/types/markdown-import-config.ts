@@ -0,0 +1,66 @@
+/**
+ * Markdown dialect to import, matching the renderer that produced it:
+ *
+ * - `'markdown'` — standard Markdown only (`MarkdownRenderer`)
+ * - `'html'` — plus `<u>`, `<sub>`, `<sup>`, `<span ...>` and `<embed />`
+ *   tags (`HtmlMarkdownRenderer`)
+ * - `'bracket'` — plus `[STYLE ...]...[/STYLE]` and `[EMBED ... /]` tags
+ *   (`BracketMarkdownRenderer`)
+ */
+export type MarkdownFlavor = 'markdown' | 'html' | 'bracket';
+
+/**
+ * Configuration for {@link markdownToDelta}.
+ *
+ * All options are optional; the defaults match the output of the Markdown
+ * renderers with default settings.
+ */
+export interface MarkdownImportConfig {
+  /**
+   * Markdown dialect to import.
+   * @default 'markdown'
+   */
+  flavor?: MarkdownFlavor;
+
+  /**
+   * Extra character recognised as a bullet list marker, for output rendered
+   * with a custom `bulletChar`. `*`, `-` and `+` are always recognised.
+   * @default '*'
+   */
+  bulletChar?: string;
+
+  /**
+   * Extra line recognised as a horizontal rule, for output rendered with a
+   * custom `hrString`. Standard thematic breaks (`---`, `***`, `___`) are
+   * always recognised.
+   * @default '* * *'
+   */
+  hrString?: string;
+
+  /**
+   * Extra code fence, for output rendered with a custom `fenceChar`.
+   * ` ``` ` and `~~~` are always recognised.
+   * @default '```'
+   */
+  fenceChar?: string;
+
+  /**
+   * Embed types that are block-level. A block embed on a line of its own
+   * (including horizontal rules, imported as `divider`) is inserted without
+   * a trailing newline.
+   * @default ['video']
+   */
+  blockEmbeds?: string[];
+}
+
+/**
+ * Fully resolved import configuration with all defaults applied.
+ * @internal
+ */
+export interface ResolvedMarkdownImportConfig {
+  flavor: MarkdownFlavor;
+  bulletChars: Set<string>;
+  hrString: string;
+  fences: string[];
+  blockEmbeds: Set<string>;
+}
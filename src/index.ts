@@ -1,7 +1,7 @@
 // ─── Convenience API ────────────────────────────────────────────────────────
 //
-// The root barrel exports only the high-level convenience function and the
-// minimal set of types consumers need to call it. For everything else, use
+// The root barrel exports only the high-level convenience functions and the
+// minimal set of types consumers need to call them. For everything else, use
 // the dedicated subpath exports:
 //
 //   import { parseDelta, DeltaParser, ... } from 'quill-delta-renderer/core';
@@ -9,9 +9,13 @@
 //   import { SemanticHtmlRenderer, ... } from 'quill-delta-renderer/html';
 //   import { ReactRenderer } from 'quill-delta-renderer/react';
 //   import { MarkdownRenderer } from 'quill-delta-renderer/markdown';
+//   import { PlainTextRenderer } from 'quill-delta-renderer/text';
+//   import { htmlToDelta } from 'quill-delta-renderer/import';
 
 // Core types needed alongside parseQuillDelta
 export type { Delta, TNode, Transformer } from './core/ast-types';
 export { isEmbedNode, isTextNode } from './core/ast-types';
 export type { ParseQuillDeltaOptions } from './parse-quill-delta';
 export { parseQuillDelta } from './parse-quill-delta';
+export type { StreamQuillDeltaOptions } from './stream-quill-delta';
+export { streamQuillDelta } from './stream-quill-delta';
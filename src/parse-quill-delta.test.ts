@@ -118,4 +118,50 @@ describe('parseQuillDelta', () => {
     const videoNode = ast.children.find((c) => c.type === 'video');
     expect(videoNode).toBeDefined();
   });
+
+  it('should apply change deltas before parsing', () => {
+    const base: Delta = { ops: [{ insert: 'Hello world\n' }] };
+    const ast = parseQuillDelta(base, {
+      changes: [
+        { ops: [{ retain: 6 }, { retain: 5, attributes: { bold: true } }] },
+        { ops: [{ retain: 11 }, { retain: 1, attributes: { header: 2 } }] },
+      ],
+    });
+
+    expect(ast.children).toHaveLength(1);
+    const header = ast.children[0]!;
+    expect(header.type).toBe('header');
+    expect(header.attributes.header).toBe(2);
+    expect(header.children.map((c) => [c.data, c.attributes])).toEqual([
+      ['Hello ', {}],
+      ['world', { bold: true }],
+    ]);
+  });
+
+  it('should normalize the document before parsing when asked', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'a', attributes: { bold: true } },
+        { insert: 'b', attributes: { bold: true, color: null } },
+      ],
+    };
+
+    const ast = parseQuillDelta(delta, { normalize: true });
+
+    expect(ast.children[0]!.children).toHaveLength(1);
+    expect(ast.children[0]!.children[0]!.data).toBe('ab');
+  });
+
+  it('should coalesce adjacent text nodes when asked', () => {
+    const delta: Delta = {
+      ops: [
+        { insert: 'a', attributes: { bold: true } },
+        { insert: 'b', attributes: { bold: true } },
+        { insert: '\n' },
+      ],
+    };
+
+    expect(parseQuillDelta(delta).children[0]!.children).toHaveLength(2);
+    expect(parseQuillDelta(delta, { coalesceText: true }).children[0]!.children).toHaveLength(1);
+  });
 });
@@ -4,7 +4,10 @@ import { blockMerger } from './common/transformers/block-merger';
 import { codeBlockGrouper } from './common/transformers/code-block-grouper';
 import { listGrouper } from './common/transformers/list-grouper';
 import { tableGrouper } from './common/transformers/table-grouper';
+import { textCoalescer } from './common/transformers/text-coalescer';
 import type { Delta, ParserConfig, TNode, Transformer } from './core/ast-types';
+import { composeDeltas } from './core/compose';
+import { normalizeDelta } from './core/normalize';
 import { parseDelta } from './core/parser';
 import { applyTransformers } from './core/transformer';
 
@@ -12,6 +15,21 @@ import { applyTransformers } from './core/transformer';
  * Options for {@link parseQuillDelta}.
  */
 export interface ParseQuillDeltaOptions {
+  /**
+   * Change deltas (`retain`/`delete`/`insert` ops) applied to the input
+   * with {@link composeDeltas} before parsing, in order. Use this to render
+   * a document stored as a base delta plus a log of edits.
+   */
+  changes?: Delta[];
+
+  /**
+   * Bring the document into canonical form with {@link normalizeDelta}
+   * before parsing (after applying `changes`). Useful when the source
+   * Delta comes from clients that emit redundant ops.
+   * @default false
+   */
+  normalize?: boolean;
+
   /**
    * Additional block attribute handlers merged on top of the defaults.
    * Use this to support custom block-level formats.
@@ -25,6 +43,13 @@ export interface ParseQuillDeltaOptions {
    */
   blockEmbeds?: string[];
 
+  /**
+   * Record a `source` range on every node, mapping it back to the delta
+   * ops it came from. With `changes`, ranges refer to the composed document.
+   * @default false
+   */
+  sourceRanges?: boolean;
+
   /**
    * Configuration for the {@link blockMerger} transformer that merges
    * consecutive same-style blocks (paragraphs, blockquotes, headers,
@@ -36,9 +61,17 @@ export interface ParseQuillDeltaOptions {
    */
   blockMerger?: BlockMergerConfig | false;
 
+  /**
+   * Append the {@link textCoalescer} transformer, which merges adjacent
+   * text nodes with equal attributes so renderers emit one element per
+   * formatted run.
+   * @default false
+   */
+  coalesceText?: boolean;
+
   /**
    * Additional transformers appended after the standard ones
-   * (listGrouper, tableGrouper, codeBlockGrouper, blockMerger).
+   * (listGrouper, tableGrouper, codeBlockGrouper, blockMerger, textCoalescer).
    */
   extraTransformers?: Transformer[];
 
@@ -49,10 +82,13 @@ export interface ParseQuillDeltaOptions {
   transformers?: Transformer[];
 }
 
-function buildStandardTransformers(mergerConfig?: BlockMergerConfig | false): Transformer[] {
+function buildStandardTransformers(options?: ParseQuillDeltaOptions): Transformer[] {
   const transformers: Transformer[] = [listGrouper, tableGrouper, codeBlockGrouper];
-  if (mergerConfig !== false) {
-    transformers.push(blockMerger(mergerConfig));
+  if (options?.blockMerger !== false) {
+    transformers.push(blockMerger(options?.blockMerger));
+  }
+  if (options?.coalesceText) {
+    transformers.push(textCoalescer);
   }
   return transformers;
 }
@@ -84,22 +120,53 @@ function buildStandardTransformers(mergerConfig?: BlockMergerConfig | false): Tr
  *   extraTransformers: [myCustomGrouper],
  * });
  * ```
+ *
+ * @example
+ * ```ts
+ * // Render a base document with collaborative edits applied
+ * const ast = parseQuillDelta(base, { changes: [edit1, edit2] });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Canonicalize redundant ops from older clients first
+ * const ast = parseQuillDelta(delta, { normalize: true });
+ * ```
  */
 export function parseQuillDelta(delta: Delta, options?: ParseQuillDeltaOptions): TNode {
-  const config: ParserConfig = {
+  const composed = options?.changes?.length ? composeDeltas(delta, ...options.changes) : delta;
+  const source = options?.normalize ? normalizeDelta(composed) : composed;
+  const rawAst = parseDelta(source, buildParserConfig(options));
+
+  return applyTransformers(rawAst, buildTransformers(options));
+}
+
+// ─── Shared with streamQuillDelta ───────────────────────────────────────────
+
+/**
+ * Resolve the parser config for the given options.
+ * @internal
+ */
+export function buildParserConfig(options?: ParseQuillDeltaOptions): ParserConfig {
+  return {
     blockAttributes: {
       ...DEFAULT_BLOCK_ATTRIBUTES,
       ...options?.extraBlockAttributes,
     },
     blockEmbeds: options?.blockEmbeds ?? ['video'],
+    sourceRanges: options?.sourceRanges,
   };
+}
 
-  const rawAst = parseDelta(delta, config);
-
-  const transformers = options?.transformers ?? [
-    ...buildStandardTransformers(options?.blockMerger),
-    ...(options?.extraTransformers ?? []),
-  ];
-
-  return applyTransformers(rawAst, transformers);
+/**
+ * Resolve the transformer pipeline for the given options.
+ * @internal
+ */
+export function buildTransformers(options?: ParseQuillDeltaOptions): Transformer[] {
+  return (
+    options?.transformers ?? [
+      ...buildStandardTransformers(options),
+      ...(options?.extraTransformers ?? []),
+    ]
+  );
 }
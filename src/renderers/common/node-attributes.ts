@@ -20,6 +20,11 @@ export function asNumber(value: unknown): number | undefined {
   return typeof value === 'number' ? value : undefined;
 }
 
+/** Whether `value` is a plain object (not `null` or an array). */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 // ─── Block-level attributes ─────────────────────────────────────────────────
 
 /** Get the header level (1–6) from a header node. Returns `0` if missing/invalid. */
@@ -29,12 +34,70 @@ export function getHeaderLevel(node: TNode): number {
 
 /** Get the list type string (`'ordered'`, `'bullet'`, `'checked'`, `'unchecked'`). Returns `''` if missing. */
 export function getListType(node: TNode): string {
-  return asString(node.attributes.list) ?? '';
+  const list = node.attributes.list;
+  return asString(isRecord(list) ? list.list : list) ?? '';
 }
 
 /** Get the table row identifier, if present. */
 export function getTableRow(node: TNode): string | undefined {
-  return asString(node.attributes.table);
+  return asString(node.attributes.table) ?? asString(getCellLine(node)?.row);
+}
+
+/**
+ * The cell identity of a line inside a quill-better-table cell: the
+ * `table-cell-line` attribute, or the object value of `list` for list
+ * lines (`{ list: 'bullet', row, cell, rowspan, colspan }`).
+ */
+function getCellLine(node: TNode): Record<string, unknown> | undefined {
+  const cellLine = node.attributes['table-cell-line'] ?? node.attributes.list;
+  return isRecord(cellLine) ? cellLine : undefined;
+}
+
+/** Parse a table span (`colspan`/`rowspan`), stored as a number or numeric string. */
+function asSpan(value: unknown): number {
+  const span = typeof value === 'string' ? Number(value) : value;
+  return typeof span === 'number' && Number.isInteger(span) && span > 1 ? span : 1;
+}
+
+/** Whether a table cell is a header cell (`table-header: true`). */
+export function isHeaderCell(node: TNode): boolean {
+  return node.attributes['table-header'] === true;
+}
+
+/** Get a header cell's `scope` (`'col'` or `'row'`), set by `tableGrouper`. */
+export function getCellScope(node: TNode): string | undefined {
+  return asString(node.attributes.scope);
+}
+
+/** Get the number of columns a table cell spans. Returns `1` if missing/invalid. */
+export function getColSpan(node: TNode): number {
+  return asSpan(node.attributes.colspan ?? getCellLine(node)?.colspan);
+}
+
+/** Get the number of rows a table cell spans. Returns `1` if missing/invalid. */
+export function getRowSpan(node: TNode): number {
+  return asSpan(node.attributes.rowspan ?? getCellLine(node)?.rowspan);
+}
+
+/** Get the id of the cell a table line belongs to, for cells spanning several lines. */
+export function getCellId(node: TNode): string | undefined {
+  return asString(node.attributes.cell) ?? asString(getCellLine(node)?.cell);
+}
+
+/** Get a table's column widths (`''` where unset), set by `tableGrouper`. */
+export function getColumnWidths(node: TNode): string[] {
+  const widths = node.attributes['col-widths'];
+  return Array.isArray(widths) ? widths.map((width) => asString(width) ?? '') : [];
+}
+
+/** Get the anchor id (e.g. assigned by `headingAnchors`), if set. */
+export function getAnchorId(node: TNode): string | undefined {
+  return asString(node.attributes.id) || undefined;
+}
+
+/** Get the anchor id of the heading a `section` node is labelled by, if set. */
+export function getSectionHeadingId(node: TNode): string | undefined {
+  return asString(node.attributes.headingId) || undefined;
 }
 
 /** Get the text direction (`'rtl'`), if set. */
@@ -64,6 +127,11 @@ export function getLinkHref(node: TNode): string | undefined {
   return asString(node.attributes.link);
 }
 
+/** Get the title attribute (link or image tooltip). */
+export function getTitle(node: TNode): string | undefined {
+  return asString(node.attributes.title);
+}
+
 /** Get the width attribute. */
 export function getWidth(node: TNode): string | undefined {
   return asString(node.attributes.width);
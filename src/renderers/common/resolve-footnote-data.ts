@@ -0,0 +1,46 @@
+import type { TNode } from '../../core/ast-types';
+import { asNumber, asString } from './node-attributes';
+
+export interface FootnoteRefData {
+  /** The note's number */
+  number: number;
+  /** Anchor id of the reference, for back-links */
+  id: string;
+  /** Link to the note, e.g. `'#fn1'` */
+  href: string;
+}
+
+export interface FootnoteData {
+  number: number;
+  /** Anchor id of the note */
+  id: string;
+  /** Links back to the note's references, e.g. `['#fnref1']` */
+  backrefs: string[];
+}
+
+/**
+ * Extract the number and anchors of a `footnote-ref` node, created by
+ * `footnoteCollector`.
+ */
+export function resolveFootnoteRef(node: TNode): FootnoteRefData {
+  return {
+    number: asNumber(node.attributes.footnote) ?? 0,
+    id: asString(node.attributes.id) ?? '',
+    href: `#${asString(node.attributes.noteId) ?? ''}`,
+  };
+}
+
+/**
+ * Extract the number, anchor and back-links of a `footnote` node, created
+ * by `footnoteCollector`.
+ */
+export function resolveFootnote(node: TNode): FootnoteData {
+  const refIds = node.attributes.refIds;
+  return {
+    number: asNumber(node.attributes.footnote) ?? 0,
+    id: asString(node.attributes.id) ?? '',
+    backrefs: Array.isArray(refIds)
+      ? refIds.flatMap((id) => (typeof id === 'string' ? [`#${id}`] : []))
+      : [],
+  };
+}
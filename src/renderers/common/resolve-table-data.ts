@@ -0,0 +1,73 @@
+import { isValidWidth } from '../../common/utils/attribute-sanitizer';
+import type { TNode } from '../../core/ast-types';
+import {
+  getCellScope,
+  getColSpan,
+  getColumnWidths,
+  getRowSpan,
+  isHeaderCell,
+} from './node-attributes';
+
+// ─── Table ──────────────────────────────────────────────────────────────────
+
+/**
+ * Whether a `table` node's rows are grouped into `table-head` and
+ * `table-body` sections (tables with header cells or column widths).
+ */
+export function hasTableSections(table: TNode): boolean {
+  return table.children.some((child) => child.type === 'table-head' || child.type === 'table-body');
+}
+
+/**
+ * The `table-row` nodes of a table, in order, whether or not they are
+ * grouped into sections. For renderers without a notion of table sections.
+ */
+export function getTableRows(table: TNode): TNode[] {
+  return hasTableSections(table)
+    ? table.children.flatMap((section) => section.children)
+    : table.children;
+}
+
+/**
+ * A table's column widths, with invalid CSS widths replaced by `''`.
+ * Empty when the table sets no widths.
+ */
+export function resolveColumnWidths(table: TNode): string[] {
+  return getColumnWidths(table).map((width) => (isValidWidth(width) ? width.trim() : ''));
+}
+
+// ─── Cell ───────────────────────────────────────────────────────────────────
+
+export interface TableCellData {
+  /** `th` for header cells, `td` otherwise */
+  tag: 'th' | 'td';
+  /** `'col'` or `'row'` for header cells */
+  scope?: string;
+  colspan: number;
+  rowspan: number;
+}
+
+/**
+ * Extract the header flag, scope and spans of a `table-cell` node.
+ */
+export function resolveTableCell(node: TNode): TableCellData {
+  const header = isHeaderCell(node);
+  return {
+    tag: header ? 'th' : 'td',
+    scope: header ? getCellScope(node) : undefined,
+    colspan: getColSpan(node),
+    rowspan: getRowSpan(node),
+  };
+}
+
+/**
+ * HTML attributes for a table cell: `scope`, and `colspan`/`rowspan` when
+ * greater than one.
+ */
+export function tableCellAttrs(cell: TableCellData): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  if (cell.scope) attrs.scope = cell.scope;
+  if (cell.colspan > 1) attrs.colspan = String(cell.colspan);
+  if (cell.rowspan > 1) attrs.rowspan = String(cell.rowspan);
+  return attrs;
+}
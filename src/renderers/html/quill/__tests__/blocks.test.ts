@@ -1,4 +1,7 @@
 import { describe, expect, it } from 'vitest';
+import { headingAnchors } from '../../../../common/transformers/heading-anchors';
+import { parseQuillDelta } from '../../../../parse-quill-delta';
+import { QuillHtmlRenderer } from '../quill-html-renderer';
 import { renderDelta } from './test-helpers';
 
 describe('QuillHtmlRenderer integration: blocks', () => {
@@ -27,6 +30,16 @@ describe('QuillHtmlRenderer integration: blocks', () => {
     }
   });
 
+  it('should render a header anchor id', () => {
+    const ast = parseQuillDelta(
+      { ops: [{ insert: 'Intro' }, { insert: '\n', attributes: { header: 2, align: 'center' } }] },
+      { extraTransformers: [headingAnchors()] },
+    );
+    expect(new QuillHtmlRenderer().render(ast)).toBe(
+      '<h2 class="ql-align-center" id="intro">Intro</h2>',
+    );
+  });
+
   it('should render empty header with <br/>', () => {
     const html = renderDelta({
       ops: [{ insert: '\n', attributes: { header: 2 } }],
@@ -174,4 +174,35 @@ describe('QuillHtmlRenderer integration: tables', () => {
     expect(html).toContain('<td data-row="r2">22</td>');
     expect(html).toContain('<td data-row="r3">33</td>');
   });
+
+  it('should render header cells, spans and column widths', () => {
+    const html = renderDelta({
+      ops: [
+        { insert: 'Name' },
+        { insert: '\n', attributes: { table: 'r1', 'table-header': true, 'col-width': '60%' } },
+        { insert: 'Both' },
+        { insert: '\n', attributes: { table: 'r2', colspan: 2 } },
+      ],
+    });
+    expect(html).toContain(
+      '<table><colgroup><col style="width: 60%"><col></colgroup>' +
+        '<thead><tr><th data-row="r1" scope="col">Name</th></tr></thead>' +
+        '<tbody><tr><td data-row="r2" colspan="2">Both</td></tr></tbody></table>',
+    );
+  });
+
+  it('should render block content inside cells', () => {
+    const cellLine = { rowspan: '1', colspan: '1', row: 'r1', cell: 'c1' };
+    const html = renderDelta({
+      ops: [
+        { insert: 'Title' },
+        { insert: '\n', attributes: { header: 3, 'table-cell-line': cellLine } },
+        { insert: 'item' },
+        { insert: '\n', attributes: { list: { list: 'bullet', ...cellLine } } },
+      ],
+    });
+    expect(html).toContain(
+      '<td data-row="r1"><h3>Title</h3><ol><li data-list="bullet">item</li></ol></td>',
+    );
+  });
 });
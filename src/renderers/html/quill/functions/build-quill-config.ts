@@ -1,5 +1,6 @@
 import type { RendererConfig } from '../../../../core/ast-types';
 import {
+  getAnchorId,
   getHeaderLevel,
   getHeight,
   getListType,
@@ -11,6 +12,12 @@ import {
   resolveImageData,
   resolveVideoSrc,
 } from '../../../common/resolve-embed-data';
+import {
+  hasTableSections,
+  resolveColumnWidths,
+  resolveTableCell,
+  tableCellAttrs,
+} from '../../../common/resolve-table-data';
 import {
   boldMark,
   codeMark,
@@ -22,7 +29,7 @@ import {
 import { escapeHtml, serializeResolvedAttrs } from '../../base-html-renderer';
 import { buildAttrString } from '../../common/build-attr-string';
 import { getLayoutClasses } from '../../common/get-layout-classes';
-import type { ResolvedAttrs } from '../../common/resolved-attrs';
+import { EMPTY_RESOLVED_ATTRS, type ResolvedAttrs } from '../../common/resolved-attrs';
 
 const PREFIX = 'ql';
 
@@ -54,6 +61,7 @@ const QUILL_MARK_PRIORITIES: Record<string, number> = {
  * - `data-row` on table cells
  * - `data-list` for all list items
  * - `data-language` on code blocks with a specified language
+ * - `id` on headers with an anchor id (see `headingAnchors`)
  *
  * Layout classes (indent, align, direction) are computed centrally
  * via `blockAttributeResolvers` — no need to repeat in each handler.
@@ -71,7 +79,13 @@ export function buildQuillConfig(): RendererConfig<string, ResolvedAttrs> {
 
     // ─── Block Attribute Resolvers ────────────────────────────────────
     // Computed once per block, merged, and passed to every block handler.
-    blockAttributeResolvers: [(node) => ({ classes: getLayoutClasses(node, PREFIX) })],
+    blockAttributeResolvers: [
+      (node) => ({ classes: getLayoutClasses(node, PREFIX) }),
+      (node) => {
+        const id = node.type === 'header' ? getAnchorId(node) : undefined;
+        return id ? { attrs: { id } } : EMPTY_RESOLVED_ATTRS;
+      },
+    ],
 
     // ─── Blocks ──────────────────────────────────────────────────────
     blocks: {
@@ -117,8 +131,21 @@ export function buildQuillConfig(): RendererConfig<string, ResolvedAttrs> {
         return `<ol>${children}</ol>`;
       },
 
-      table: (_node, children) => {
-        return `<table><tbody>${children}</tbody></table>`;
+      table: (node, children) => {
+        const cols = resolveColumnWidths(node).map(
+          (width) => `<col${buildAttrString({ style: width && `width: ${width}` })}>`,
+        );
+        const colgroup = cols.length > 0 ? `<colgroup>${cols.join('')}</colgroup>` : '';
+        const body = hasTableSections(node) ? children : `<tbody>${children}</tbody>`;
+        return `<table>${colgroup}${body}</table>`;
+      },
+
+      'table-head': (_node, children) => {
+        return `<thead>${children}</thead>`;
+      },
+
+      'table-body': (_node, children) => {
+        return `<tbody>${children}</tbody>`;
       },
 
       'table-row': (_node, children) => {
@@ -127,11 +154,13 @@ export function buildQuillConfig(): RendererConfig<string, ResolvedAttrs> {
 
       'table-cell': (node, children) => {
         const row = getTableRow(node);
+        const cell = resolveTableCell(node);
         const attrs: Record<string, string> = {};
         if (row) {
           attrs['data-row'] = row;
         }
-        return `<td${buildAttrString(attrs)}>${children}</td>`;
+        Object.assign(attrs, tableCellAttrs(cell));
+        return `<${cell.tag}${buildAttrString(attrs)}>${children}</${cell.tag}>`;
       },
 
       image: (node) => {
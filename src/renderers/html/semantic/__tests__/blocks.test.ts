@@ -1,4 +1,6 @@
 import { describe, expect, it } from 'vitest';
+import { headingAnchors } from '../../../../common/transformers/heading-anchors';
+import { sectionGrouper } from '../../../../common/transformers/section-grouper';
 import type { Delta } from '../../../../core/ast-types';
 import { parseQuillDelta } from '../../../../parse-quill-delta';
 import { SemanticHtmlRenderer } from '../semantic-html-renderer';
@@ -31,6 +33,42 @@ describe('SemanticHtmlRenderer integration: blocks', () => {
     }
   });
 
+  it('should render a header anchor id', () => {
+    const ast = parseQuillDelta(
+      { ops: [{ insert: 'Intro' }, { insert: '\n', attributes: { header: 2 } }] },
+      { extraTransformers: [headingAnchors()] },
+    );
+    expect(new SemanticHtmlRenderer().render(ast)).toBe('<h2 id="intro">Intro</h2>');
+  });
+
+  it('should render nested sections labelled by their heading', () => {
+    const ast = parseQuillDelta(
+      {
+        ops: [
+          { insert: 'Intro' },
+          { insert: '\n', attributes: { header: 1 } },
+          { insert: 'text\nSetup' },
+          { insert: '\n', attributes: { header: 2 } },
+        ],
+      },
+      { extraTransformers: [headingAnchors(), sectionGrouper] },
+    );
+    expect(new SemanticHtmlRenderer().render(ast)).toBe(
+      '<section aria-labelledby="intro"><h1 id="intro">Intro</h1><p>text</p>' +
+        '<section aria-labelledby="setup"><h2 id="setup">Setup</h2></section></section>',
+    );
+  });
+
+  it('should render sections with the configured sectionTag', () => {
+    const ast = parseQuillDelta(
+      { ops: [{ insert: 'Intro' }, { insert: '\n', attributes: { header: 1 } }] },
+      { extraTransformers: [sectionGrouper] },
+    );
+    expect(new SemanticHtmlRenderer({ sectionTag: 'article' }).render(ast)).toBe(
+      '<article><h1>Intro</h1></article>',
+    );
+  });
+
   it('should render a blockquote', () => {
     const html = renderDelta({
       ops: [{ insert: 'A quote' }, { insert: '\n', attributes: { blockquote: true } }],
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { footnoteCollector } from '../../../../common/transformers/footnote-collector';
+import type { Delta } from '../../../../core/ast-types';
+import { parseQuillDelta } from '../../../../parse-quill-delta';
+import { SemanticHtmlRenderer } from '../semantic-html-renderer';
+
+function render(delta: Delta): string {
+  const ast = parseQuillDelta(delta, { extraTransformers: [footnoteCollector()] });
+  return new SemanticHtmlRenderer().render(ast);
+}
+
+describe('SemanticHtmlRenderer: footnotes', () => {
+  it('should render references and the footnotes list with back-references', () => {
+    const html = render({
+      ops: [{ insert: 'Claim', attributes: { footnote: 'Source <1>' } }, { insert: ' text\n' }],
+    });
+    expect(html).toBe(
+      '<p>Claim<sup><a href="#fn1" id="fnref1">1</a></sup> text</p>' +
+        '<section class="ql-footnotes"><ol>' +
+        '<li id="fn1">Source &lt;1&gt; <a href="#fnref1" class="ql-footnote-backref">↩</a></li>' +
+        '</ol></section>',
+    );
+  });
+
+  it('should keep marks inside the reference and link back to every reference', () => {
+    const html = render({
+      ops: [
+        { insert: 'a', attributes: { footnote: 'Note', bold: true } },
+        { insert: ' b ' },
+        { insert: 'c', attributes: { footnote: 'Note' } },
+        { insert: '\n' },
+      ],
+    });
+    expect(html).toContain('<strong>a</strong><sup><a href="#fn1" id="fnref1">1</a></sup>');
+    expect(html).toContain('c<sup><a href="#fn1" id="fnref1-2">1</a></sup>');
+    expect(html).toContain(
+      '<a href="#fnref1" class="ql-footnote-backref">↩</a> <a href="#fnref1-2" class="ql-footnote-backref">↩</a></li>',
+    );
+  });
+});
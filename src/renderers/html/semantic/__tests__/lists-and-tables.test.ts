@@ -136,4 +136,52 @@ describe('SemanticHtmlRenderer integration: tables', () => {
     expect(html).toContain('<td data-row="row-3">33</td>');
     expect(html).toContain('<p><br/></p>');
   });
+
+  it('should render header rows in <thead> with <th scope>', () => {
+    const html = renderDelta({
+      ops: [
+        { insert: 'Name' },
+        { insert: '\n', attributes: { table: 'row-1', 'table-header': true } },
+        { insert: 'Alice' },
+        { insert: '\n', attributes: { table: 'row-2', 'table-header': true } },
+        { insert: 'Dev' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+      ],
+    });
+    expect(html).toBe(
+      '<table><thead><tr><th data-row="row-1" scope="col">Name</th></tr></thead>' +
+        '<tbody><tr><th data-row="row-2" scope="row">Alice</th><td data-row="row-2">Dev</td></tr></tbody></table>',
+    );
+  });
+
+  it('should render colspan, rowspan and a <colgroup>', () => {
+    const html = renderDelta({
+      ops: [
+        { insert: 'a' },
+        { insert: '\n', attributes: { table: 'row-1', colspan: 2, rowspan: '2' } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { table: 'row-1', 'col-width': 80 } },
+      ],
+    });
+    expect(html).toBe(
+      '<table><colgroup><col /><col /><col style="width: 80px" /></colgroup><tbody><tr>' +
+        '<td data-row="row-1" colspan="2" rowspan="2">a</td><td data-row="row-1">b</td>' +
+        '</tr></tbody></table>',
+    );
+  });
+
+  it('should render block content inside cells', () => {
+    const cellLine = { rowspan: '1', colspan: '1', row: 'row-1', cell: 'cell-1' };
+    const html = renderDelta({
+      ops: [
+        { insert: 'Title' },
+        { insert: '\n', attributes: { header: 3, 'table-cell-line': cellLine } },
+        { insert: 'item' },
+        { insert: '\n', attributes: { list: { list: 'bullet', ...cellLine } } },
+      ],
+    });
+    expect(html).toBe(
+      '<table><tbody><tr><td data-row="row-1"><h3>Title</h3><ul><li>item</li></ul></td></tr></tbody></table>',
+    );
+  });
 });
@@ -1,6 +1,12 @@
 import { DEFAULT_MARK_PRIORITIES } from '../../../../common/default-mark-priorities';
 import type { BlockHandler, MarkHandler, RendererConfig, TNode } from '../../../../core/ast-types';
-import { getHeaderLevel, getListType, getTableRow } from '../../../common/node-attributes';
+import {
+  getAnchorId,
+  getHeaderLevel,
+  getListType,
+  getSectionHeadingId,
+  getTableRow,
+} from '../../../common/node-attributes';
 import {
   buildCodeBlockClassName,
   resolveCheckedState,
@@ -13,7 +19,14 @@ import {
   resolveImageData,
   resolveVideoSrc,
 } from '../../../common/resolve-embed-data';
+import { resolveFootnote, resolveFootnoteRef } from '../../../common/resolve-footnote-data';
 import { resolveMentionData } from '../../../common/resolve-mention-data';
+import {
+  hasTableSections,
+  resolveColumnWidths,
+  resolveTableCell,
+  tableCellAttrs,
+} from '../../../common/resolve-table-data';
 import {
   boldMark,
   codeMark,
@@ -96,8 +109,8 @@ function wrapWithHooks(
 
 /**
  * Build a full `RendererConfig` from the resolved semantic config.
- * Defines all block handlers (paragraph, header, blockquote, code-block,
- * list, table, image, video, formula, mention) and mark handlers
+ * Defines all block handlers (paragraph, header, section, blockquote, code-block,
+ * list, table, image, video, formula, mention, footnotes) and mark handlers
  * (bold, italic, underline, strike, link, script, code, font, size).
  *
  * Color and background are defined as `attributors` — they contribute
@@ -159,10 +172,19 @@ export function buildRendererConfig(cfg: ResolvedConfig): RendererConfig<string,
         const defaultTag = `h${level}`;
         const tag = cfg.customTag?.('header', node) ?? defaultTag;
         const content = children || '<br/>';
-        const attrStr = buildBlockAttrs(node, cfg);
+        const id = getAnchorId(node);
+        const attrStr = buildBlockAttrs(node, cfg, undefined, undefined, id ? { id } : undefined);
         return `<${tag}${attrStr}>${content}</${tag}>`;
       }),
 
+      section: h((node, children) => {
+        const tag = cfg.customTag?.('section', node) ?? cfg.sectionTag;
+        const headingId = getSectionHeadingId(node);
+        const extraAttrs = headingId ? { 'aria-labelledby': headingId } : undefined;
+        const attrStr = buildBlockAttrs(node, cfg, undefined, undefined, extraAttrs);
+        return `<${tag}${attrStr}>${children}</${tag}>`;
+      }),
+
       blockquote: h((node, children) => {
         const tag = cfg.customTag?.('blockquote', node) ?? 'blockquote';
         const content = children || '<br/>';
@@ -217,8 +239,22 @@ export function buildRendererConfig(cfg: ResolvedConfig): RendererConfig<string,
         return `<${tag}>${children}</${tag}>`;
       }),
 
-      table: h((_node, children) => {
-        return `<table><tbody>${children}</tbody></table>`;
+      table: h((node, children) => {
+        const widths = resolveColumnWidths(node);
+        const cols = widths.map(
+          (width) => `<col${buildAttrString({ style: width && `width: ${width}` })} />`,
+        );
+        const colgroup = cols.length > 0 ? `<colgroup>${cols.join('')}</colgroup>` : '';
+        const body = hasTableSections(node) ? children : `<tbody>${children}</tbody>`;
+        return `<table>${colgroup}${body}</table>`;
+      }),
+
+      'table-head': h((_node, children) => {
+        return `<thead>${children}</thead>`;
+      }),
+
+      'table-body': h((_node, children) => {
+        return `<tbody>${children}</tbody>`;
       }),
 
       'table-row': h((_node, children) => {
@@ -227,12 +263,14 @@ export function buildRendererConfig(cfg: ResolvedConfig): RendererConfig<string,
 
       'table-cell': h((node, children) => {
         const row = getTableRow(node);
+        const cell = resolveTableCell(node);
         const extraAttrs: Record<string, string> = {};
         if (row) {
           extraAttrs['data-row'] = row;
         }
+        Object.assign(extraAttrs, tableCellAttrs(cell));
         const attrStr = buildBlockAttrs(node, cfg, undefined, undefined, extraAttrs);
-        return `<td${attrStr}>${children}</td>`;
+        return `<${cell.tag}${attrStr}>${children}</${cell.tag}>`;
       }),
 
       image: h((node) => {
@@ -298,6 +336,26 @@ export function buildRendererConfig(cfg: ResolvedConfig): RendererConfig<string,
 
         return `<a${buildAttrString(attrs)}>${encodeText(mention.name, cfg)}</a>`;
       }),
+
+      // Produced by footnoteCollector
+      'footnote-ref': h((node, children) => {
+        const ref = resolveFootnoteRef(node);
+        const attrs = buildAttrString({ href: ref.href, id: ref.id });
+        return `${children}<sup><a${attrs}>${ref.number}</a></sup>`;
+      }),
+
+      footnotes: h((_node, children) => {
+        return `<section class="${cfg.classPrefix}-footnotes"><ol>${children}</ol></section>`;
+      }),
+
+      footnote: h((node, children) => {
+        const note = resolveFootnote(node);
+        const backrefs = note.backrefs.map(
+          (href) =>
+            ` <a${buildAttrString({ href, class: `${cfg.classPrefix}-footnote-backref` })}>↩</a>`,
+        );
+        return `<li${buildAttrString({ id: note.id })}>${children}${backrefs.join('')}</li>`;
+      }),
     },
 
     // ─── Element Marks (create wrapper elements) ─────────────────────
@@ -19,6 +19,7 @@ export function resolveConfig(config?: SemanticHtmlConfig): ResolvedConfig {
     orderedListTag: c.orderedListTag ?? 'ol',
     bulletListTag: c.bulletListTag ?? 'ul',
     listItemTag: c.listItemTag ?? 'li',
+    sectionTag: c.sectionTag ?? 'section',
     classPrefix: c.classPrefix ?? 'ql',
     inlineStyles,
     allowBackgroundClasses: c.allowBackgroundClasses ?? false,
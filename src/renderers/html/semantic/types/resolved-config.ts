@@ -15,6 +15,7 @@ export interface ResolvedConfig {
   orderedListTag: string;
   bulletListTag: string;
   listItemTag: string;
+  sectionTag: string;
   classPrefix: string;
   inlineStyles: false | InlineStyleOverrides;
   allowBackgroundClasses: boolean;
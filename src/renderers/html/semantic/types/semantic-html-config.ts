@@ -65,6 +65,8 @@ export interface SemanticHtmlConfig {
   bulletListTag?: string;
   /** Tag used for list items. Default: `'li'` */
   listItemTag?: string;
+  /** Tag used for `section` nodes from `sectionGrouper`, e.g. `'article'` or `'div'`. Default: `'section'` */
+  sectionTag?: string;
 
   // ─── Styling Mode ───────────────────────────────────────────────────────
 
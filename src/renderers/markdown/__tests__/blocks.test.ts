@@ -1,3 +1,6 @@
+import { sectionGrouper } from '../../../common/transformers/section-grouper';
+import { parseQuillDelta } from '../../../parse-quill-delta';
+import { MarkdownRenderer } from '../markdown-renderer';
 import { d, renderDelta } from './test-helpers';
 
 describe('MarkdownRenderer – blocks', () => {
@@ -24,6 +27,22 @@ describe('MarkdownRenderer – blocks', () => {
     });
   });
 
+  describe('sections', () => {
+    it('should render section blocks on separate lines', () => {
+      const ast = parseQuillDelta(
+        d(
+          { insert: 'Intro' },
+          { insert: '\n', attributes: { header: 1 } },
+          { insert: 'text\nSetup' },
+          { insert: '\n', attributes: { header: 2 } },
+          { insert: 'more\n' },
+        ),
+        { extraTransformers: [sectionGrouper] },
+      );
+      expect(new MarkdownRenderer().render(ast)).toBe('# Intro\ntext\n## Setup\nmore');
+    });
+  });
+
   describe('blockquotes', () => {
     it('should render a blockquote', () => {
       const md = renderDelta(
@@ -0,0 +1,124 @@
+import { d, renderDelta, renderDeltaBracket, renderDeltaHtml } from './test-helpers';
+
+const p = (text: string) => d({ insert: `${text}\n` });
+
+describe('MarkdownRenderer – escaping', () => {
+  describe('inline', () => {
+    it.each([
+      ['*not bold*', '\\*not bold\\*'],
+      ['_not italic_', '\\_not italic\\_'],
+      ['`not code`', '\\`not code\\`'],
+      ['[x](y)', '\\[x\\](y)'],
+      ['![alt](src)', '!\\[alt\\](src)'],
+      ['~~not strike~~', '\\~\\~not strike\\~\\~'],
+      ['a \\* b', 'a \\\\\\* b'],
+    ])('should escape %j', (text, expected) => {
+      expect(renderDelta(p(text))).toBe(expected);
+    });
+
+    it('should leave intraword underscores alone', () => {
+      expect(renderDelta(p('snake_case_name'))).toBe('snake_case_name');
+    });
+
+    it('should leave characters that are only special at line start alone mid-line', () => {
+      expect(renderDelta(p('C# > Java - or + 1. maybe'))).toBe('C# > Java - or + 1. maybe');
+    });
+
+    it('should leave a backslash before a non-punctuation character alone', () => {
+      expect(renderDelta(p('C:\\Users'))).toBe('C:\\Users');
+    });
+  });
+
+  describe('line start', () => {
+    it.each([
+      ['# not a heading', '\\# not a heading'],
+      ['### not a heading', '\\### not a heading'],
+      ['> not a quote', '\\> not a quote'],
+      ['- not a list', '\\- not a list'],
+      ['+ not a list', '\\+ not a list'],
+      ['1. not a list', '1\\. not a list'],
+      ['2) not a list', '2\\) not a list'],
+      ['---', '\\---'],
+      ['===', '\\==='],
+    ])('should escape %j', (text, expected) => {
+      expect(renderDelta(p(text))).toBe(expected);
+    });
+
+    it('should not escape markers that are not followed by whitespace', () => {
+      expect(renderDelta(p('#hashtag -dash +plus 1.5'))).toBe('#hashtag -dash +plus 1.5');
+    });
+
+    it('should escape line-start markers inside list items and blockquotes', () => {
+      const md = renderDelta(
+        d(
+          { insert: '1. step' },
+          { insert: '\n', attributes: { list: 'bullet' } },
+          { insert: '# quoted' },
+          { insert: '\n', attributes: { blockquote: true } },
+        ),
+      );
+      expect(md).toBe('*   1\\. step\n> \\# quoted');
+    });
+
+    it('should only treat the first text of a block as line start', () => {
+      const md = renderDelta(d({ insert: 'a', attributes: { bold: true } }, { insert: ' # b\n' }));
+      expect(md).toBe('**a** # b');
+    });
+
+    it('should not escape line-start markers inside table cells', () => {
+      const md = renderDelta(
+        d(
+          { insert: '# *a*' },
+          { insert: '\n', attributes: { table: 'row-1' } },
+          { insert: '1. > b' },
+          { insert: '\n', attributes: { table: 'row-1' } },
+        ),
+      );
+      expect(md.split('\n')[0]).toBe('| # \\*a\\* | 1. > b |');
+    });
+  });
+
+  describe('verbatim content', () => {
+    it('should not escape inline code', () => {
+      const md = renderDelta(d({ insert: '*ptr', attributes: { code: true } }, { insert: '\n' }));
+      expect(md).toBe('`*ptr`');
+    });
+
+    it('should not escape code blocks', () => {
+      const md = renderDelta(
+        d({ insert: '# comment *x*' }, { insert: '\n', attributes: { 'code-block': true } }),
+      );
+      expect(md).toBe('```\n# comment *x*\n```');
+    });
+
+    it('should keep Markdown produced by marks', () => {
+      const md = renderDelta(
+        d({ insert: 'a_b', attributes: { bold: true, link: 'https://x.y/a_b' } }, { insert: '\n' }),
+      );
+      expect(md).toBe('[**a_b**](https://x.y/a_b)');
+    });
+  });
+
+  describe('escapeMarkdown: false', () => {
+    it('should render text verbatim', () => {
+      expect(renderDelta(p('# *raw* [md](x)'), { escapeMarkdown: false })).toBe('# *raw* [md](x)');
+    });
+  });
+
+  it('should escape in HtmlMarkdownRenderer and BracketMarkdownRenderer', () => {
+    expect(renderDeltaHtml(p('# *x*'))).toBe('\\# \\*x\\*');
+    expect(renderDeltaBracket(p('[STYLE] *x*'))).toBe('\\[STYLE\\] \\*x\\*');
+  });
+
+  it('should not escape the HTML table fallback of HtmlMarkdownRenderer', () => {
+    const md = renderDeltaHtml(
+      d({ insert: '# *a* <b>' }, { insert: '\n', attributes: { table: 'row-1', colspan: 2 } }),
+    );
+    expect(md).toBe('<table><tbody><tr><td colspan="2"># *a* &lt;b&gt;</td></tr></tbody></table>');
+  });
+
+  it('should escape `<` only in HtmlMarkdownRenderer', () => {
+    expect(renderDeltaHtml(p('<u>x</u>'))).toBe('\\<u>x\\</u>');
+    expect(renderDelta(p('<u>x</u>'))).toBe('<u>x</u>');
+  });
+});
@@ -0,0 +1,37 @@
+import { footnoteCollector } from '../../../common/transformers/footnote-collector';
+import type { Delta } from '../../../core/ast-types';
+import { parseQuillDelta } from '../../../parse-quill-delta';
+import { HtmlMarkdownRenderer } from '../html-markdown-renderer';
+import { MarkdownRenderer } from '../markdown-renderer';
+import { d } from './test-helpers';
+
+const parse = (delta: Delta) =>
+  parseQuillDelta(delta, { extraTransformers: [footnoteCollector()] });
+
+describe('MarkdownRenderer – footnotes', () => {
+  it('should render [^n] references and definitions at the end', () => {
+    const ast = parse(
+      d(
+        { insert: 'Claim', attributes: { footnote: 'Source *one*' } },
+        { insert: ' and ' },
+        { insert: 'more', attributes: { footnote: 'Source two', italic: true } },
+        { insert: '\n' },
+      ),
+    );
+    expect(new MarkdownRenderer().render(ast)).toBe(
+      'Claim[^1] and _more_[^2]\n\n[^1]: Source \\*one\\*\n[^2]: Source two',
+    );
+  });
+
+  it('should reuse the number for repeated notes', () => {
+    const ast = parse(
+      d(
+        { insert: 'a', attributes: { footnote: 'Same' } },
+        { insert: ' b ' },
+        { insert: 'c', attributes: { footnote: 'Same' } },
+        { insert: '\n' },
+      ),
+    );
+    expect(new HtmlMarkdownRenderer().render(ast)).toBe('a[^1] b c[^1]\n\n[^1]: Same');
+  });
+});
@@ -0,0 +1,173 @@
+import { sectionGrouper } from '../../../common/transformers/section-grouper';
+import { parseQuillDelta } from '../../../parse-quill-delta';
+import { MarkdownRenderer } from '../markdown-renderer';
+import { d, renderDelta, renderDeltaBracket, renderDeltaHtml } from './test-helpers';
+
+const link = (text: string, url: string, extra?: Record<string, unknown>) => ({
+  insert: text,
+  attributes: { link: url, ...extra },
+});
+
+describe('MarkdownRenderer – link styles', () => {
+  describe('inline', () => {
+    it('should wrap destinations with spaces or unbalanced parentheses in angle brackets', () => {
+      const md = renderDelta(
+        d(
+          link('a', 'https://x.y/a b'),
+          { insert: ' ' },
+          link('b', 'https://x.y/b)'),
+          { insert: ' ' },
+          link('c', 'https://x.y/(c)'),
+          { insert: '\n' },
+        ),
+      );
+      expect(md).toBe('[a](<https://x.y/a b>) [b](<https://x.y/b)>) [c](https://x.y/(c))');
+    });
+
+    it('should render titles', () => {
+      const md = renderDelta(d(link('a', 'https://x.y', { title: 'Say "hi"' }), { insert: '\n' }));
+      expect(md).toBe('[a](https://x.y "Say \\"hi\\"")');
+    });
+  });
+
+  describe('reference', () => {
+    it('should number URLs in order of use and deduplicate them', () => {
+      const md = renderDelta(
+        d(
+          link('one', 'https://one.test'),
+          { insert: ' and ' },
+          link('two', 'https://two.test'),
+          { insert: '\n' },
+          link('one again', 'https://one.test'),
+          { insert: '\n' },
+        ),
+        { linkStyle: 'reference' },
+      );
+      expect(md).toBe(
+        [
+          '[one][1] and [two][2]',
+          '[one again][1]',
+          '',
+          '[1]: https://one.test',
+          '[2]: https://two.test',
+        ].join('\n'),
+      );
+    });
+
+    it('should collect images, titles and angle-bracket destinations', () => {
+      const md = renderDelta(
+        d(
+          { insert: { image: 'https://x.y/a b.png' }, attributes: { alt: 'pic' } },
+          link('doc', 'https://x.y/doc', { title: 'Docs' }),
+          { insert: '\n' },
+        ),
+        { linkStyle: 'reference' },
+      );
+      expect(md).toBe(
+        ['![pic][1][doc][2]', '', '[1]: <https://x.y/a b.png>', '[2]: https://x.y/doc "Docs"'].join(
+          '\n',
+        ),
+      );
+    });
+
+    it('should treat the same URL with a different title as a separate definition', () => {
+      const md = renderDelta(
+        d(link('a', 'https://x.y'), link('b', 'https://x.y', { title: 'T' }), { insert: '\n' }),
+        { linkStyle: 'reference' },
+      );
+      expect(md).toBe('[a][1][b][2]\n\n[1]: https://x.y\n[2]: https://x.y "T"');
+    });
+
+    it('should restart numbering for every render', () => {
+      const renderer = new MarkdownRenderer({ linkStyle: 'reference' });
+      const ast = parseQuillDelta(d(link('a', 'https://a.test'), { insert: '\n' }));
+      expect(renderer.render(ast)).toBe('[a][1]\n\n[1]: https://a.test');
+      expect(renderer.render(ast)).toBe('[a][1]\n\n[1]: https://a.test');
+    });
+
+    it('should not add definitions to documents without links', () => {
+      expect(renderDelta(d({ insert: 'plain\n' }), { linkStyle: 'reference' })).toBe('plain');
+    });
+  });
+
+  describe('collapsed', () => {
+    it('should label definitions with the link text', () => {
+      const md = renderDelta(
+        d(
+          link('Docs', 'https://docs.test'),
+          { insert: ' and ' },
+          link('docs', 'https://docs.test'),
+          { insert: '\n' },
+        ),
+        { linkStyle: 'collapsed' },
+      );
+      expect(md).toBe('[Docs][] and [docs][]\n\n[Docs]: https://docs.test');
+    });
+
+    it('should fall back to numbered labels for taken or unusable labels', () => {
+      const md = renderDelta(
+        d(
+          link('here', 'https://a.test'),
+          { insert: ' ' },
+          link('here', 'https://b.test'),
+          { insert: ' ' },
+          { insert: { image: 'https://c.test/i.png' } },
+          { insert: '\n' },
+        ),
+        { linkStyle: 'collapsed' },
+      );
+      expect(md).toBe(
+        [
+          '[here][] [here][1] ![][2]',
+          '',
+          '[here]: https://a.test',
+          '[1]: https://b.test',
+          '[2]: https://c.test/i.png',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('linkDefinitions: section', () => {
+    it('should emit definitions at the end of each section', () => {
+      const ast = parseQuillDelta(
+        d(
+          { insert: 'A' },
+          { insert: '\n', attributes: { header: 1 } },
+          link('a', 'https://a.test'),
+          { insert: '\n' },
+          { insert: 'B' },
+          { insert: '\n', attributes: { header: 1 } },
+          link('b', 'https://b.test'),
+          { insert: ' ' },
+          link('a', 'https://a.test'),
+          { insert: '\n' },
+        ),
+        { extraTransformers: [sectionGrouper] },
+      );
+      const md = new MarkdownRenderer({ linkStyle: 'reference', linkDefinitions: 'section' });
+      expect(md.render(ast)).toBe(
+        [
+          '# A',
+          '[a][1]',
+          '',
+          '[1]: https://a.test',
+          '# B',
+          '[b][2] [a][1]',
+          '',
+          '[2]: https://b.test',
+        ].join('\n'),
+      );
+    });
+  });
+
+  it('should apply to HtmlMarkdownRenderer and BracketMarkdownRenderer', () => {
+    const delta = d(link('a', 'https://a.test'), { insert: '\n' });
+    expect(renderDeltaHtml(delta, { linkStyle: 'reference' })).toBe(
+      '[a][1]\n\n[1]: https://a.test',
+    );
+    expect(renderDeltaBracket(delta, { linkStyle: 'collapsed' })).toBe(
+      '[a][]\n\n[a]: https://a.test',
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import type { TocEntry } from '../../../common/table-of-contents';
+import { MarkdownRenderer } from '../markdown-renderer';
+
+const TOC: TocEntry[] = [
+  {
+    id: 'intro',
+    text: 'Intro',
+    level: 1,
+    children: [
+      { id: 'setup', text: 'Setup', level: 2, children: [] },
+      { text: 'Untitled', level: 2, children: [] },
+    ],
+  },
+  { id: 'api', text: 'API', level: 1, children: [] },
+];
+
+describe('MarkdownRenderer – table of contents', () => {
+  it('should render a nested link list', () => {
+    expect(new MarkdownRenderer().renderTableOfContents(TOC)).toBe(
+      [
+        '*   [Intro](#intro)',
+        '    *   [Setup](#setup)',
+        '    *   Untitled',
+        '*   [API](#api)',
+      ].join('\n'),
+    );
+  });
+
+  it('should use the configured bullet and indent', () => {
+    const renderer = new MarkdownRenderer({
+      bulletChar: '-',
+      bulletPadding: ' ',
+      indentString: '  ',
+    });
+    expect(renderer.renderTableOfContents(TOC)).toBe(
+      ['- [Intro](#intro)', '  - [Setup](#setup)', '  - Untitled', '- [API](#api)'].join('\n'),
+    );
+  });
+
+  it('should escape Markdown syntax in heading text', () => {
+    const toc: TocEntry[] = [
+      { id: 'a-b', text: 'a]b *c* _d_', level: 1, children: [] },
+      { text: '# 1. [x]', level: 1, children: [] },
+    ];
+    expect(new MarkdownRenderer().renderTableOfContents(toc)).toBe(
+      ['*   [a\\]b \\*c\\* \\_d\\_](#a-b)', '*   \\# 1. \\[x\\]'].join('\n'),
+    );
+  });
+
+  it('should render an empty list as an empty string', () => {
+    expect(new MarkdownRenderer().renderTableOfContents([])).toBe('');
+  });
+});
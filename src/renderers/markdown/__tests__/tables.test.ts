@@ -0,0 +1,225 @@
+import type { TNode } from '../../../core/ast-types';
+import { HtmlMarkdownRenderer } from '../html-markdown-renderer';
+import { MarkdownRenderer } from '../markdown-renderer';
+import { d, renderDelta, renderDeltaBracket, renderDeltaHtml } from './test-helpers';
+
+/** Cells of one row, as ops with a shared row id. */
+function row(id: string, ...cells: Array<string | Array<Record<string, unknown>>>) {
+  return cells.flatMap((cell) => [
+    ...(typeof cell === 'string' ? (cell ? [{ insert: cell }] : []) : cell),
+    { insert: '\n', attributes: { table: id } },
+  ]);
+}
+
+function text(data: string): TNode {
+  return { type: 'text', attributes: {}, children: [], data, isInline: true };
+}
+
+function table(...rows: TNode[][]): TNode {
+  return {
+    type: 'root',
+    attributes: {},
+    isInline: false,
+    children: [
+      {
+        type: 'table',
+        attributes: {},
+        isInline: false,
+        children: rows.map((cells) => ({
+          type: 'table-row',
+          attributes: {},
+          isInline: false,
+          children: cells,
+        })),
+      },
+    ],
+  };
+}
+
+function cell(...children: TNode[]): TNode {
+  return { type: 'table-cell', attributes: {}, isInline: false, children };
+}
+
+describe('MarkdownRenderer – tables', () => {
+  it('should render a pipe table with a header separator row', () => {
+    const md = renderDelta(d(...row('r1', 'Name', 'Role'), ...row('r2', 'Alice', 'Developer')));
+    expect(md).toBe(
+      ['| Name  | Role      |', '| ----- | --------- |', '| Alice | Developer |'].join('\n'),
+    );
+  });
+
+  it('should pad narrow columns to the separator width', () => {
+    const md = renderDelta(d(...row('r1', 'a', 'b')));
+    expect(md).toBe(['| a   | b   |', '| --- | --- |'].join('\n'));
+  });
+
+  it('should pad short rows with empty cells', () => {
+    const md = renderDelta(d(...row('r1', 'a', 'b', 'c'), ...row('r2', 'd')));
+    expect(md).toBe(
+      ['| a   | b   | c   |', '| --- | --- | --- |', '| d   |     |     |'].join('\n'),
+    );
+  });
+
+  it('should escape pipes inside cells', () => {
+    const md = renderDelta(d(...row('r1', 'a|b'), ...row('r2', 'c')));
+    expect(md.split('\n')[0]).toBe('| a\\|b |');
+  });
+
+  it('should render inline formatting inside cells', () => {
+    const md = renderDelta(
+      d(...row('r1', [{ insert: 'bold', attributes: { bold: true } }]), ...row('r2', 'x')),
+    );
+    expect(md.split('\n')[0]).toBe('| **bold** |');
+  });
+
+  it('should render empty cells', () => {
+    const md = renderDelta(d(...row('r1', '', 'b')));
+    expect(md).toBe(['|     | b   |', '| --- | --- |'].join('\n'));
+  });
+
+  it('should separate a table from surrounding blocks', () => {
+    const md = renderDelta(d({ insert: 'Before\n' }, ...row('r1', 'a'), { insert: 'After\n' }));
+    expect(md).toBe(['Before', '| a   |', '| --- |', 'After'].join('\n'));
+  });
+
+  it('should replace line breaks inside cells with spaces', () => {
+    const md = new MarkdownRenderer().render(
+      table([
+        cell(
+          text('one'),
+          { type: 'line-break', attributes: {}, children: [], isInline: true },
+          text('two'),
+        ),
+      ]),
+    );
+    expect(md.split('\n')[0]).toBe('| one two |');
+  });
+
+  it('should flatten block content inside cells', () => {
+    const paragraph: TNode = {
+      type: 'paragraph',
+      attributes: {},
+      isInline: false,
+      children: [text('para')],
+    };
+    const md = new MarkdownRenderer().render(table([cell(text('lead'), paragraph)]));
+    expect(md.split('\n')[0]).toBe('| lead para |');
+  });
+
+  it('should keep only the inline content of cells holding a header and a list', () => {
+    const cellLine = { rowspan: '1', colspan: '1', row: 'row-1', cell: 'cell-1' };
+    const delta = d(
+      { insert: 'Title' },
+      { insert: '\n', attributes: { header: 3, 'table-cell-line': cellLine } },
+      { insert: 'item', attributes: { bold: true } },
+      { insert: '\n', attributes: { list: { list: 'bullet', ...cellLine } } },
+    );
+    expect(renderDelta(delta)).toBe(['| Title **item** |', '| -------------- |'].join('\n'));
+    expect(renderDeltaBracket(delta).split('\n')[0]).toBe('| Title **item** |');
+  });
+
+  it('should render pipe tables in BracketMarkdownRenderer', () => {
+    const md = renderDeltaBracket(d(...row('r1', 'a')));
+    expect(md).toBe(['| a   |', '| --- |'].join('\n'));
+  });
+});
+
+describe('HtmlMarkdownRenderer – tables', () => {
+  it('should render a pipe table', () => {
+    const md = renderDeltaHtml(d(...row('r1', 'a', 'b'), ...row('r2', 'c', 'd')));
+    expect(md).toBe(['| a   | b   |', '| --- | --- |', '| c   | d   |'].join('\n'));
+  });
+
+  it('should render line breaks inside cells as <br>', () => {
+    const md = new HtmlMarkdownRenderer().render(
+      table([
+        cell(
+          text('one'),
+          { type: 'line-break', attributes: {}, children: [], isInline: true },
+          text('two'),
+        ),
+      ]),
+    );
+    expect(md.split('\n')[0]).toBe('| one<br>two |');
+  });
+
+  it('should fall back to an HTML table when cells contain block content', () => {
+    const quote: TNode = {
+      type: 'blockquote',
+      attributes: {},
+      isInline: false,
+      children: [text('quoted')],
+    };
+    const md = new HtmlMarkdownRenderer().render(
+      table([cell(text('a|b')), cell(quote)], [cell(text('c'))]),
+    );
+    expect(md).toBe(
+      '<table><tbody><tr><td>a|b</td><td><blockquote>quoted</blockquote></td></tr>' +
+        '<tr><td>c</td></tr></tbody></table>',
+    );
+  });
+
+  it('should fall back to an HTML table for spanning cells, keeping header cells', () => {
+    const md = renderDeltaHtml(
+      d(
+        { insert: 'Both' },
+        { insert: '\n', attributes: { table: 'row-1', 'table-header': true, colspan: 2 } },
+        { insert: 'a' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+      ),
+    );
+    expect(md).toBe(
+      '<table><thead><tr><th scope="col" colspan="2">Both</th></tr></thead>' +
+        '<tbody><tr><td>a</td><td>b</td></tr></tbody></table>',
+    );
+  });
+
+  it('should render header rows of a sectioned table as a pipe table', () => {
+    const md = renderDelta(
+      d(
+        { insert: 'Name' },
+        { insert: '\n', attributes: { table: 'row-1', 'table-header': true } },
+        { insert: 'Alice' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+      ),
+    );
+    expect(md).toBe('| Name  |\n| ----- |\n| Alice |');
+  });
+
+  it('should fall back to an HTML table for cells holding blocks, with HTML content', () => {
+    const cellLine = { rowspan: '1', colspan: '1', row: 'row-1', cell: 'cell-1' };
+    const md = renderDeltaHtml(
+      d(
+        { insert: 'Title' },
+        { insert: '\n', attributes: { header: 3, 'table-cell-line': cellLine } },
+        { insert: 'item', attributes: { bold: true } },
+        { insert: '\n', attributes: { list: { list: 'bullet', ...cellLine } } },
+      ),
+    );
+    expect(md).toBe(
+      '<table><tbody><tr><td><h3>Title</h3><ul><li><strong>item</strong></li></ul></td></tr>' +
+        '</tbody></table>',
+    );
+  });
+
+  it('should render inline formatting of spanning cells as HTML', () => {
+    const md = renderDeltaHtml(
+      d(
+        { insert: 'x', attributes: { bold: true } },
+        { insert: ' & ' },
+        { insert: 'y', attributes: { italic: true } },
+        { insert: '\n', attributes: { table: 'row-1', colspan: 2 } },
+        { insert: 'a' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+      ),
+    );
+    expect(md).toBe(
+      '<table><tbody><tr><td colspan="2"><strong>x</strong> &amp; <em>y</em></td></tr>' +
+        '<tr><td>a</td><td>b</td></tr></tbody></table>',
+    );
+  });
+});
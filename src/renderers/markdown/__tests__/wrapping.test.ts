@@ -0,0 +1,119 @@
+import { d, renderDelta, renderDeltaHtml } from './test-helpers';
+
+const PROSE = 'The quick brown fox jumps over the lazy dog and keeps running';
+
+describe('MarkdownRenderer – wrapWidth', () => {
+  it('should not wrap by default', () => {
+    expect(renderDelta(d({ insert: `${PROSE}\n` }))).toBe(PROSE);
+  });
+
+  it('should wrap paragraphs at spaces', () => {
+    expect(renderDelta(d({ insert: `${PROSE}\n` }), { wrapWidth: 20 })).toBe(
+      ['The quick brown fox', 'jumps over the lazy', 'dog and keeps', 'running'].join('\n'),
+    );
+  });
+
+  it('should prefix wrapped blockquote lines', () => {
+    const md = renderDelta(
+      d({ insert: PROSE }, { insert: '\n', attributes: { blockquote: true } }),
+      { wrapWidth: 22 },
+    );
+    expect(md).toBe(
+      ['> The quick brown fox', '> jumps over the lazy', '> dog and keeps', '> running'].join('\n'),
+    );
+  });
+
+  it('should indent wrapped list items with the continuation indent', () => {
+    const md = renderDelta(
+      d(
+        { insert: PROSE },
+        { insert: '\n', attributes: { list: 'bullet' } },
+        { insert: 'nested item with several words' },
+        { insert: '\n', attributes: { list: 'ordered', indent: 1 } },
+      ),
+      { wrapWidth: 24 },
+    );
+    expect(md).toBe(
+      [
+        '*   The quick brown fox',
+        '    jumps over the lazy',
+        '    dog and keeps',
+        '    running',
+        '    1. nested item with',
+        '        several words',
+      ].join('\n'),
+    );
+  });
+
+  it('should never break inside inline code, links or URLs', () => {
+    const md = renderDelta(
+      d(
+        { insert: 'see ' },
+        { insert: 'a b c', attributes: { code: true } },
+        { insert: ' and ' },
+        { insert: 'the docs page', attributes: { link: 'https://example.com/a/long/path' } },
+        { insert: ' or https://example.com/another/long/path now\n' },
+      ),
+      { wrapWidth: 10 },
+    );
+    expect(md).toBe(
+      [
+        'see',
+        '`a b c`',
+        'and',
+        '[the docs page](https://example.com/a/long/path)',
+        'or',
+        'https://example.com/another/long/path',
+        'now',
+      ].join('\n'),
+    );
+  });
+
+  it('should not start a wrapped line with a block marker', () => {
+    const md = renderDelta(d({ insert: 'aaaa bbbb - cccc 12. dddd\n' }), {
+      wrapWidth: 9,
+      escapeMarkdown: false,
+    });
+    expect(md).toBe(['aaaa bbbb -', 'cccc 12.', 'dddd'].join('\n'));
+  });
+
+  it('should keep existing line breaks', () => {
+    const md = renderDelta(
+      d({ insert: 'one two' }, { insert: { 'line-break': true } }, { insert: 'three four five\n' }),
+      { wrapWidth: 10 },
+    );
+    expect(md).toBe('one two\nthree four\nfive');
+  });
+
+  it('should leave headings, code blocks and tables untouched', () => {
+    const md = renderDelta(
+      d(
+        { insert: 'A long heading here' },
+        { insert: '\n', attributes: { header: 1 } },
+        { insert: 'const a = 1; const b = 2;' },
+        { insert: '\n', attributes: { 'code-block': 'js' } },
+        { insert: 'cell with many words' },
+        { insert: '\n', attributes: { table: 'row-1' } },
+      ),
+      { wrapWidth: 10 },
+    );
+    expect(md).toBe(
+      [
+        '# A long heading here',
+        '```js',
+        'const a = 1; const b = 2;',
+        '```',
+        '| cell with many words |',
+        '| -------------------- |',
+      ].join('\n'),
+    );
+  });
+
+  it('should not break inside HTML tags in HtmlMarkdownRenderer', () => {
+    const md = renderDeltaHtml(
+      d({ insert: 'red words', attributes: { color: 'red' } }, { insert: ' after\n' }),
+      { wrapWidth: 12 },
+    );
+    expect(md).toBe('<span color="red">red\nwords</span>\nafter');
+  });
+});
@@ -1,10 +1,18 @@
 import type { RendererConfig, TNode } from '../../../core/ast-types';
 import { isEmbedNode } from '../../../core/ast-types';
 import { escapeHtml } from '../../html/base-html-renderer';
+import { SemanticHtmlRenderer } from '../../html/semantic/semantic-html-renderer';
 import type { ResolvedMarkdownConfig } from '../types/markdown-config';
 import type { MarkdownHtmlAttrs } from '../types/markdown-html-attrs';
 import { buildRendererConfig } from './build-renderer-config';
+import { escapeMarkdownTable } from './escape-markdown';
 import { serializeMarkdownHtmlAttrs } from './markdown-html-attrs';
+import {
+  hasBlockCellContent,
+  hasSpanningCells,
+  renderHtmlTable,
+  renderPipeTable,
+} from './render-table';
 
 /** Wrap content in HTML tag with optional attributor attrs (for underline/script). */
 function tagWithAttrs(tag: string, content: string, attrs: MarkdownHtmlAttrs | undefined): string {
@@ -16,11 +24,24 @@ function tagWithAttrs(tag: string, content: string, attrs: MarkdownHtmlAttrs | u
  * Build config for Markdown with HTML fallbacks. Underline and script are HTML
  * tags; color, background, font and size are **attributors** (like the HTML
  * renderers) so they merge into a single <span> tag. Supports embedAttributesHandler.
+ * Line breaks in table cells become `<br>`, and tables whose cells hold block
+ * content or span several columns or rows fall back to an HTML `<table>`
+ * whose cells are rendered by {@link SemanticHtmlRenderer}.
  */
 export function buildHtmlRendererConfig(
   cfg: ResolvedMarkdownConfig,
 ): RendererConfig<string, MarkdownHtmlAttrs> {
-  const base = buildRendererConfig(cfg);
+  const cellRenderer = new SemanticHtmlRenderer();
+  const renderHtmlCell = (cell: TNode): string =>
+    cellRenderer.render({ type: 'root', attributes: {}, isInline: false, children: cell.children });
+
+  const base = buildRendererConfig(cfg, (node, renderNode) => {
+    if (hasBlockCellContent(node) || hasSpanningCells(node)) {
+      return renderHtmlTable(node, renderHtmlCell);
+    }
+    const table = cfg.escapeMarkdown ? escapeMarkdownTable(node, cfg.escapeTags) : node;
+    return renderPipeTable(table, renderNode, '<br>');
+  });
   const {
     underline,
     script,
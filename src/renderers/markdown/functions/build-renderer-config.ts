@@ -1,21 +1,31 @@
 import { DEFAULT_MARK_PRIORITIES } from '../../../common/default-mark-priorities';
 import { isEmbedNode, type NodeOverrideContext, type TNode } from '../../../core/ast-types';
 import type { SimpleRendererConfig } from '../../../core/simple-renderer';
-import { getHeaderLevel } from '../../common/node-attributes';
+import { getHeaderLevel, getTitle } from '../../common/node-attributes';
 import { resolveCodeBlockLines } from '../../common/resolve-code-block-lines';
 import {
   resolveFormulaText,
   resolveImageData,
   resolveVideoSrc,
 } from '../../common/resolve-embed-data';
+import { resolveFootnote, resolveFootnoteRef } from '../../common/resolve-footnote-data';
 import type { ResolvedMarkdownConfig } from '../types/markdown-config';
+import { escapeMarkdownTable, escapeMarkdownTree } from './escape-markdown';
+import { createLinkReferences, type LinkReferences } from './link-references';
 import { padListItemContent } from './pad-list-item-content';
 
 /** Passthrough mark handler for marks with no Markdown equivalent. */
 const identity = (content: string): string => content;
 
+import { renderPipeTable } from './render-table';
 import { resolveCodeBlockLanguage } from './resolve-code-block-language';
 import { resolveListType } from './resolve-list-type';
+import { wrapText } from './wrap-text';
+
+type RenderNode = (node: TNode) => string;
+
+/** Renders a `table` node; see {@link buildRendererConfig}. */
+export type TableRenderer = (table: TNode, renderNode: RenderNode) => string;
 
 // ─── Node Override Helpers ─────────────────────────────────────────────────
 
@@ -30,6 +40,13 @@ function renderRoot(node: TNode, ctx: NodeOverrideContext<string>): string {
   return parts.join('\n');
 }
 
+/** Append pending reference definitions after `content`, separated by a blank line. */
+function appendDefinitions(content: string, refs: LinkReferences): string {
+  const definitions = refs.flush();
+  if (!definitions) return content;
+  return content ? `${content}\n\n${definitions}` : definitions;
+}
+
 function renderCodeBlockContainer(node: TNode, cfg: ResolvedMarkdownConfig): string {
   const { language, lines } = resolveCodeBlockLines(node);
   const lang = language && language !== 'plain' ? language : '';
@@ -40,7 +57,8 @@ function renderListNode(
   node: TNode,
   depth: number,
   cfg: ResolvedMarkdownConfig,
-  renderNode: (child: TNode) => string,
+  renderNode: RenderNode,
+  wrapWidth: number | undefined,
 ): string {
   let orderedIndex = 0;
   const items: string[] = [];
@@ -53,7 +71,7 @@ function renderListNode(
       orderedIndex++;
     }
 
-    items.push(renderListItem(child, listType, orderedIndex, depth, cfg, renderNode));
+    items.push(renderListItem(child, listType, orderedIndex, depth, cfg, renderNode, wrapWidth));
   }
 
   return items.join('\n');
@@ -65,21 +83,30 @@ function renderListItem(
   orderedIndex: number,
   depth: number,
   cfg: ResolvedMarkdownConfig,
-  renderNode: (child: TNode) => string,
+  renderNode: RenderNode,
+  wrapWidth: number | undefined,
 ): string {
   const indent = cfg.indentString.repeat(depth);
   const prefix = getListPrefix(listType, orderedIndex, cfg);
+  const continuation = indent + cfg.indentString;
 
   const inlineChildren = node.children.filter((c) => c.type !== 'list');
   const nestedLists = node.children.filter((c) => c.type === 'list');
 
   const rawContent = inlineChildren.map(renderNode).join('');
-  const content = padListItemContent(rawContent, indent + cfg.indentString);
+  let content = padListItemContent(rawContent, continuation);
+  if (wrapWidth) {
+    content = wrapText(
+      content,
+      wrapWidth - continuation.length,
+      wrapWidth - indent.length - prefix.length,
+    ).join(`\n${continuation}`);
+  }
 
   let result = `${indent}${prefix}${content}`;
 
   for (const nestedList of nestedLists) {
-    result += `\n${renderListNode(nestedList, depth + 1, cfg, renderNode)}`;
+    result += `\n${renderListNode(nestedList, depth + 1, cfg, renderNode, wrapWidth)}`;
   }
 
   return result;
@@ -106,13 +133,32 @@ function getListPrefix(
  * Build a full `SimpleRendererConfig<string>` for standard Markdown only.
  *
  * Defines all block handlers (paragraph, header, blockquote, code-block,
- * image, video, divider, formula, table pass-throughs) and mark handlers
- * (bold, italic, strike, code, link). Underline and script are stripped.
+ * image, video, divider, formula, footnotes) and mark handlers (bold, italic, strike,
+ * code, link). Underline and script are stripped.
  *
- * Node overrides handle `root`, `list`, and `code-block-container` — types
- * that need custom traversal logic not expressible as simple block handlers.
+ * Node overrides handle `root`, `section`, `list`, `table`, `footnotes` and
+ * `code-block-container` — types that need custom traversal logic not
+ * expressible as simple block handlers.
+ *
+ * Links and images go through a {@link LinkReferences} collector that the
+ * `root` override replaces for every render, so reference labels are
+ * numbered per document.
+ *
+ * Tables render with `renderTable` (a strict pipe table by default), with
+ * `wrapWidth` wrapping switched off inside them. The `root` override does
+ * not escape tables, so `renderTable` gets their text as it is and escapes
+ * it with {@link escapeMarkdownTable} where it writes Markdown.
  */
-export function buildRendererConfig(cfg: ResolvedMarkdownConfig): SimpleRendererConfig<string> {
+export function buildRendererConfig(
+  cfg: ResolvedMarkdownConfig,
+  renderTable: TableRenderer = (node, renderNode) => {
+    const table = cfg.escapeMarkdown ? escapeMarkdownTable(node, cfg.escapeTags) : node;
+    return renderPipeTable(table, renderNode, ' ');
+  },
+): SimpleRendererConfig<string> {
+  let refs = createLinkReferences(cfg.linkStyle);
+  let wrapWidth = cfg.wrapWidth;
+
   return {
     markPriorities: DEFAULT_MARK_PRIORITIES,
 
@@ -126,16 +172,48 @@ export function buildRendererConfig(cfg: ResolvedMarkdownConfig): SimpleRenderer
     nodeOverrides: {
       'line-break': () => '\n',
 
-      root: (node, ctx) => renderRoot(node, ctx),
+      root: (node, ctx) => {
+        const outer = refs;
+        refs = createLinkReferences(cfg.linkStyle);
+        try {
+          const content = renderRoot(
+            cfg.escapeMarkdown ? escapeMarkdownTree(node, cfg.escapeTags) : node,
+            ctx,
+          );
+          return appendDefinitions(content, refs);
+        } finally {
+          refs = outer;
+        }
+      },
+
+      // Sections from sectionGrouper: blocks inside keep their newline separators
+      section: (node, ctx) => {
+        const content = renderRoot(node, ctx);
+        return cfg.linkDefinitions === 'section' ? appendDefinitions(content, refs) : content;
+      },
 
       'code-block-container': (node) => renderCodeBlockContainer(node, cfg),
 
-      list: (node, ctx) => renderListNode(node, 0, cfg, ctx.renderNode),
+      list: (node, ctx) => renderListNode(node, 0, cfg, ctx.renderNode, wrapWidth),
+
+      // Footnote definitions from footnoteCollector: one per line, after a blank line
+      footnotes: (node, ctx) => `\n${node.children.map(ctx.renderNode).join('\n')}`,
+
+      table: (node, ctx) => {
+        const outer = wrapWidth;
+        wrapWidth = undefined;
+        try {
+          return renderTable(node, ctx.renderNode);
+        } finally {
+          wrapWidth = outer;
+        }
+      },
     },
 
     blocks: {
       paragraph: (_node, children) => {
-        return children || '';
+        const content = children || '';
+        return wrapWidth ? wrapText(content, wrapWidth).join('\n') : content;
       },
 
       header: (node, children) => {
@@ -146,10 +224,8 @@ export function buildRendererConfig(cfg: ResolvedMarkdownConfig): SimpleRenderer
 
       blockquote: (_node, children) => {
         const content = children || '';
-        return content
-          .split('\n')
-          .map((line) => `> ${line}`)
-          .join('\n');
+        const lines = wrapWidth ? wrapText(content, wrapWidth - 2) : content.split('\n');
+        return lines.map((line) => `> ${line}`).join('\n');
       },
 
       'code-block': (node, children) => {
@@ -162,7 +238,7 @@ export function buildRendererConfig(cfg: ResolvedMarkdownConfig): SimpleRenderer
       image: (node) => {
         const img = resolveImageData(node);
         if (!img) return '';
-        return `![${img.alt}](${img.src})`;
+        return refs.image(img.alt, img.src, getTitle(node));
       },
 
       video: (node) => {
@@ -175,11 +251,9 @@ export function buildRendererConfig(cfg: ResolvedMarkdownConfig): SimpleRenderer
         return resolveFormulaText(node);
       },
 
-      // Table blocks — basic passthrough rendering.
-      // A full table→markdown converter can be added via withBlock().
-      table: (_node, children) => children,
-      'table-row': (_node, children) => children,
-      'table-cell': (_node, children) => children,
+      'footnote-ref': (node, children) => `${children}[^${resolveFootnoteRef(node).number}]`,
+
+      footnote: (node, children) => `[^${resolveFootnote(node).number}]: ${children}`,
     },
 
     marks: {
@@ -187,7 +261,7 @@ export function buildRendererConfig(cfg: ResolvedMarkdownConfig): SimpleRenderer
       italic: (content) => `_${content}_`,
       strike: (content) => `~~${content}~~`,
       code: (content) => `\`${content}\``,
-      link: (content, value) => `[${content}](${String(value)})`,
+      link: (content, value, node) => refs.link(content, String(value), getTitle(node)),
 
       // No standard MD syntax — pass content through (strip)
       underline: identity,
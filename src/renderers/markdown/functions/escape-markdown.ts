@@ -0,0 +1,97 @@
+import type { TNode } from '../../../core/ast-types';
+
+/** Blocks whose text is emitted verbatim inside fences. */
+const VERBATIM_BLOCKS = new Set(['code-block', 'code-block-container']);
+
+/**
+ * Characters that change meaning anywhere in a line: `*`, `` ` ``, `[`, `]`,
+ * `~` (GFM strikethrough), `_` at a word boundary (intraword underscores
+ * never form emphasis), and a backslash that would otherwise escape the
+ * next character.
+ */
+const INLINE_SPECIAL = /\\(?=[!-/:-@[-`{-~]|$)|[*`[\]~]|(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu;
+
+/**
+ * Markers that only matter at the start of a line: ATX headings, block
+ * quotes, bullet list markers, setext underlines and thematic breaks.
+ */
+const LINE_START_MARKER = /^(\s{0,3})(#{1,6}(?=\s|$)|>|[-+](?=\s|$)|=+\s*$|-+\s*$)/;
+
+/** Ordered list markers (`1.` or `1)`) at the start of a line. */
+const LINE_START_ORDERED = /^(\s{0,3}\d{1,9})([.)])(?=\s|$)/;
+
+/**
+ * Backslash-escape the characters in `text` that Markdown would otherwise
+ * read as syntax. Line-start rules apply to every line after a newline,
+ * and to the first line when `atLineStart` is set.
+ *
+ * `|` is left alone: it only matters in tables, whose renderer escapes it.
+ * `<` is escaped with `escapeTags`, for flavors that read inline HTML tags.
+ */
+export function escapeMarkdownText(text: string, atLineStart: boolean, escapeTags = false): string {
+  let escaped = text.replace(INLINE_SPECIAL, '\\$&');
+  if (escapeTags) escaped = escaped.replace(/</g, '\\<');
+
+  return escaped
+    .split('\n')
+    .map((line, i) =>
+      i > 0 || atLineStart
+        ? line.replace(LINE_START_MARKER, '$1\\$2').replace(LINE_START_ORDERED, '$1\\$2')
+        : line,
+    )
+    .join('\n');
+}
+
+/**
+ * Return a copy of the tree with Markdown syntax escaped in its text nodes.
+ * Each text node knows whether it starts a line: at the start of its block
+ * or after a `line-break`. Code blocks and inline `code` are left verbatim.
+ * Tables are left to {@link escapeMarkdownTable}, as the HTML table
+ * fallback needs their text unescaped. Subtrees without changes are shared
+ * with the input.
+ */
+export function escapeMarkdownTree(node: TNode, escapeTags = false): TNode {
+  return escapeNode(node, escapeTags, true);
+}
+
+/**
+ * Return a copy of a `table` node with Markdown syntax escaped in its
+ * cells. Pipe table cells follow a `|` on one line, where line-start
+ * markers such as `#` or `1.` cannot start a block, so only inline syntax
+ * is escaped.
+ */
+export function escapeMarkdownTable(table: TNode, escapeTags = false): TNode {
+  return escapeNode(table, escapeTags, false);
+}
+
+/** @param lineStarts - Whether block starts and line breaks start a line */
+function escapeNode(node: TNode, escapeTags: boolean, lineStarts: boolean): TNode {
+  if (VERBATIM_BLOCKS.has(node.type)) return node;
+
+  let atLineStart = lineStarts;
+  let changed = false;
+
+  const children = node.children.map((child) => {
+    let result = child;
+
+    if (child.type === 'text' && typeof child.data === 'string') {
+      if (!child.attributes.code) {
+        const data = escapeMarkdownText(child.data, atLineStart, escapeTags);
+        if (data !== child.data) result = { ...child, data };
+      }
+      if (child.data !== '') atLineStart = lineStarts && child.data.endsWith('\n');
+    } else if (child.type === 'line-break') {
+      atLineStart = lineStarts;
+    } else if (child.isInline) {
+      atLineStart = false;
+    } else {
+      if (child.type !== 'table') result = escapeNode(child, escapeTags, lineStarts);
+      atLineStart = lineStarts;
+    }
+
+    if (result !== child) changed = true;
+    return result;
+  });
+
+  return changed ? { ...node, children } : node;
+}
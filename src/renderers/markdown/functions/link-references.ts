@@ -0,0 +1,123 @@
+import type { LinkStyle } from '../types/markdown-config';
+
+/**
+ * Formats link and image destinations in the configured {@link LinkStyle}
+ * and collects the reference definitions they need.
+ * @internal
+ */
+export interface LinkReferences {
+  /** Markdown for a link around already rendered `content`. */
+  link(content: string, url: string, title?: string): string;
+  /** Markdown for an image. */
+  image(alt: string, url: string, title?: string): string;
+  /**
+   * Definitions collected since the last call, one per line, or `''` if
+   * there are none.
+   */
+  flush(): string;
+}
+
+/** CommonMark caps link labels at 999 characters. */
+const MAX_LABEL_LENGTH = 999;
+
+/** Create a collector for one render of one document. @internal */
+export function createLinkReferences(style: LinkStyle): LinkReferences {
+  /** Normalized label → definition key (`url` + `title`) */
+  const labels = new Map<string, string>();
+  /** Definition key → label, for reusing numbered labels */
+  const numbered = new Map<string, string>();
+  const pending: string[] = [];
+  let counter = 0;
+
+  const define = (label: string, key: string, url: string, title: string | undefined) => {
+    labels.set(normalizeLabel(label), key);
+    pending.push(`[${label}]: ${formatDestination(url, title)}`);
+  };
+
+  const numberedLabel = (key: string, url: string, title: string | undefined): string => {
+    const existing = numbered.get(key);
+    if (existing) return existing;
+
+    let label: string;
+    do {
+      label = String(++counter);
+    } while (labels.has(label));
+
+    numbered.set(key, label);
+    define(label, key, url, title);
+    return label;
+  };
+
+  /** Reference part (`[1]` or `[]`) for link text `text`. */
+  const reference = (text: string, url: string, title: string | undefined): string => {
+    const key = `${url}\u0000${title ?? ''}`;
+    if (style === 'reference') return `[${numberedLabel(key, url, title)}]`;
+
+    // Collapsed: the text is the label, unless it can't be one or is taken
+    const normalized = normalizeLabel(text);
+    if (isValidLabel(text, normalized)) {
+      const owner = labels.get(normalized);
+      if (owner === key) return '[]';
+      if (owner === undefined) {
+        define(text, key, url, title);
+        return '[]';
+      }
+    }
+    return `[${numberedLabel(key, url, title)}]`;
+  };
+
+  return {
+    link(content, url, title) {
+      if (style === 'inline') return `[${content}](${formatDestination(url, title)})`;
+      return `[${content}]${reference(content, url, title)}`;
+    },
+
+    image(alt, url, title) {
+      if (style === 'inline') return `![${alt}](${formatDestination(url, title)})`;
+      return `![${alt}]${reference(alt, url, title)}`;
+    },
+
+    flush() {
+      return pending.splice(0).join('\n');
+    },
+  };
+}
+
+/**
+ * Format a link destination with an optional title. URLs that are empty or
+ * contain whitespace, angle brackets or unbalanced parentheses are wrapped
+ * in `<…>`.
+ *
+ * @example
+ * ```ts
+ * formatDestination('https://x.y/a b', 'Title'); // '<https://x.y/a b> "Title"'
+ * ```
+ * @internal
+ */
+export function formatDestination(url: string, title?: string): string {
+  const destination = needsAngleBrackets(url) ? `<${url.replace(/[<>]/g, '\\$&')}>` : url;
+  if (!title) return destination;
+  return `${destination} "${title.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function needsAngleBrackets(url: string): boolean {
+  if (url === '' || /[\s<>]/.test(url)) return true;
+
+  let depth = 0;
+  for (const char of url) {
+    if (char === '(') depth++;
+    else if (char === ')' && --depth < 0) return true;
+  }
+  return depth !== 0;
+}
+
+/** Labels match case-insensitively with collapsed whitespace. */
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function isValidLabel(label: string, normalized: string): boolean {
+  return (
+    normalized !== '' && label.length <= MAX_LABEL_LENGTH && !/(?<!\\)(?:\\\\)*[[\]]/.test(label)
+  );
+}
@@ -0,0 +1,30 @@
+import type { TocEntry } from '../../../common/table-of-contents';
+import type { ResolvedMarkdownConfig } from '../types/markdown-config';
+import { escapeMarkdownText } from './escape-markdown';
+
+/**
+ * Render table of contents entries as a nested bullet list of
+ * `[text](#id)` links, indented like nested lists. Entries without an id
+ * are rendered as plain text. Heading text is escaped like body text.
+ * @internal
+ */
+export function renderTableOfContents(
+  entries: TocEntry[],
+  cfg: ResolvedMarkdownConfig,
+  depth = 0,
+): string {
+  const indent = cfg.indentString.repeat(depth);
+
+  return entries
+    .map((entry) => {
+      // Link labels follow `[`; plain entries start the list item's line
+      const text = cfg.escapeMarkdown
+        ? escapeMarkdownText(entry.text, !entry.id, cfg.escapeTags)
+        : entry.text;
+      const label = entry.id ? `[${text}](#${entry.id})` : text;
+      const line = `${indent}${cfg.bulletChar}${cfg.bulletPadding}${label}`;
+      if (entry.children.length === 0) return line;
+      return `${line}\n${renderTableOfContents(entry.children, cfg, depth + 1)}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,140 @@
+import type { TNode } from '../../../core/ast-types';
+import { getTableRows, resolveTableCell, tableCellAttrs } from '../../common/resolve-table-data';
+import { buildAttrString } from '../../html/common/build-attr-string';
+
+type RenderNode = (node: TNode) => string;
+
+/** Minimum width of a column: the `---` of the separator row. */
+const MIN_COLUMN_WIDTH = 3;
+
+function isBlockChild(node: TNode): boolean {
+  return !node.isInline;
+}
+
+/**
+ * Whether any cell of a `table` node holds block-level children, which a
+ * pipe table row cannot represent.
+ */
+export function hasBlockCellContent(table: TNode): boolean {
+  return getTableRows(table).some((row) =>
+    row.children.some((cell) => cell.children.some(isBlockChild)),
+  );
+}
+
+/**
+ * Whether any cell of a `table` node spans several columns or rows, which
+ * a pipe table cannot represent.
+ */
+export function hasSpanningCells(table: TNode): boolean {
+  return getTableRows(table).some((row) =>
+    row.children.some((cell) => {
+      const { colspan, rowspan } = resolveTableCell(cell);
+      return colspan > 1 || rowspan > 1;
+    }),
+  );
+}
+
+/**
+ * Split nodes into lines of inline content: each run of inline nodes is a
+ * line, blocks contribute the lines of their children and embeds a line of
+ * their own. Block markers such as `###` or `*` are dropped this way.
+ */
+function inlineLines(nodes: TNode[]): TNode[][] {
+  const lines: TNode[][] = [];
+  let run: TNode[] = [];
+  const flush = () => {
+    if (run.length > 0) lines.push(run);
+    run = [];
+  };
+  for (const node of nodes) {
+    if (!isBlockChild(node)) {
+      run.push(node);
+      continue;
+    }
+    flush();
+    if (node.children.length > 0) lines.push(...inlineLines(node.children));
+    else if (node.data !== undefined) lines.push([node]);
+  }
+  flush();
+  return lines;
+}
+
+/**
+ * Render the inline content of a cell onto one line: line breaks, and the
+ * boundaries of block children, become `lineBreak`.
+ */
+function renderCellContent(cell: TNode, renderNode: RenderNode, lineBreak: string): string {
+  return inlineLines(cell.children)
+    .map((line) => line.map(renderNode).join(''))
+    .join(lineBreak)
+    .replace(/\r?\n/g, lineBreak);
+}
+
+function padEnd(text: string, width: number, fill: string): string {
+  return text + fill.repeat(Math.max(0, width - [...text].length));
+}
+
+/**
+ * Render a `table` node as a GitHub-flavored Markdown pipe table. The first
+ * row becomes the header row; shorter rows are padded with empty cells and
+ * every column is padded to its widest cell. `|` inside cells is escaped.
+ * Column and row spans are dropped: each cell takes one column, and cells
+ * holding blocks keep only their inline content, one line per block.
+ *
+ * ```
+ * | Name  | Role |
+ * | ----- | ---- |
+ * | Alice | Dev  |
+ * ```
+ *
+ * @param lineBreak - Replaces line breaks inside cells (`' '` for strict
+ *   Markdown, `'<br>'` where inline HTML is allowed)
+ */
+export function renderPipeTable(table: TNode, renderNode: RenderNode, lineBreak: string): string {
+  const rows = getTableRows(table).map((row) =>
+    row.children.map((cell) =>
+      renderCellContent(cell, renderNode, lineBreak).trim().replace(/\|/g, '\\|'),
+    ),
+  );
+  if (rows.length === 0) return '';
+
+  const columnCount = Math.max(1, ...rows.map((cells) => cells.length));
+  const widths = Array.from({ length: columnCount }, (_, col) =>
+    Math.max(MIN_COLUMN_WIDTH, ...rows.map((cells) => [...(cells[col] ?? '')].length)),
+  );
+
+  const formatRow = (cells: string[]): string =>
+    `| ${widths.map((width, col) => padEnd(cells[col] ?? '', width, ' ')).join(' | ')} |`;
+  const separator = `| ${widths.map((width) => '-'.repeat(width)).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [formatRow(header!), separator, ...body.map(formatRow)].join('\n');
+}
+
+/**
+ * Render a `table` node as a single-line HTML `<table>`, for content a pipe
+ * table cannot hold. Markdown is not parsed inside an HTML block, so
+ * `renderCell` must render a cell's children as HTML; header cells, spans
+ * and `<thead>` are kept.
+ */
+export function renderHtmlTable(table: TNode, renderCell: RenderNode): string {
+  const renderRows = (rows: TNode[]): string =>
+    rows
+      .map((row) => {
+        const cells = row.children.map((cell) => {
+          const data = resolveTableCell(cell);
+          const attrs = buildAttrString(tableCellAttrs(data));
+          return `<${data.tag}${attrs}>${renderCell(cell)}</${data.tag}>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+      })
+      .join('');
+
+  const sections = table.children.some((child) => child.type === 'table-head')
+    ? table.children.map((section) => {
+        const tag = section.type === 'table-head' ? 'thead' : 'tbody';
+        return `<${tag}>${renderRows(section.children)}</${tag}>`;
+      })
+    : [`<tbody>${renderRows(getTableRows(table))}</tbody>`];
+  return `<table>${sections.join('')}</table>`;
+}
@@ -11,6 +11,11 @@ export function resolveConfig(config?: MarkdownConfig): ResolvedMarkdownConfig {
     indentString: config?.indentString ?? '    ',
     hrString: config?.hrString ?? '* * *',
     fenceChar: config?.fenceChar ?? '```',
+    escapeMarkdown: config?.escapeMarkdown ?? true,
+    escapeTags: false,
+    linkStyle: config?.linkStyle ?? 'inline',
+    linkDefinitions: config?.linkDefinitions ?? 'document',
+    wrapWidth: config?.wrapWidth || undefined,
     embedHandler: config?.embedHandler,
     embedAttributesHandler: config?.embedAttributesHandler,
   };
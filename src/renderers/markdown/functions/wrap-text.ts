@@ -0,0 +1,142 @@
+/**
+ * A word to place on a line, with the whitespace that preceded it in the
+ * source line.
+ */
+interface Word {
+  space: string;
+  text: string;
+}
+
+/**
+ * Words that would start a heading, blockquote, list or setext underline if
+ * they began a line. Wrapping never moves one to the start of a line.
+ */
+const BLOCK_MARKER = /^(?:#{1,6}|>|[-+*]|=+|-+|\d{1,9}[.)])$/;
+
+/**
+ * Re-flow rendered Markdown to at most `width` columns (`firstWidth` for
+ * the first line), breaking only at spaces. Existing line breaks are kept,
+ * and inline code, links, images, tags and URLs are never split — a word
+ * longer than the width gets a line of its own.
+ *
+ * Returns the lines without any prefix; the caller adds `> `, list markers
+ * or continuation indents.
+ *
+ * @example
+ * ```ts
+ * wrapText('one two [a link](https://x.y) three', 12);
+ * // => ['one two', '[a link](https://x.y)', 'three']
+ * ```
+ * @internal
+ */
+export function wrapText(text: string, width: number, firstWidth = width): string[] {
+  const lines: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const limit = lines.length === 0 ? firstWidth : width;
+    if (columns(line) <= limit) {
+      lines.push(line);
+      continue;
+    }
+
+    let current = '';
+    let currentLimit = limit;
+    for (const [i, { space, text: word }] of splitWords(line).entries()) {
+      if (i === 0) {
+        current = space + word;
+      } else if (
+        word === '' ||
+        columns(current) + columns(space) + columns(word) <= currentLimit ||
+        BLOCK_MARKER.test(word)
+      ) {
+        current += space + word;
+      } else {
+        lines.push(current);
+        current = word;
+        currentLimit = width;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/** Display width, counting code points. */
+function columns(text: string): number {
+  return [...text].length;
+}
+
+/** Split a line at runs of spaces outside code spans, links, images and tags. */
+function splitWords(line: string): Word[] {
+  const words: Word[] = [];
+  let pos = 0;
+
+  while (pos < line.length) {
+    const wordStart = line.slice(pos).search(/[^ ]/);
+    if (wordStart === -1) {
+      // Trailing spaces stay attached to the last word
+      words.push({ space: line.slice(pos), text: '' });
+      break;
+    }
+
+    const start = pos + wordStart;
+    let end = start;
+    while (end < line.length && line[end] !== ' ') {
+      end = skipProtected(line, end);
+    }
+    words.push({ space: line.slice(pos, start), text: line.slice(start, end) });
+    pos = end;
+  }
+
+  return words;
+}
+
+/** Index just past the unbreakable span starting at `pos`, or `pos + 1`. */
+function skipProtected(line: string, pos: number): number {
+  const char = line[pos];
+
+  if (char === '\\') return pos + 2;
+
+  if (char === '`') {
+    const fence = /^`+/.exec(line.slice(pos))![0];
+    const close = line.indexOf(fence, pos + fence.length);
+    return close === -1 ? pos + fence.length : close + fence.length;
+  }
+
+  if (char === '<') {
+    const close = line.indexOf('>', pos + 1);
+    return close === -1 ? pos + 1 : close + 1;
+  }
+
+  if (char === '[') {
+    const close = matchingBracket(line, pos, '[', ']');
+    if (close === -1) return pos + 1;
+
+    // Link destination or reference label: `[text](url)`, `[text][ref]`
+    const next = line[close + 1];
+    if (next === '(' || next === '[') {
+      const end = matchingBracket(line, close + 1, next, next === '(' ? ')' : ']');
+      if (end !== -1) return end + 1;
+    }
+    return close + 1;
+  }
+
+  return pos + 1;
+}
+
+/** Index of the bracket closing the one at `pos`, skipping escapes; `-1` if unclosed. */
+function matchingBracket(line: string, pos: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = pos; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
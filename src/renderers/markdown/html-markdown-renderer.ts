@@ -37,7 +37,8 @@ function isSimpleTagMark(m: unknown): m is SimpleTagMark {
  */
 export class HtmlMarkdownRenderer extends BaseRenderer<string, MarkdownHtmlAttrs> {
   constructor(config?: MarkdownConfig) {
-    const cfg = resolveConfig(config);
+    // `<` in text would start a tag, such as the `<u>` used for underline
+    const cfg = { ...resolveConfig(config), escapeTags: true };
     super(buildHtmlRendererConfig(cfg));
   }
 
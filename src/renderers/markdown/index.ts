@@ -4,5 +4,7 @@ export { MarkdownRenderer } from './markdown-renderer';
 export type {
   EmbedAttributesHandler,
   EmbedHandler,
+  LinkDefinitionPlacement,
+  LinkStyle,
   MarkdownConfig,
 } from './types/markdown-config';
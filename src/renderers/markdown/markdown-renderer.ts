@@ -1,14 +1,16 @@
+import type { TocEntry } from '../../common/table-of-contents';
 import { SimpleRenderer } from '../../core/simple-renderer';
 import { buildRendererConfig } from './functions/build-renderer-config';
+import { renderTableOfContents } from './functions/render-table-of-contents';
 import { resolveConfig } from './functions/resolve-config';
-import type { MarkdownConfig } from './types/markdown-config';
+import type { MarkdownConfig, ResolvedMarkdownConfig } from './types/markdown-config';
 
 /**
  * Renders an AST into standard Markdown text.
  *
  * Supports all standard Quill block types (paragraphs, headers, blockquotes,
- * code blocks, lists, images, video, horizontal rules) and inline marks that
- * have native Markdown syntax: bold, italic, strike, code, link.
+ * code blocks, lists, GFM pipe tables, images, video, horizontal rules) and
+ * inline marks that have native Markdown syntax: bold, italic, strike, code, link.
  *
  * Formats with no standard Markdown equivalent (underline, script, color,
  * background, font, size) are stripped. For HTML fallbacks (e.g. `<u>`,
@@ -44,9 +46,30 @@ import type { MarkdownConfig } from './types/markdown-config';
  * ```
  */
 export class MarkdownRenderer extends SimpleRenderer<string> {
+  private readonly cfg: ResolvedMarkdownConfig;
+
   constructor(config?: MarkdownConfig) {
     const cfg = resolveConfig(config);
     super(buildRendererConfig(cfg));
+    this.cfg = cfg;
+  }
+
+  /**
+   * Render a table of contents (from `buildTableOfContents`) as a nested
+   * list of links to the heading anchors, using this renderer's bullet
+   * and indent settings.
+   *
+   * @example
+   * ```ts
+   * const ast = parseQuillDelta(delta, { extraTransformers: [headingAnchors()] });
+   * const md = new MarkdownRenderer();
+   * const page = `${md.renderTableOfContents(buildTableOfContents(ast))}\n\n${md.render(ast)}`;
+   * // *   [Intro](#intro)
+   * //     *   [Setup](#setup)
+   * ```
+   */
+  renderTableOfContents(entries: TocEntry[]): string {
+    return renderTableOfContents(entries, this.cfg);
   }
 
   // ─── SimpleRenderer Abstract Methods ─────────────────────────────────────
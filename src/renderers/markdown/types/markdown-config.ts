@@ -15,6 +15,22 @@ export type EmbedHandler = (node: TNode) => string | undefined;
  */
 export type EmbedAttributesHandler = (node: TNode) => Record<string, string> | undefined;
 
+/**
+ * How links and images are written:
+ *
+ * - `'inline'` — `[text](url)`
+ * - `'reference'` — `[text][1]`, with a numbered `[1]: url` definition
+ * - `'collapsed'` — `[text][]`, with a `[text]: url` definition labelled by
+ *   the link text (numbered when the text can't serve as a label)
+ */
+export type LinkStyle = 'inline' | 'reference' | 'collapsed';
+
+/**
+ * Where reference definitions are emitted: at the end of the document, or
+ * at the end of each `section` (from `sectionGrouper`) that uses them.
+ */
+export type LinkDefinitionPlacement = 'document' | 'section';
+
 /**
  * Configuration options for the {@link MarkdownRenderer}.
  *
@@ -52,6 +68,39 @@ export interface MarkdownConfig {
    */
   fenceChar?: string;
 
+  /**
+   * Backslash-escape Markdown syntax in text (`*`, `_`, `` ` ``, `[`, `]`, `~`,
+   * and `#`, `>`, `-`, `+`, `1.` at the start of a line) so it renders
+   * literally. `HtmlMarkdownRenderer` also escapes `<`. Text inside code
+   * blocks and inline code is never escaped.
+   * Set to `false` when text intentionally contains Markdown.
+   * @default true
+   */
+  escapeMarkdown?: boolean;
+
+  /**
+   * How links and images are written. With `'reference'` and `'collapsed'`,
+   * URLs are deduplicated and their definitions emitted after the content
+   * (see {@link linkDefinitions}). Link titles come from a `title` attribute.
+   * @default 'inline'
+   */
+  linkStyle?: LinkStyle;
+
+  /**
+   * Where reference definitions go when {@link linkStyle} is not `'inline'`.
+   * Definitions used outside any section always go at the end of the document.
+   * @default 'document'
+   */
+  linkDefinitions?: LinkDefinitionPlacement;
+
+  /**
+   * Maximum line width for paragraph, blockquote and list item text. Lines
+   * are re-flowed at spaces, never inside inline code, links, tags or URLs;
+   * headings, code blocks and tables are left as they are. Omit (or pass
+   * `0`) to keep every block on one line.
+   */
+  wrapWidth?: number;
+
   /**
    * Full override for custom embed nodes. Return the string to emit, or
    * `undefined` to fall back to attribute-based rendering (if configured) or empty.
@@ -75,6 +124,12 @@ export interface ResolvedMarkdownConfig {
   indentString: string;
   hrString: string;
   fenceChar: string;
+  escapeMarkdown: boolean;
+  /** Also escape `<` in text, for flavors that read inline HTML tags */
+  escapeTags: boolean;
+  linkStyle: LinkStyle;
+  linkDefinitions: LinkDefinitionPlacement;
+  wrapWidth?: number;
   embedHandler?: EmbedHandler;
   embedAttributesHandler?: EmbedAttributesHandler;
 }
@@ -1,3 +1,9 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { headingAnchors } from '../../../common/transformers/heading-anchors';
+import { sectionGrouper } from '../../../common/transformers/section-grouper';
+import { parseQuillDelta } from '../../../parse-quill-delta';
+import { ReactRenderer } from '../react-renderer';
 import { d, renderDelta } from './test-helpers';
 
 describe('ReactRenderer – blocks', () => {
@@ -22,6 +28,46 @@ describe('ReactRenderer – blocks', () => {
         expect(html).toBe(`<div><h${level}>Heading ${level}</h${level}></div>`);
       }
     });
+
+    it('should render the anchor id', () => {
+      const ast = parseQuillDelta(
+        d({ insert: 'Intro' }, { insert: '\n', attributes: { header: 2 } }),
+        {
+          extraTransformers: [headingAnchors()],
+        },
+      );
+      const html = renderToStaticMarkup(
+        createElement('div', null, new ReactRenderer().render(ast)),
+      );
+      expect(html).toBe('<div><h2 id="intro">Intro</h2></div>');
+    });
+  });
+
+  describe('sections', () => {
+    const delta = d(
+      { insert: 'Intro' },
+      { insert: '\n', attributes: { header: 1 } },
+      { insert: 'text\nSetup' },
+      { insert: '\n', attributes: { header: 2 } },
+    );
+
+    it('should render nested sections labelled by their heading', () => {
+      const ast = parseQuillDelta(delta, { extraTransformers: [headingAnchors(), sectionGrouper] });
+      const html = renderToStaticMarkup(
+        createElement('div', null, new ReactRenderer().render(ast)),
+      );
+      expect(html).toBe(
+        '<div><section aria-labelledby="intro"><h1 id="intro">Intro</h1><p>text</p>' +
+          '<section aria-labelledby="setup"><h2 id="setup">Setup</h2></section></section></div>',
+      );
+    });
+
+    it('should use the configured sectionTag', () => {
+      const ast = parseQuillDelta(delta, { extraTransformers: [sectionGrouper] });
+      const renderer = new ReactRenderer({ sectionTag: 'div' });
+      const html = renderToStaticMarkup(createElement('div', null, renderer.render(ast)));
+      expect(html).toBe('<div><div><h1>Intro</h1><p>text</p><div><h2>Setup</h2></div></div></div>');
+    });
   });
 
   describe('blockquotes', () => {
@@ -78,4 +124,47 @@ describe('ReactRenderer – blocks', () => {
       expect(html).toBe('<div><p>First paragraph</p><p>Second paragraph</p></div>');
     });
   });
+
+  describe('tables', () => {
+    it('should render a plain table in <tbody>', () => {
+      const html = renderDelta(
+        d({ insert: 'a' }, { insert: '\n', attributes: { table: 'row-1' } }),
+      );
+      expect(html).toBe(
+        '<div><table><tbody><tr><td data-row="row-1">a</td></tr></tbody></table></div>',
+      );
+    });
+
+    it('should render header cells, spans and column widths', () => {
+      const html = renderDelta(
+        d(
+          { insert: 'Name' },
+          { insert: '\n', attributes: { table: 'row-1', 'table-header': true, 'col-width': 100 } },
+          { insert: 'Both' },
+          { insert: '\n', attributes: { table: 'row-2', colspan: 2, rowspan: 2 } },
+        ),
+      );
+      expect(html).toBe(
+        '<div><table><colgroup><col style="width:100px"/><col/></colgroup>' +
+          '<thead><tr><th data-row="row-1" scope="col">Name</th></tr></thead>' +
+          '<tbody><tr><td data-row="row-2" colSpan="2" rowSpan="2">Both</td></tr></tbody>' +
+          '</table></div>',
+      );
+    });
+
+    it('should render block content inside cells', () => {
+      const cellLine = { rowspan: '1', colspan: '1', row: 'row-1', cell: 'cell-1' };
+      const html = renderDelta(
+        d(
+          { insert: 'Title' },
+          { insert: '\n', attributes: { header: 3, 'table-cell-line': cellLine } },
+          { insert: 'item' },
+          { insert: '\n', attributes: { list: { list: 'bullet', ...cellLine } } },
+        ),
+      );
+      expect(html).toBe(
+        '<div><table><tbody><tr><td data-row="row-1"><h3>Title</h3><ul><li>item</li></ul></td></tr></tbody></table></div>',
+      );
+    });
+  });
 });
@@ -0,0 +1,18 @@
+import { footnoteCollector } from '../../../common/transformers/footnote-collector';
+import { parseQuillDelta } from '../../../parse-quill-delta';
+import { d, renderAst } from './test-helpers';
+
+describe('ReactRenderer: footnotes', () => {
+  it('should render references and the footnotes list with back-references', () => {
+    const ast = parseQuillDelta(
+      d({ insert: 'Claim', attributes: { footnote: 'Source' } }, { insert: ' text\n' }),
+      { extraTransformers: [footnoteCollector()] },
+    );
+    expect(renderAst(ast)).toBe(
+      '<div><p>Claim<sup><a href="#fn1" id="fnref1">1</a></sup> text</p>' +
+        '<section class="ql-footnotes"><ol>' +
+        '<li id="fn1">Source <a href="#fnref1" class="ql-footnote-backref">↩</a></li>' +
+        '</ol></section></div>',
+    );
+  });
+});
@@ -4,7 +4,7 @@ import { DEFAULT_BLOCK_ATTRIBUTES } from '../../../common/default-block-attribut
 import { codeBlockGrouper } from '../../../common/transformers/code-block-grouper';
 import { listGrouper } from '../../../common/transformers/list-grouper';
 import { tableGrouper } from '../../../common/transformers/table-grouper';
-import type { Delta } from '../../../core/ast-types';
+import type { Delta, TNode } from '../../../core/ast-types';
 import { DeltaParser } from '../../../core/parser';
 import { ReactRenderer } from '../react-renderer';
 import type { ReactRendererConfig } from '../types/react-config';
@@ -34,15 +34,16 @@ function parseDelta(delta: Delta) {
  * always receives a single root element.
  */
 export function renderDelta(delta: Delta, config?: ReactRendererConfig): string {
-  const ast = parseDelta(delta);
-  const renderer = new ReactRenderer(config);
-  const element = renderer.render(ast);
-  return renderToStaticMarkup(createElement('div', null, element));
+  return renderAst(parseDelta(delta), new ReactRenderer(config));
 }
 
 /** Same as {@link renderDelta} but with a pre-configured renderer instance. */
 export function renderDeltaWith(delta: Delta, renderer: ReactRenderer): string {
-  const ast = parseDelta(delta);
+  return renderAst(parseDelta(delta), renderer);
+}
+
+/** Render an already parsed AST (e.g. with extra transformers) to static HTML. */
+export function renderAst(ast: TNode, renderer: ReactRenderer = new ReactRenderer()): string {
   const element = renderer.render(ast);
   return renderToStaticMarkup(createElement('div', null, element));
 }
@@ -1,7 +1,13 @@
-import { type ComponentType, createElement, type ReactNode } from 'react';
+import { type ComponentType, createElement, Fragment, type ReactNode } from 'react';
 import { DEFAULT_MARK_PRIORITIES } from '../../../common/default-mark-priorities';
 import type { RendererConfig, TNode } from '../../../core/ast-types';
-import { getHeaderLevel, getListType, getTableRow } from '../../common/node-attributes';
+import {
+  getAnchorId,
+  getHeaderLevel,
+  getListType,
+  getSectionHeadingId,
+  getTableRow,
+} from '../../common/node-attributes';
 import {
   buildCodeBlockClassName,
   resolveCheckedState,
@@ -14,7 +20,14 @@ import {
   resolveImageData,
   resolveVideoSrc,
 } from '../../common/resolve-embed-data';
+import { resolveFootnote, resolveFootnoteRef } from '../../common/resolve-footnote-data';
 import { resolveMentionData } from '../../common/resolve-mention-data';
+import {
+  hasTableSections,
+  resolveColumnWidths,
+  resolveTableCell,
+  type TableCellData,
+} from '../../common/resolve-table-data';
 import {
   boldMark,
   codeMark,
@@ -40,6 +53,19 @@ function resolveTag(
   return cfg.customTag?.(format, node) ?? defaultTag;
 }
 
+/**
+ * Props for a table cell: `data-row`, `scope`, and `colSpan`/`rowSpan`
+ * when greater than one.
+ */
+function tableCellProps(row: string | undefined, cell: TableCellData): Record<string, unknown> {
+  const props: Record<string, unknown> = {};
+  if (row) props['data-row'] = row;
+  if (cell.scope) props.scope = cell.scope;
+  if (cell.colspan > 1) props.colSpan = cell.colspan;
+  if (cell.rowspan > 1) props.rowSpan = cell.rowspan;
+  return props;
+}
+
 type BlockFn = (node: TNode, children: ReactNode, resolvedAttrs: ReactProps) => ReactNode;
 
 /**
@@ -119,8 +145,8 @@ function renderCodeBlockContainer(node: TNode, cfg: ResolvedReactConfig): ReactN
 /**
  * Build a full `RendererConfig<ReactNode, ReactProps>` from the resolved config.
  *
- * Defines all block handlers (paragraph, header, blockquote, code-block,
- * list, list-item, table, image, video, formula, mention) and mark handlers
+ * Defines all block handlers (paragraph, header, section, blockquote, code-block,
+ * list, list-item, table, image, video, formula, mention, footnotes) and mark handlers
  * (bold, italic, underline, strike, link, script, code, font, size).
  *
  * Marks reuse the framework-agnostic `SimpleTagMark` descriptors from
@@ -154,7 +180,14 @@ export function buildRendererConfig(
       header: withCustomComponent(cfg, 'header', (node, children) => {
         const level = getHeaderLevel(node);
         const tag = resolveTag(cfg, 'header', node, `h${level}`);
-        return createElement(tag, null, children || null);
+        const id = getAnchorId(node);
+        return createElement(tag, id ? { id } : null, children || null);
+      }),
+
+      section: withCustomComponent(cfg, 'section', (node, children) => {
+        const tag = resolveTag(cfg, 'section', node, cfg.sectionTag);
+        const headingId = getSectionHeadingId(node);
+        return createElement(tag, headingId ? { 'aria-labelledby': headingId } : null, children);
       }),
 
       blockquote: withCustomComponent(cfg, 'blockquote', (node, children) => {
@@ -197,8 +230,32 @@ export function buildRendererConfig(
         return createElement(tag, null, children);
       }),
 
-      table: withCustomComponent(cfg, 'table', (_node, children) => {
-        return createElement('table', null, createElement('tbody', null, children));
+      table: withCustomComponent(cfg, 'table', (node, children) => {
+        const widths = resolveColumnWidths(node);
+        const colgroup =
+          widths.length > 0
+            ? createElement(
+                'colgroup',
+                { key: 'colgroup' },
+                widths.map((width, i) =>
+                  createElement('col', { key: i, style: width ? { width } : undefined }),
+                ),
+              )
+            : null;
+        const body = hasTableSections(node)
+          ? children
+          : createElement('tbody', { key: 'tbody' }, children);
+        return colgroup
+          ? createElement('table', null, colgroup, body)
+          : createElement('table', null, body);
+      }),
+
+      'table-head': withCustomComponent(cfg, 'table-head', (_node, children) => {
+        return createElement('thead', null, children);
+      }),
+
+      'table-body': withCustomComponent(cfg, 'table-body', (_node, children) => {
+        return createElement('tbody', null, children);
       }),
 
       'table-row': withCustomComponent(cfg, 'table-row', (_node, children) => {
@@ -206,15 +263,14 @@ export function buildRendererConfig(
       }),
 
       'table-cell': withCustomComponent(cfg, 'table-cell', {
-        resolve: (node) => getTableRow(node),
-        render: (row, _node, children) => {
-          const props: Record<string, unknown> = {};
-          if (row) props['data-row'] = row;
-          return createElement('td', Object.keys(props).length > 0 ? props : null, children);
+        resolve: (node) => ({ row: getTableRow(node), cell: resolveTableCell(node) }),
+        render: ({ row, cell }, _node, children) => {
+          const props = tableCellProps(row, cell);
+          return createElement(cell.tag, Object.keys(props).length > 0 ? props : null, children);
         },
-        toProps: (row) => {
-          if (row) return { 'data-row': row };
-          return undefined;
+        toProps: ({ row, cell }) => {
+          const props = tableCellProps(row, cell);
+          return Object.keys(props).length > 0 ? props : undefined;
         },
       }),
 
@@ -290,6 +346,40 @@ export function buildRendererConfig(
           return props;
         },
       }),
+
+      // Produced by footnoteCollector
+      'footnote-ref': withCustomComponent(cfg, 'footnote-ref', {
+        resolve: (node) => resolveFootnoteRef(node),
+        render: (ref, _node, children) => {
+          const link = createElement('a', { href: ref.href, id: ref.id || undefined }, ref.number);
+          return createElement(Fragment, null, children, createElement('sup', null, link));
+        },
+        toProps: (ref) => ({ number: ref.number, id: ref.id, href: ref.href }),
+      }),
+
+      footnotes: withCustomComponent(cfg, 'footnotes', (_node, children) => {
+        return createElement(
+          'section',
+          { className: `${cfg.classPrefix}-footnotes` },
+          createElement('ol', null, children),
+        );
+      }),
+
+      footnote: withCustomComponent(cfg, 'footnote', {
+        resolve: (node) => resolveFootnote(node),
+        render: (note, _node, children) => {
+          const backrefs = note.backrefs.flatMap((href) => [
+            ' ',
+            createElement(
+              'a',
+              { key: href, href, className: `${cfg.classPrefix}-footnote-backref` },
+              '↩',
+            ),
+          ]);
+          return createElement('li', { id: note.id || undefined }, children, backrefs);
+        },
+        toProps: (note) => ({ number: note.number, id: note.id, backrefs: note.backrefs }),
+      }),
     },
 
     // ─── Element Marks (create wrapper elements) ─────────────────────────
@@ -11,6 +11,7 @@ export function resolveConfig(config?: ReactRendererConfig): ResolvedReactConfig
     classPrefix: c.classPrefix ?? 'ql',
     linkTarget: c.linkTarget ?? '_blank',
     linkRel: c.linkRel,
+    sectionTag: c.sectionTag ?? 'section',
     components: c.components ?? {},
     customTag: c.customTag,
     urlSanitizer: c.urlSanitizer,
@@ -46,6 +46,12 @@ export interface ReactRendererConfig {
    */
   linkRel?: string;
 
+  /**
+   * Tag used for `section` nodes from `sectionGrouper`, e.g. `'article'` or `'div'`.
+   * @default 'section'
+   */
+  sectionTag?: string;
+
   /**
    * Map of block types to custom React components.
    *
@@ -98,6 +104,7 @@ export interface ResolvedReactConfig {
   classPrefix: string;
   linkTarget: string;
   linkRel: string | undefined;
+  sectionTag: string;
   components: Record<string, ComponentType<BlockComponentProps>>;
   customTag: ((format: string, node: TNode) => string | undefined) | undefined;
   urlSanitizer: ((url: string) => string | undefined) | undefined;
@@ -0,0 +1,170 @@
+import type { Delta } from '../../../core/ast-types';
+import { type ParseQuillDeltaOptions, parseQuillDelta } from '../../../parse-quill-delta';
+import { PlainTextRenderer } from '../plain-text-renderer';
+import type { PlainTextConfig } from '../types/plain-text-config';
+
+function renderDelta(
+  ops: Delta['ops'],
+  config?: PlainTextConfig,
+  options?: ParseQuillDeltaOptions,
+): string {
+  return new PlainTextRenderer(config).render(parseQuillDelta({ ops }, options));
+}
+
+describe('PlainTextRenderer', () => {
+  describe('blocks', () => {
+    it('should render one line per block without formatting', () => {
+      const text = renderDelta([
+        { insert: 'Title' },
+        { insert: '\n', attributes: { header: 1 } },
+        { insert: 'Some ' },
+        { insert: 'bold', attributes: { bold: true, color: 'red' } },
+        { insert: ' text\n' },
+        { insert: 'quoted' },
+        { insert: '\n', attributes: { blockquote: true } },
+      ]);
+      expect(text).toBe('Title\nSome bold text\nquoted');
+    });
+
+    it('should keep empty lines and drop trailing ones', () => {
+      expect(renderDelta([{ insert: 'a\n\nb\n\n\n' }])).toBe('a\n\nb');
+    });
+
+    it('should render code blocks line by line', () => {
+      const text = renderDelta([
+        { insert: 'const a = 1;' },
+        { insert: '\n', attributes: { 'code-block': 'js' } },
+        { insert: 'return a;' },
+        { insert: '\n', attributes: { 'code-block': 'js' } },
+      ]);
+      expect(text).toBe('const a = 1;\nreturn a;');
+    });
+
+    it('should render dividers with hrString', () => {
+      const ops = [{ insert: 'a\n' }, { insert: { divider: true } }, { insert: 'b\n' }];
+      const options = { blockEmbeds: ['divider'] };
+      expect(renderDelta(ops, {}, options)).toBe('a\n---\nb');
+      expect(renderDelta(ops, { hrString: '***' }, options)).toBe('a\n***\nb');
+    });
+  });
+
+  describe('paragraphSpacing', () => {
+    it('should put blank lines between blocks', () => {
+      const ops = [{ insert: 'a\nb\n' }];
+      const options = { blockMerger: false as const };
+      expect(renderDelta(ops, { paragraphSpacing: 1 }, options)).toBe('a\n\nb');
+      expect(renderDelta(ops, { paragraphSpacing: 2 }, options)).toBe('a\n\n\nb');
+    });
+
+    it('should keep merged lines together', () => {
+      const ops = [
+        { insert: 'a\nb\n' },
+        { insert: 'c' },
+        { insert: '\n', attributes: { header: 2 } },
+      ];
+      expect(renderDelta(ops, { paragraphSpacing: 1 })).toBe('a\nb\n\nc');
+    });
+  });
+
+  describe('lists', () => {
+    it('should render markers, numbering and indentation', () => {
+      const text = renderDelta([
+        { insert: 'one' },
+        { insert: '\n', attributes: { list: 'ordered' } },
+        { insert: 'nested' },
+        { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+        { insert: 'two' },
+        { insert: '\n', attributes: { list: 'ordered' } },
+        { insert: 'done' },
+        { insert: '\n', attributes: { list: 'checked', indent: 1 } },
+        { insert: 'todo' },
+        { insert: '\n', attributes: { list: 'unchecked', indent: 1 } },
+      ]);
+      expect(text).toBe(['1. one', '  - nested', '2. two', '  [x] done', '  [ ] todo'].join('\n'));
+    });
+
+    it('should use bulletChar and indentString', () => {
+      const text = renderDelta(
+        [
+          { insert: 'a' },
+          { insert: '\n', attributes: { list: 'bullet' } },
+          { insert: 'b' },
+          { insert: '\n', attributes: { list: 'bullet', indent: 1 } },
+        ],
+        { bulletChar: '•', indentString: '    ' },
+      );
+      expect(text).toBe('• a\n    • b');
+    });
+  });
+
+  describe('tables', () => {
+    it('should render an aligned ASCII grid', () => {
+      const text = renderDelta([
+        { insert: 'Name' },
+        { insert: '\n', attributes: { table: 'row-1' } },
+        { insert: 'Role' },
+        { insert: '\n', attributes: { table: 'row-1' } },
+        { insert: 'Alice' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+        { insert: 'Dev' },
+        { insert: '\n', attributes: { table: 'row-2' } },
+      ]);
+      expect(text).toBe(
+        ['+-------+------+', '| Name  | Role |', '| Alice | Dev  |', '+-------+------+'].join('\n'),
+      );
+    });
+  });
+
+  describe('embeds', () => {
+    it('should render images as alt text, formulas as TeX and videos as URLs', () => {
+      const text = renderDelta([
+        { insert: { image: 'https://x.y/cat.png' }, attributes: { alt: 'A cat' } },
+        { insert: ' ' },
+        { insert: { formula: 'e=mc^2' } },
+        { insert: '\n' },
+        { insert: { video: 'https://x.y/v.mp4' } },
+        { insert: '\n' },
+      ]);
+      expect(text).toBe('A cat e=mc^2\nhttps://x.y/v.mp4');
+    });
+
+    it('should render mentions as @name', () => {
+      const text = renderDelta([
+        { insert: 'Hi ' },
+        { insert: { mention: { name: 'Ada', slug: 'ada', 'end-point': '/users' } } },
+        { insert: '\n' },
+      ]);
+      expect(text).toBe('Hi @Ada');
+    });
+
+    it('should use embedHandler for custom embeds', () => {
+      const ops = [{ insert: { poll: { question: 'Lunch?' } } }, { insert: '\n' }];
+      expect(renderDelta(ops)).toBe('');
+      expect(
+        renderDelta(ops, {
+          embedHandler: (node) => `[Poll] ${(node.data as { question: string }).question}`,
+        }),
+      ).toBe('[Poll] Lunch?');
+    });
+  });
+
+  describe('links', () => {
+    const ops = [
+      { insert: 'See ' },
+      { insert: 'the docs', attributes: { link: 'https://x.y/docs' } },
+      { insert: ' or ' },
+      { insert: 'https://x.y', attributes: { link: 'https://x.y' } },
+      { insert: '\n' },
+    ];
+
+    it('should render link text only by default', () => {
+      expect(renderDelta(ops)).toBe('See the docs or https://x.y');
+    });
+
+    it('should append URLs with showLinkUrls', () => {
+      expect(renderDelta(ops, { showLinkUrls: true })).toBe(
+        'See the docs (https://x.y/docs) or https://x.y',
+      );
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { isEmbedNode, type TNode } from '../../../core/ast-types';
+import type { SimpleRendererConfig } from '../../../core/simple-renderer';
+import { getListType } from '../../common/node-attributes';
+import { resolveCodeBlockLines } from '../../common/resolve-code-block-lines';
+import {
+  resolveFormulaText,
+  resolveImageData,
+  resolveVideoSrc,
+} from '../../common/resolve-embed-data';
+import { resolveMentionData } from '../../common/resolve-mention-data';
+import type { ResolvedPlainTextConfig } from '../types/plain-text-config';
+import { renderTextTable } from './render-text-table';
+
+type RenderNode = (node: TNode) => string;
+
+// ─── Node Override Helpers ─────────────────────────────────────────────────
+
+/** Join block children with `paragraphSpacing` blank lines, dropping trailing empty blocks. */
+function renderBlocks(node: TNode, cfg: ResolvedPlainTextConfig, renderNode: RenderNode): string {
+  const parts = node.children.map(renderNode);
+
+  // Trim trailing empty parts (from trailing newlines in the delta)
+  while (parts.length > 0 && parts[parts.length - 1] === '') {
+    parts.pop();
+  }
+
+  return parts.join('\n'.repeat(cfg.paragraphSpacing + 1));
+}
+
+function renderListNode(
+  node: TNode,
+  depth: number,
+  cfg: ResolvedPlainTextConfig,
+  renderNode: RenderNode,
+): string {
+  let orderedIndex = 0;
+  const items: string[] = [];
+
+  for (const child of node.children) {
+    if (child.type !== 'list-item') continue;
+
+    const listType = getListType(child);
+    if (listType === 'ordered') {
+      orderedIndex++;
+    }
+
+    items.push(
+      renderListItem(child, getListMarker(listType, orderedIndex, cfg), depth, cfg, renderNode),
+    );
+  }
+
+  return items.join('\n');
+}
+
+function renderListItem(
+  node: TNode,
+  marker: string,
+  depth: number,
+  cfg: ResolvedPlainTextConfig,
+  renderNode: RenderNode,
+): string {
+  const indent = cfg.indentString.repeat(depth);
+  // Continuation lines line up with the text after the marker
+  const hanging = `\n${indent}${' '.repeat([...marker].length)}`;
+
+  const content = node.children
+    .filter((c) => c.type !== 'list')
+    .map(renderNode)
+    .join('')
+    .replace(/\n/g, hanging);
+
+  let result = `${indent}${marker}${content}`;
+
+  for (const nestedList of node.children.filter((c) => c.type === 'list')) {
+    result += `\n${renderListNode(nestedList, depth + 1, cfg, renderNode)}`;
+  }
+
+  return result;
+}
+
+function getListMarker(
+  listType: string,
+  orderedIndex: number,
+  cfg: ResolvedPlainTextConfig,
+): string {
+  switch (listType) {
+    case 'ordered':
+      return `${orderedIndex}. `;
+    case 'checked':
+      return '[x] ';
+    case 'unchecked':
+      return '[ ] ';
+    default:
+      return `${cfg.bulletChar} `;
+  }
+}
+
+/**
+ * Build a full `SimpleRendererConfig<string>` for plain text.
+ *
+ * Block handlers output their text content, with embeds reduced to text:
+ * images become their alt text, videos their URL, formulas their TeX
+ * source and mentions `@name`. All inline formatting is dropped, except
+ * that links can keep their URL (`showLinkUrls`).
+ *
+ * Node overrides handle `root`, `section`, `list`, `table` and
+ * `code-block-container`, which lay out their children over several lines.
+ */
+export function buildRendererConfig(cfg: ResolvedPlainTextConfig): SimpleRendererConfig<string> {
+  return {
+    onUnknownNode: (node: TNode) => {
+      if (isEmbedNode(node)) {
+        return cfg.embedHandler?.(node) ?? '';
+      }
+      return undefined;
+    },
+
+    nodeOverrides: {
+      'line-break': () => '\n',
+
+      // Trailing line breaks inside the last block are dropped too
+      root: (node, ctx) => renderBlocks(node, cfg, ctx.renderNode).replace(/\n+$/, ''),
+
+      section: (node, ctx) => renderBlocks(node, cfg, ctx.renderNode),
+
+      'code-block-container': (node) => resolveCodeBlockLines(node).lines.join('\n'),
+
+      list: (node, ctx) => renderListNode(node, 0, cfg, ctx.renderNode),
+
+      table: (node, ctx) => renderTextTable(node, ctx.renderNode),
+    },
+
+    blocks: {
+      paragraph: (_node, children) => children,
+
+      header: (_node, children) => children,
+
+      blockquote: (_node, children) => children,
+
+      'code-block': (_node, children) => children,
+
+      image: (node) => resolveImageData(node)?.alt ?? '',
+
+      video: (node) => resolveVideoSrc(node) ?? '',
+
+      divider: () => cfg.hrString,
+
+      formula: (node) => resolveFormulaText(node),
+
+      mention: (node) => {
+        const { name } = resolveMentionData(node);
+        return name ? `@${name}` : '';
+      },
+    },
+
+    marks: {
+      link: (content, value) => {
+        const url = String(value);
+        return cfg.showLinkUrls && content !== url ? `${content} (${url})` : content;
+      },
+    },
+  };
+}
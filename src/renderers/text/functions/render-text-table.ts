@@ -0,0 +1,66 @@
+import type { TNode } from '../../../core/ast-types';
+import { getTableRows } from '../../common/resolve-table-data';
+
+type RenderNode = (node: TNode) => string;
+
+function columns(text: string): number {
+  return [...text].length;
+}
+
+function padEnd(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - columns(text)));
+}
+
+/** Render a cell's children, starting block children on a new line. */
+function renderCellContent(cell: TNode, renderNode: RenderNode): string {
+  let content = '';
+  cell.children.forEach((child, i) => {
+    const prev = cell.children[i - 1];
+    if (prev && (!prev.isInline || !child.isInline)) content += '\n';
+    content += renderNode(child);
+  });
+  return content;
+}
+
+/**
+ * Render a `table` node as an ASCII grid with every column padded to its
+ * widest cell. Cells with line breaks span several lines; shorter rows are
+ * padded with empty cells. Column and row spans are dropped.
+ *
+ * ```
+ * +-------+------+
+ * | Name  | Role |
+ * | Alice | Dev  |
+ * +-------+------+
+ * ```
+ * @internal
+ */
+export function renderTextTable(table: TNode, renderNode: RenderNode): string {
+  const rows = getTableRows(table).map((row) =>
+    row.children.map((cell) =>
+      renderCellContent(cell, renderNode)
+        .split('\n')
+        .map((line) => line.trimEnd()),
+    ),
+  );
+  if (rows.length === 0) return '';
+
+  const columnCount = Math.max(1, ...rows.map((cells) => cells.length));
+  const widths = Array.from({ length: columnCount }, (_, col) =>
+    Math.max(1, ...rows.flatMap((cells) => (cells[col] ?? ['']).map(columns))),
+  );
+
+  const border = `+${widths.map((width) => '-'.repeat(width + 2)).join('+')}+`;
+  const lines = [border];
+
+  for (const cells of rows) {
+    const height = Math.max(1, ...cells.map((cell) => cell.length));
+    for (let line = 0; line < height; line++) {
+      const parts = widths.map((width, col) => padEnd(cells[col]?.[line] ?? '', width));
+      lines.push(`| ${parts.join(' | ')} |`);
+    }
+  }
+
+  lines.push(border);
+  return lines.join('\n');
+}
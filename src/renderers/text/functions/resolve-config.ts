@@ -0,0 +1,16 @@
+import type { PlainTextConfig, ResolvedPlainTextConfig } from '../types/plain-text-config';
+
+/**
+ * Apply defaults to produce a fully resolved config.
+ * @internal
+ */
+export function resolveConfig(config?: PlainTextConfig): ResolvedPlainTextConfig {
+  return {
+    paragraphSpacing: Math.max(0, config?.paragraphSpacing ?? 0),
+    bulletChar: config?.bulletChar ?? '-',
+    indentString: config?.indentString ?? '  ',
+    hrString: config?.hrString ?? '---',
+    showLinkUrls: config?.showLinkUrls ?? false,
+    embedHandler: config?.embedHandler,
+  };
+}
@@ -0,0 +1,2 @@
+export { PlainTextRenderer } from './plain-text-renderer';
+export type { PlainTextConfig, TextEmbedHandler } from './types/plain-text-config';
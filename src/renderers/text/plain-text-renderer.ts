@@ -0,0 +1,41 @@
+import { SimpleRenderer } from '../../core/simple-renderer';
+import { buildRendererConfig } from './functions/build-renderer-config';
+import { resolveConfig } from './functions/resolve-config';
+import type { PlainTextConfig } from './types/plain-text-config';
+
+/**
+ * Renders an AST into plain text, for search indexing, SMS and
+ * notification previews.
+ *
+ * Formatting is dropped but layout is kept: one line per block, list
+ * items with their markers, numbering and indentation, checklists as
+ * `[x]` / `[ ]`, and tables as aligned ASCII grids. Images render as their
+ * alt text, mentions as `@name`, formulas as their TeX source.
+ *
+ * @example
+ * ```ts
+ * const text = new PlainTextRenderer().render(ast);
+ * ```
+ *
+ * @example
+ * ```ts
+ * // A blank line between paragraphs, and link URLs kept
+ * const renderer = new PlainTextRenderer({ paragraphSpacing: 1, showLinkUrls: true });
+ * // 'See the docs (https://example.com/docs)'
+ * ```
+ */
+export class PlainTextRenderer extends SimpleRenderer<string> {
+  constructor(config?: PlainTextConfig) {
+    super(buildRendererConfig(resolveConfig(config)));
+  }
+
+  // ─── SimpleRenderer Abstract Methods ─────────────────────────────────────
+
+  protected joinChildren(children: string[]): string {
+    return children.join('');
+  }
+
+  protected renderText(text: string): string {
+    return text;
+  }
+}
@@ -0,0 +1,66 @@
+import type { TNode } from '../../../core/ast-types';
+
+/**
+ * Callback to render a custom embed node as plain text. Return a string to
+ * emit, or `undefined` to emit nothing.
+ */
+export type TextEmbedHandler = (node: TNode) => string | undefined;
+
+/**
+ * Configuration options for the {@link PlainTextRenderer}.
+ *
+ * All options are optional; the defaults give compact text with one line
+ * per block, suitable for search indexing and previews.
+ */
+export interface PlainTextConfig {
+  /**
+   * Number of blank lines between top-level blocks. Lines that
+   * `blockMerger` joined into one block stay on consecutive lines; parse
+   * with `blockMerger: false` to space every line.
+   * @default 0
+   */
+  paragraphSpacing?: number;
+
+  /**
+   * Marker for unordered (bullet) list items.
+   * @default '-'
+   */
+  bulletChar?: string;
+
+  /**
+   * Indentation string for nested list levels.
+   * @default '  ' (2 spaces)
+   */
+  indentString?: string;
+
+  /**
+   * Line used for horizontal rules (dividers).
+   * @default '---'
+   */
+  hrString?: string;
+
+  /**
+   * Append the URL to link text as `text (url)`. Links whose text already
+   * is the URL are left as they are.
+   * @default false
+   */
+  showLinkUrls?: boolean;
+
+  /**
+   * Render custom embed nodes. Unknown embeds are dropped otherwise.
+   */
+  embedHandler?: TextEmbedHandler;
+}
+
+/**
+ * Fully resolved configuration with all defaults applied.
+ * @internal
+ */
+export interface ResolvedPlainTextConfig {
+  paragraphSpacing: number;
+  bulletChar: string;
+  indentString: string;
+  hrString: string;
+  showLinkUrls: boolean;
+  embedHandler?: TextEmbedHandler;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { Delta, DeltaOp, TNode, Transformer } from './core/ast-types';
+import { parseQuillDelta } from './parse-quill-delta';
+import { streamQuillDelta } from './stream-quill-delta';
+
+const DOCUMENT: Delta = {
+  ops: [
+    { insert: 'Title' },
+    { insert: '\n', attributes: { header: 1 } },
+    { insert: 'one\ntwo\n' },
+    { insert: 'a' },
+    { insert: '\n', attributes: { list: 'bullet' } },
+    { insert: 'a.1' },
+    { insert: '\n', attributes: { list: 'ordered', indent: 1 } },
+    { insert: 'cell' },
+    { insert: '\n\n', attributes: { table: 'row-1' } },
+    { insert: 'x = 1' },
+    { insert: '\n\n', attributes: { 'code-block': 'js' } },
+    { insert: { video: 'v.mp4' } },
+    { insert: 'quote' },
+    { insert: '\n\n', attributes: { blockquote: true } },
+    { insert: 'tail' },
+  ],
+};
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+}
+
+describe('streamQuillDelta', () => {
+  it('should yield the same nodes as parseQuillDelta', async () => {
+    expect(await collect(streamQuillDelta(DOCUMENT.ops))).toEqual(
+      parseQuillDelta(DOCUMENT).children,
+    );
+  });
+
+  it('should match parseQuillDelta with blockMerger options', async () => {
+    for (const blockMerger of [false, { multiLineParagraph: false }] as const) {
+      expect(await collect(streamQuillDelta(DOCUMENT.ops, { blockMerger }))).toEqual(
+        parseQuillDelta(DOCUMENT, { blockMerger }).children,
+      );
+    }
+  });
+
+  it('should hold back a list until the run ends', async () => {
+    const reads: string[] = [];
+    function* ops(): Generator<DeltaOp> {
+      for (const op of [
+        { insert: 'intro\n' },
+        { insert: 'a' },
+        { insert: '\n', attributes: { list: 'bullet' } },
+        { insert: 'b' },
+        { insert: '\n', attributes: { list: 'bullet' } },
+        { insert: 'after\n' },
+      ]) {
+        reads.push(typeof op.insert === 'string' ? op.insert : '');
+        yield op;
+      }
+    }
+
+    const stream = streamQuillDelta(ops(), { blockMerger: false });
+
+    // The paragraph is final once the next block (the first list item) starts
+    expect((await stream.next()).value?.type).toBe('paragraph');
+    expect(reads).toEqual(['intro\n', 'a', '\n']);
+
+    const list = (await stream.next()).value as TNode;
+    expect(list.type).toBe('list');
+    expect(list.children).toHaveLength(2);
+    expect(reads).toEqual(['intro\n', 'a', '\n', 'b', '\n', 'after\n']);
+  });
+
+  it('should hold back runs of custom transformers with continuesRun', async () => {
+    const gallery: Transformer = (children) =>
+      children.every((c) => c.type === 'image')
+        ? [{ type: 'gallery', attributes: {}, children, isInline: false }]
+        : children;
+    const ops: DeltaOp[] = [
+      { insert: { image: 'a.png' } },
+      { insert: { image: 'b.png' } },
+      { insert: 'text\n' },
+    ];
+
+    const nodes = await collect(
+      streamQuillDelta(ops, {
+        blockEmbeds: ['image'],
+        extraTransformers: [gallery],
+        continuesRun: (curr, prev) => curr.type === 'image' && prev.type === 'image',
+      }),
+    );
+
+    expect(nodes.map((n) => n.type)).toEqual(['gallery', 'paragraph']);
+  });
+});
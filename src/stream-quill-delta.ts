@@ -0,0 +1,83 @@
+import { blockMergePredicate } from './common/transformers/block-merger';
+import { isListItem, isTableCellLine } from './common/utils/node-queries';
+import type { DeltaOp, RunPredicate, TNode } from './core/ast-types';
+import { parseDeltaStream } from './core/parser';
+import { applyTransformersStream } from './core/transformer';
+import {
+  buildParserConfig,
+  buildTransformers,
+  type ParseQuillDeltaOptions,
+} from './parse-quill-delta';
+
+/**
+ * Options for {@link streamQuillDelta}. The same as
+ * {@link ParseQuillDeltaOptions}, minus `changes` and `normalize`, which
+ * need the whole document.
+ */
+export interface StreamQuillDeltaOptions
+  extends Omit<ParseQuillDeltaOptions, 'changes' | 'normalize'> {
+  /**
+   * Adjacency test for custom transformers (`extraTransformers` or
+   * `transformers`): whether the transformer may combine a block with the
+   * one before it. Such runs are held back until they end. The standard
+   * transformers are covered already.
+   */
+  continuesRun?: RunPredicate;
+}
+
+/** Blocks the standard transformers may combine with the block before them. */
+function standardRunPredicate(options?: StreamQuillDeltaOptions): RunPredicate {
+  const canMerge =
+    options?.blockMerger === false ? () => false : blockMergePredicate(options?.blockMerger);
+
+  return (curr, prev) =>
+    (isListItem(curr) && isListItem(prev)) ||
+    (isTableCellLine(curr) && isTableCellLine(prev)) ||
+    (curr.type === 'code-block' && prev.type === 'code-block') ||
+    canMerge(curr, prev);
+}
+
+/**
+ * Streaming counterpart of {@link parseQuillDelta}: parses a stream of
+ * Delta ops and yields the transformed top-level nodes as soon as each
+ * one is final.
+ *
+ * A block is final once the next block starts and cannot be combined with
+ * it. Runs the transformers combine — consecutive list items, table
+ * cells, code lines and (with `blockMerger`) same-style blocks — are held
+ * back until they end. Disable `blockMerger` (or its `multiLineParagraph`
+ * option) to emit plain paragraphs one by one.
+ *
+ * The yielded nodes equal `parseQuillDelta(delta, options).children`.
+ * Pair with {@link renderStream} to render chunks as they are produced.
+ *
+ * @example
+ * ```ts
+ * import { streamQuillDelta } from 'quill-delta-renderer';
+ * import { renderStream } from 'quill-delta-renderer/core';
+ * import { SemanticHtmlRenderer } from 'quill-delta-renderer/html';
+ *
+ * const renderer = new SemanticHtmlRenderer();
+ * for await (const chunk of renderStream(renderer, streamQuillDelta(readOps(file)))) {
+ *   response.write(chunk);
+ * }
+ * ```
+ */
+export function streamQuillDelta(
+  ops: AsyncIterable<DeltaOp> | Iterable<DeltaOp>,
+  options?: StreamQuillDeltaOptions,
+): AsyncGenerator<TNode, void, undefined> {
+  const standard: RunPredicate = options?.transformers
+    ? () => false
+    : standardRunPredicate(options);
+  const custom = options?.continuesRun;
+  const continuesRun: RunPredicate = custom
+    ? (curr, prev) => standard(curr, prev) || custom(curr, prev)
+    : standard;
+
+  return applyTransformersStream(
+    parseDeltaStream(ops, buildParserConfig(options)),
+    buildTransformers(options),
+    continuesRun,
+  );
+}
@@ -8,6 +8,8 @@ export default defineConfig({
     'renderers/html/index': 'src/renderers/html/index.ts',
     'renderers/react/index': 'src/renderers/react/index.ts',
     'renderers/markdown/index': 'src/renderers/markdown/index.ts',
+    'renderers/text/index': 'src/renderers/text/index.ts',
+    'import/index': 'src/import/index.ts',
   },
   format: ['esm', 'cjs'],
   dts: true,